@@ -28,7 +28,7 @@ BEGIN
         uploaded_at DATETIME2 DEFAULT GETUTCDATE(),
         
         -- Processing status
-        processing_status NVARCHAR(50) DEFAULT 'pending', -- pending, processing, completed, failed, manual_review
+        processing_status NVARCHAR(50) DEFAULT 'pending', -- pending, processing, ocr_complete, mapping_queued, mapping, completed, failed, budget_blocked, manual_review
         processing_started_at DATETIME2,
         processing_completed_at DATETIME2,
         processing_duration_ms INT,
@@ -43,6 +43,8 @@ BEGIN
         
         -- AI Model results (GPT-4o, Llama, Mistral, etc.)
         ai_model_used NVARCHAR(100), -- e.g., 'gpt-4o', 'llama-3-1-405b'
+        mapping_source NVARCHAR(20), -- llm, template, csv_template, manual
+        mapping_overrides NVARCHAR(MAX), -- JSON: reprocess model/promptVariant/temperature/columnMapping
         ai_mapping_result NVARCHAR(MAX), -- Product mapping JSON result
         ai_prompt_used NVARCHAR(MAX), -- Exact prompt sent to LLM
         ai_confidence_score DECIMAL(5,2), -- Overall confidence score (0-100)
@@ -54,7 +56,7 @@ BEGIN
         -- Cost tracking
         doc_intel_cost_usd DECIMAL(10,6),
         ai_model_cost_usd DECIMAL(10,6),
-        total_cost_usd DECIMAL(10,6),
+        total_cost_usd DECIMAL(10,6), -- Cost incurred by this row: OCR (original only) + AI mapping
         
         -- Validation
         requires_manual_review BIT DEFAULT 0,
@@ -70,6 +72,7 @@ BEGIN
         -- Reprocessing tracking
         parent_document_id UNIQUEIDENTIFIER, -- Original document if this is a reprocess
         reprocessing_count INT DEFAULT 0,
+        pinned_result_id UNIQUEIDENTIFIER, -- Root only: canonical version of the chain (NULL = latest)
         
         -- Export status
         export_status NVARCHAR(50) DEFAULT 'not_exported', -- not_exported, confirmed, exported, rejected
@@ -101,6 +104,7 @@ BEGIN
         id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
         vendor_id NVARCHAR(100) NOT NULL,
         vendor_name NVARCHAR(200) NOT NULL,
+        vendor_base_name NVARCHAR(200), -- Vendor name without _MM_YY (upsert key with sku)
         
         -- Product information (minimal required schema)
         product_name NVARCHAR(500),
@@ -109,9 +113,27 @@ BEGIN
         unit NVARCHAR(100),
         description NVARCHAR(MAX),
         
-        -- Source tracking
+        -- Extended pricing/ordering fields (client mapping template spec)
+        cost DECIMAL(18,4), -- Dealer cost
+        map_price DECIMAL(18,4), -- Minimum advertised price
+        msrp DECIMAL(18,4),
+        upc NVARCHAR(14), -- Check-digit validated UPC/EAN/GTIN
+        moq INT, -- Minimum order quantity
+        category NVARCHAR(200),
+        sub_category NVARCHAR(200), -- Category from section headings, or the CSV template
+        pack_size NVARCHAR(100),
+        parent_sku NVARCHAR(200), -- Parent product's SKU for size/option variants
+        variant_attributes NVARCHAR(MAX), -- JSON: variant attributes, e.g. {"color": "Cobalt"}
+        
+        -- Catalog lifecycle (upserted from each month's price list)
+        effective_month DATE, -- Month of the price list that last set this row
+        is_discontinued BIT NOT NULL DEFAULT 0, -- SKU missing from the latest price list
+        discontinued_at DATETIME2,
+        
+        -- Source tracking (latest price list for this SKU)
         source_document_id UNIQUEIDENTIFIER NOT NULL,
         source_document_name NVARCHAR(500),
+        source_provenance NVARCHAR(MAX), -- JSON: table/row, page, bounding region, raw cells
         
         -- Metadata
         created_at DATETIME2 DEFAULT GETUTCDATE(),
@@ -125,5 +147,208 @@ BEGIN
 END
 GO
 
+-- Columns added after initial deployment (CREATE TABLE above is skipped on existing databases)
+IF COL_LENGTH('vvocr.document_processing_results', 'mapping_source') IS NULL
+BEGIN
+    ALTER TABLE vvocr.document_processing_results ADD mapping_source NVARCHAR(20);
+END
+GO
+
+IF COL_LENGTH('vvocr.document_processing_results', 'mapping_overrides') IS NULL
+BEGIN
+    ALTER TABLE vvocr.document_processing_results ADD mapping_overrides NVARCHAR(MAX);
+END
+GO
+
+IF COL_LENGTH('vvocr.document_processing_results', 'pinned_result_id') IS NULL
+BEGIN
+    ALTER TABLE vvocr.document_processing_results ADD pinned_result_id UNIQUEIDENTIFIER;
+END
+GO
+
+IF COL_LENGTH('vvocr.vendor_products', 'cost') IS NULL
+BEGIN
+    ALTER TABLE vvocr.vendor_products ADD
+        cost DECIMAL(18,4),
+        map_price DECIMAL(18,4),
+        msrp DECIMAL(18,4),
+        upc NVARCHAR(14),
+        moq INT,
+        category NVARCHAR(200),
+        pack_size NVARCHAR(100);
+END
+GO
+
+IF COL_LENGTH('vvocr.vendor_products', 'vendor_base_name') IS NULL
+BEGIN
+    ALTER TABLE vvocr.vendor_products ADD
+        vendor_base_name NVARCHAR(200),
+        effective_month DATE,
+        is_discontinued BIT NOT NULL CONSTRAINT DF_vendor_products_is_discontinued DEFAULT 0,
+        discontinued_at DATETIME2;
+END
+GO
+
+IF COL_LENGTH('vvocr.vendor_products', 'source_provenance') IS NULL
+BEGIN
+    ALTER TABLE vvocr.vendor_products ADD source_provenance NVARCHAR(MAX);
+END
+GO
+
+IF COL_LENGTH('vvocr.vendor_products', 'sub_category') IS NULL
+BEGIN
+    ALTER TABLE vvocr.vendor_products ADD sub_category NVARCHAR(200);
+END
+GO
+
+IF COL_LENGTH('vvocr.vendor_products', 'parent_sku') IS NULL
+BEGIN
+    ALTER TABLE vvocr.vendor_products ADD
+        parent_sku NVARCHAR(200),
+        variant_attributes NVARCHAR(MAX);
+END
+GO
+
+-- Backfill total_cost_usd for rows processed before it was maintained
+-- (reprocess versions copy doc_intel_cost_usd but reuse the original's OCR, so count it once)
+UPDATE vvocr.document_processing_results
+SET total_cost_usd =
+    CASE WHEN parent_document_id IS NULL THEN ISNULL(doc_intel_cost_usd, 0) ELSE 0 END
+    + ISNULL(ai_model_cost_usd, 0)
+WHERE total_cost_usd IS NULL
+  AND (doc_intel_cost_usd IS NOT NULL OR ai_model_cost_usd IS NOT NULL);
+GO
+
+-- One catalog row per vendor SKU (rows exported before upserts have no base name)
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'UX_vendor_products_vendor_sku')
+BEGIN
+    CREATE UNIQUE INDEX UX_vendor_products_vendor_sku
+        ON vvocr.vendor_products (vendor_base_name, sku)
+        WHERE vendor_base_name IS NOT NULL AND sku IS NOT NULL;
+END
+GO
+
+-- =============================================
+-- 7. Vendor Mapping Templates
+-- Confirmed header → field mappings, reused instead of calling the LLM
+-- Keyed by vendor base name (BETTER_LIVING_11_25 → BETTER_LIVING); no FK so
+-- templates survive deleteVendor and apply to the next month's upload
+-- =============================================
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'vendor_mapping_templates' AND schema_id = SCHEMA_ID('vvocr'))
+BEGIN
+    CREATE TABLE vvocr.vendor_mapping_templates (
+        template_id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+        vendor_base_name NVARCHAR(200) NOT NULL,
+        
+        -- Mapping rules (JSON)
+        header_mapping NVARCHAR(MAX) NOT NULL, -- {"sku": "Item #", "price": "Wholesale", ...}
+        transforms NVARCHAR(MAX), -- {"sku": ["uppercase"], ...}
+        default_values NVARCHAR(MAX), -- {"unit": "EA", ...}
+        
+        -- Source tracking
+        source_document_id UNIQUEIDENTIFIER, -- Document whose confirmation created/updated the template
+        times_applied INT DEFAULT 0,
+        last_applied_at DATETIME2,
+        
+        -- Metadata
+        created_at DATETIME2 DEFAULT GETUTCDATE(),
+        updated_at DATETIME2 DEFAULT GETUTCDATE(),
+        
+        CONSTRAINT UQ_vendor_mapping_templates_vendor UNIQUE (vendor_base_name)
+    );
+END
+GO
+
+-- =============================================
+-- 8. Vendor Product Price History
+-- One row per SKU change when a price list is confirmed
+-- (new, price_change, reactivated, discontinued); no FK so history
+-- survives deleteVendor
+-- =============================================
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'vendor_product_price_history' AND schema_id = SCHEMA_ID('vvocr'))
+BEGIN
+    CREATE TABLE vvocr.vendor_product_price_history (
+        history_id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+        vendor_base_name NVARCHAR(200) NOT NULL,
+        sku NVARCHAR(200) NOT NULL,
+        change_type NVARCHAR(20) NOT NULL, -- new | price_change | reactivated | discontinued
+        old_price DECIMAL(18,4),
+        new_price DECIMAL(18,4),
+        
+        -- Source tracking
+        source_document_id UNIQUEIDENTIFIER NOT NULL, -- Price list whose confirmation recorded the change
+        source_document_name NVARCHAR(500),
+        effective_month DATE,
+        
+        -- Metadata
+        created_at DATETIME2 DEFAULT GETUTCDATE(),
+        
+        INDEX IX_price_history_vendor_sku (vendor_base_name, sku),
+        INDEX IX_price_history_source_doc (source_document_id)
+    );
+END
+GO
+
+-- =============================================
+-- 9. Evaluation Runs
+-- One row per golden-set evaluation (test/tools/evaluateGolden.ts --save);
+-- runs saved as baselines are what later runs are compared with for drift
+-- =============================================
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'evaluation_runs' AND schema_id = SCHEMA_ID('vvocr'))
+BEGIN
+    CREATE TABLE vvocr.evaluation_runs (
+        run_id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+        model NVARCHAR(100) NOT NULL, -- LLM deployment, 'recorded' or 'fake'
+        prompt_variant NVARCHAR(50) NOT NULL,
+        triggered_by NVARCHAR(200), -- User or CI system
+        is_baseline BIT NOT NULL DEFAULT 0,
+        
+        -- Summary
+        vendor_count INT,
+        vendors_failed INT, -- Vendors that could not be evaluated
+        average_f1 DECIMAL(5,2),
+        drift_severity NVARCHAR(20), -- None | Low | Medium | High | Critical (worst vendor; NULL = no baseline)
+        
+        -- Metadata
+        created_at DATETIME2 DEFAULT GETUTCDATE(),
+        
+        INDEX IX_evaluation_runs_created_at (created_at)
+    );
+END
+GO
+
+-- =============================================
+-- 10. Evaluation Results
+-- Per-vendor metrics of an evaluation run and their drift against the baseline
+-- =============================================
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'evaluation_results' AND schema_id = SCHEMA_ID('vvocr'))
+BEGIN
+    CREATE TABLE vvocr.evaluation_results (
+        result_id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+        run_id UNIQUEIDENTIFIER NOT NULL,
+        vendor_name NVARCHAR(200) NOT NULL, -- Golden dataset folder (test/e2e/docs/<VENDOR>)
+        document_id UNIQUEIDENTIFIER, -- Source document of the OCR result, when known
+        
+        -- Metrics (percent)
+        f1_score DECIMAL(5,2),
+        precision_pct DECIMAL(5,2),
+        recall_pct DECIMAL(5,2),
+        metrics NVARCHAR(MAX), -- JSON: full evaluation metrics incl. field accuracy
+        
+        -- Drift against the baseline
+        baseline_run_id UNIQUEIDENTIFIER, -- Baseline run compared with (NULL = no baseline)
+        drift NVARCHAR(MAX), -- JSON: per-metric baseline/current/delta/severity
+        drift_severity NVARCHAR(20),
+        
+        error_message NVARCHAR(MAX),
+        created_at DATETIME2 DEFAULT GETUTCDATE(),
+        
+        FOREIGN KEY (run_id) REFERENCES vvocr.evaluation_runs(run_id),
+        INDEX IX_evaluation_results_run_id (run_id),
+        INDEX IX_evaluation_results_vendor (vendor_name)
+    );
+END
+GO
+
 PRINT 'VVOCR tables created successfully!';
 
@@ -1,38 +1,64 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { BlobServiceClient } from '@azure/storage-blob';
 import sql from 'mssql';
-import { OpenAI } from 'openai';
+import { checkBudget } from '../utils/budget.js';
+import {
+  buildHeaderMapping,
+  getMappingTemplate,
+  matchTemplate,
+  MappingTemplate,
+  recordTemplateUse,
+} from '../utils/mappingTemplates.js';
+import {
+  buildFallbackChunks,
+  buildFallbackPrompt,
+  collectNonTableText,
+  FALLBACK_MAX_TOKENS,
+  isFallbackEnabled,
+  parseFallbackProducts,
+} from '../utils/fallbackExtraction.js';
+import { createLlmProvider, LlmProvider } from '../utils/llmProvider.js';
+import { hasManualMapping, MappingOverrides } from '../utils/mappingOverrides.js';
+import { Product } from '../utils/productSchema.js';
+import { PRICE_REVIEW_CONFIDENCE } from '../utils/priceParser.js';
+import { calculateLlmCost, PRICING_CATALOG_VERSION } from '../utils/pricingCatalog.js';
+import {
+  extractProducts,
+  mappingMaxTokens,
+  mappingsFromLlmResponse,
+  OcrData,
+  prepareTables,
+  Table,
+} from '../utils/productExtraction.js';
+import { buildColumnMappingPrompt } from '../utils/promptVariants.js';
+import { buildRowSource } from '../utils/provenance.js';
+import { isSpreadsheetFile } from '../utils/spreadsheetParser.js';
+import {
+  clusterTableLayouts,
+  ColumnMapping,
+  resolveLayoutMappings,
+  TableLayout,
+} from '../utils/tableLayouts.js';
+import { parseVendorName } from '../utils/validations.js';
 
 // Type definitions
 interface RequestBody {
   documentId: string;
 }
 
-interface TableCell {
-  kind: string;
-  content?: string;
-  rowIndex: number;
-  columnIndex: number;
-}
-
-interface Table {
-  cells: TableCell[];
-}
-
-interface Product {
-  name: string;
-  sku: string;
-  price: number;
-  unit?: string;
-  description?: string;
-}
-
 // Connection strings from environment variables
 const SQL_CONNECTION_STRING = process.env.SQL_CONNECTION_STRING;
-const AI_PROJECT_ENDPOINT = process.env.AI_PROJECT_ENDPOINT;
-const AI_PROJECT_KEY = process.env.AI_PROJECT_KEY;
 const BRONZE_LAYER_CONTAINER = 'bronze-layer';
 
+// Statuses from which a mapping run may start (see utils/mappingQueue.ts)
+const MAPPABLE_STATUSES = [
+  'ocr_complete',
+  'mapping_queued',
+  'mapping',
+  'completed',
+  'budget_blocked',
+];
+
 /**
  * AI Product Mapper - HTTP POST endpoint for AI-based product extraction
  *
@@ -43,23 +69,53 @@ const BRONZE_LAYER_CONTAINER = 'bronze-layer';
  *    - Extract document_id from request body
  *    - Validate AI project credentials
  *    - Query database for OCR results (doc_intel_structured_data)
+ *    - Set processing_status = 'mapping' while the run is in progress
  *
- * 2. COLUMN DETECTION (GPT-4o Phase 1)
- *    - Extract all table headers from OCR data
- *    - Send headers to GPT-4o for intelligent column mapping
+ * 2. COLUMN DETECTION
+ *    - Tables come stitched by documentProcessor (continuations merged onto the table they
+ *      continue, see utils/tableNormalizer.ts); older OCR results are stitched here
+ *    - Rebuild each table as a plain grid (utils/tableGrid.ts): expand merged cells, compose
+ *      multi-row headers ("Price" over "Each | Case" → "Price Each"), join wrapped rows
+ *    - Group tables into layouts by header signature (see utils/tableLayouts.ts);
+ *      tables with identical headers share a mapping, divergent tables get their own
+ *    - A column mapping supplied with the reprocess (mapping_overrides) is used as-is
+ *    - Otherwise try the vendor's mapping template (vendor_mapping_templates, keyed by
+ *      base name from parseVendorName) - used when all its headers are present and
+ *      the reprocess did not override model/prompt/temperature
+ *    - Otherwise send layouts to the LLM (Phase 1) for per-layout column mapping, using
+ *      the overridden deployment, prompt variant (utils/promptVariants.ts) and temperature
+ *    - LLM calls go through the provider selected by LLM_PROVIDER (utils/llmProvider.ts):
+ *      azure-openai (default), openai-compatible, or fake (offline, deterministic)
+ *    - Before the LLM call, check spend caps (utils/budget.ts) with the cost estimated from
+ *      the prompt size and max output tokens; over budget → 'budget_blocked', 402 response
  *    - Identify: SKU, name, price, unit, description columns
  *    - Handles vendor-specific naming variations
  *
  * 3. PRODUCT EXTRACTION (GPT-4o Phase 2)
- *    - Iterate through table rows using column mapping
- *    - Extract products with minimal required schema:
- *      * name (required)
- *      * SKU (required)
- *      * price (required)
- *      * unit (optional)
- *      * description (optional)
- *    - Parse prices (remove currency symbols, commas)
- *    - Filter out invalid rows (missing required fields)
+ *    - Iterate through table rows after the header rows, using the column mapping of each
+ *      table's layout
+ *    - Extract products (see utils/productSchema.ts):
+ *      * name, SKU, price (required)
+ *      * unit, description (optional)
+ *      * cost, MAP, MSRP - multiple price columns are detected from headers
+ *      * UPC (dropped unless the GS1 check digit is valid), MOQ, category, pack size
+ *      * source: table/row index, page, row bounding region and raw cells (utils/provenance.ts)
+ *    - Parse prices with utils/priceParser.ts: currency, locale separators, per-unit
+ *      suffixes, quantity tiers, ranges; placeholders ("CALL", "N/A") give price null
+ *    - Size/option matrices (utils/variantMatrix.ts): when a layout has size or SKU-suffix
+ *      columns (6" | 8" | 10", -S | -M), each row is a parent product with one variant per
+ *      offered cell (attributes, SKU, price); the parent price is the lowest variant price
+ *      unless a price column outside the matrix is mapped
+ *    - Section rows ("QUILTED HAMMOCKS") and page headings preceding a table set the
+ *      category / subCategory of the following products (utils/sectionHeaders.ts)
+ *    - Other rows missing sku or name are recorded in rejectedRows with the reason
+ *
+ * 3b. LLM FALLBACK (optional, LLM_FALLBACK_EXTRACTION=true - see utils/fallbackExtraction.ts)
+ *    - Send rejected rows and text outside tables (PDFs only) to the LLM in chunks
+ *    - Add products whose SKU the column mapping did not already find
+ *    - Products are tagged extractionMethod 'column_mapping' or 'llm_fallback'
+ *    - Skipped (with a warning) when it would exceed a budget cap; a failed chunk is logged
+ *      and skipped so the column-mapped products are still saved
  *
  * 4. BRONZE-LAYER STORAGE
  *    - Store AI mapping result in bronze-layer/ai-mapping/{document_id}-v{version}.json
@@ -68,20 +124,26 @@ const BRONZE_LAYER_CONTAINER = 'bronze-layer';
  * 5. DATABASE UPDATE
  *    - Update document_processing_results table with:
  *      * ai_mapping_result: Product JSON array
- *      * ai_model_name: 'gpt-4o'
+ *      * ai_model_used: deployment name (or 'template' / 'manual' when no LLM call was made)
+ *      * mapping_source: 'manual' | 'template' | 'llm'
  *      * ai_prompt_used: Full prompt text
  *      * ai_prompt_tokens, ai_completion_tokens, ai_total_tokens
- *      * ai_model_cost_usd: Calculated cost
+ *      * ai_model_cost_usd: Calculated cost, total_cost_usd: OCR + AI cost
  *      * product_count: Number of products extracted
- *      * processing_status: 'ocr_complete' -> 'completed'
+ *      * processing_status: 'mapping' -> 'completed'
  *      * processing_completed_at: Timestamp
  *
- * COST CALCULATION:
- * - GPT-4o: $2.50/1M input tokens, $10.00/1M output tokens
- * - Cost = (prompt_tokens * 0.0025 + completion_tokens * 0.01) / 1000
+ * COST CALCULATION (utils/pricingCatalog.ts):
+ * - Per-model prices with effective dates (GPT-4o: $2.50/1M input, $1.25/1M cached, $10.00/1M output)
+ * - Cost = (uncached_prompt * inputPer1K + cached_prompt * cachedInputPer1K
+ *          + completion_tokens * outputPer1K) / 1000
+ * - total_cost_usd = doc_intel_cost_usd + ai_model_cost_usd on the original; reprocess
+ *   versions reuse its OCR (copied doc_intel_cost_usd) so they only add their AI cost
  *
  * ERROR HANDLING:
  * - 400 Bad Request: Missing document_id
+ * - 402 Payment Required: LLM call would exceed a budget cap (row parked in 'budget_blocked',
+ *   run it again via this endpoint once the budget allows)
  * - 404 Not Found: Document not found or OCR not complete
  * - 500 Internal Server Error: AI or database errors
  * - Updates DB with 'failed' status on errors
@@ -89,7 +151,8 @@ const BRONZE_LAYER_CONTAINER = 'bronze-layer';
  * REPROCESSING:
  * - Can be called multiple times on same document_id
  * - Each run increments reprocessing_count
- * - Allows prompt/model iteration for accuracy improvement
+ * - Allows prompt/model iteration for accuracy improvement: reprocessMapping stores
+ *   model / promptVariant / temperature / columnMapping overrides on the new version
  */
 export async function aiProductMapperHandler(
   req: HttpRequest,
@@ -110,10 +173,6 @@ export async function aiProductMapperHandler(
       };
     }
 
-    if (!AI_PROJECT_ENDPOINT || !AI_PROJECT_KEY) {
-      throw new Error('Missing AI project configuration');
-    }
-
     // 1. Retrieve OCR results from database
     pool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
     await pool.connect();
@@ -127,7 +186,8 @@ export async function aiProductMapperHandler(
           doc_intel_structured_data,
           doc_intel_extracted_text,
           processing_status,
-          reprocessing_count
+          reprocessing_count,
+          mapping_overrides
         FROM vvocr.document_processing_results 
         WHERE result_id = @documentId
       `);
@@ -142,10 +202,8 @@ export async function aiProductMapperHandler(
 
     const document = result.recordset[0];
 
-    if (
-      document.processing_status !== 'ocr_complete' &&
-      document.processing_status !== 'completed'
-    ) {
+    // 'mapping' is accepted so a queue redelivery after a crashed run can finish the job
+    if (!MAPPABLE_STATUSES.includes(document.processing_status)) {
       await pool.close();
       return {
         status: 400,
@@ -155,139 +213,242 @@ export async function aiProductMapperHandler(
       };
     }
 
-    const ocrData = JSON.parse(document.doc_intel_structured_data);
-    const tables = ocrData.tables || [];
+    // Uploads parked before OCR have nothing to map
+    if (!document.doc_intel_structured_data) {
+      await pool.close();
+      return {
+        status: 400,
+        body: JSON.stringify({
+          error: 'Document has no OCR results - POST /api/resumeDocument to run OCR first',
+        }),
+      };
+    }
+
+    await pool.request().input('documentId', sql.UniqueIdentifier, documentId).query(`
+        UPDATE vvocr.document_processing_results
+        SET processing_status = 'mapping', updated_at = GETUTCDATE()
+        WHERE result_id = @documentId
+      `);
+
+    const ocrData: OcrData = JSON.parse(document.doc_intel_structured_data);
+    const { tables, grids } = prepareTables(ocrData);
+    const headings = ocrData.headings || [];
     const fullText = document.doc_intel_extracted_text || '';
 
     context.log(`Processing document: ${document.document_name}, Tables: ${tables.length}`);
 
-    // 2. Initialize OpenAI client
-    const openai = new OpenAI({
-      apiKey: AI_PROJECT_KEY,
-      baseURL: `${AI_PROJECT_ENDPOINT}/openai/deployments/gpt-4o`,
-      defaultQuery: { 'api-version': '2024-08-01-preview' },
-      defaultHeaders: { 'api-key': AI_PROJECT_KEY },
-    });
+    // 2. Group tables by header signature - each layout gets its own column mapping
+    const layouts = clusterTableLayouts(tables);
+    context.log(`Found ${layouts.length} table layout(s) across ${tables.length} tables`);
 
-    // 3. Analyze ALL table headers to find common column patterns
-    const allHeaders: Array<{ tableIdx: number; colIdx: number; header: string }> = [];
-    tables.forEach((table: Table, tableIdx: number) => {
-      const headerCells = table.cells.filter((c: TableCell) => c.kind === 'columnHeader');
-      headerCells.forEach((cell: TableCell) => {
-        allHeaders.push({
-          tableIdx,
-          colIdx: cell.columnIndex,
-          header: cell.content || '',
-        });
+    // 3. Resolve column mappings: reprocess overrides, then vendor template, LLM fallback
+    const startTime = Date.now();
+    const overrides: MappingOverrides | null = document.mapping_overrides
+      ? JSON.parse(document.mapping_overrides)
+      : null;
+    const manualMapping = hasManualMapping(overrides);
+    // Model/prompt/temperature overrides ask for a fresh LLM run, so skip the template
+    const llmOverridden =
+      overrides?.model !== undefined ||
+      overrides?.promptVariant !== undefined ||
+      overrides?.temperature !== undefined;
+    const promptVariant = overrides?.promptVariant || 'default';
+
+    const vendorParts = parseVendorName(document.vendor_name || '');
+    const template: MappingTemplate | null =
+      vendorParts && !manualMapping && !llmOverridden
+        ? await getMappingTemplate(pool, vendorParts.baseName)
+        : null;
+
+    // A template is only used when its headers are found in every layout
+    const templateMappings = template
+      ? layouts.map((layout) =>
+          matchTemplate(
+            template,
+            layout.tableIndexes.map((idx) => tables[idx])
+          )
+        )
+      : [];
+    const templateApplies =
+      template !== null &&
+      layouts.length > 0 &&
+      templateMappings.every((mapping) => mapping !== null);
+    const mappingSource = manualMapping ? 'manual' : templateApplies ? 'template' : 'llm';
+
+    let detectedVendor: string | undefined;
+    let layoutMappings: ColumnMapping[];
+    let headerMappingPrompt: string | null = null;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let cachedPromptTokens = 0;
+    let llm: LlmProvider | null = null;
+
+    if (manualMapping) {
+      detectedVendor = document.vendor_name;
+      layoutMappings = resolveLayoutMappings(overrides!, layouts.length);
+      context.log(`Using column mapping supplied with the reprocess, skipping LLM`);
+    } else if (templateApplies) {
+      detectedVendor = document.vendor_name;
+      layoutMappings = templateMappings as ColumnMapping[];
+      await recordTemplateUse(pool, vendorParts!.baseName);
+      context.log(`Using mapping template for ${vendorParts!.baseName}, skipping LLM`);
+    } else {
+      if (template) {
+        context.log(`Mapping template for ${vendorParts!.baseName} did not match headers`);
+      }
+
+      // Provider selected by LLM_PROVIDER (see utils/llmProvider.ts)
+      llm = createLlmProvider({ model: overrides?.model });
+
+      // Build column mapping prompt (required schema + optional pricing/ordering fields)
+      context.log(`Mapping with ${llm.name}/${llm.model}, prompt variant '${promptVariant}'`);
+      headerMappingPrompt = buildColumnMappingPrompt(promptVariant, layouts, fullText);
+      const maxTokens = mappingMaxTokens(layouts.length);
+
+      // Don't call the LLM if it could push spend over a budget cap (~4 chars per prompt
+      // token, output at its max)
+      const estimatedCost = calculateLlmCost(llm.pricing, {
+        promptTokens: Math.ceil(headerMappingPrompt.length / 4),
+        completionTokens: maxTokens,
       });
-    });
+      const budget = await checkBudget(pool, document.vendor_name || '', estimatedCost, context);
+      if (!budget.allowed) {
+        await pool
+          .request()
+          .input('documentId', sql.UniqueIdentifier, documentId)
+          .input('error', sql.NVarChar, budget.reason).query(`
+            UPDATE vvocr.document_processing_results 
+            SET 
+                processing_status = 'budget_blocked',
+                error_message = @error,
+                updated_at = GETUTCDATE()
+            WHERE result_id = @documentId
+          `);
+        await pool.close();
+        return {
+          status: 402,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+          body: JSON.stringify({
+            error: budget.reason,
+            documentId,
+            processingStatus: 'budget_blocked',
+            budget: budget.blockedBy,
+          }),
+        };
+      }
 
-    context.log(`Found ${allHeaders.length} header cells across ${tables.length} tables`);
-
-    // Build column mapping prompt (minimal required schema)
-    const headerMappingPrompt = `You are analyzing product catalog tables. Extract products with the following MINIMAL REQUIRED SCHEMA:
-- name (product name/description) - REQUIRED
-- SKU (item code/product code) - REQUIRED  
-- price (MSRP/cost) - REQUIRED
-- unit (dimensions/size/packaging) - OPTIONAL
-- description (additional details) - OPTIONAL
-
-Here are ALL the column headers found:
-${allHeaders.map((h) => `Table ${h.tableIdx}, Column ${h.colIdx}: "${h.header}"`).join('\n')}
-
-These tables have a CONSISTENT structure. Identify the column pattern:
-- Which column index is SKU? (look for "SKU", "Item Code", "Item #", etc.)
-- Which column index is Product Name? (look for product descriptions, NOT category headers)
-- Which column index is Price? (look for "MSRP", "Price", "Cost", "List Price", etc.)
-- Which column index is Unit/Dimensions? (look for "Dimensions", "Size", "Unit", "Pack", etc.)
-- Which column index is Description? (look for additional product details)
-
-IMPORTANT: 
-- Category headers (e.g., "QUILTED HAMMOCKS") are NOT column headers for product names
-- The actual product name is in the first data column with descriptive text
-- Ignore header-only rows or separator rows
-
-Return JSON:
-{
-  "vendor": "detected vendor name",
-  "columnMapping": {
-    "sku": column_index_number or null,
-    "name": column_index_number,
-    "price": column_index_number or null,
-    "unit": column_index_number or null,
-    "description": column_index_number or null
-  }
-}
+      const mappingResponse = await llm.chatJson({
+        prompt: headerMappingPrompt,
+        maxTokens,
+        temperature: overrides?.temperature ?? 0,
+      });
 
-Context: ${fullText.substring(0, 2000)}`;
+      const mappingResult = mappingResponse.json;
+      detectedVendor = mappingResult.vendor as string | undefined;
+      // Multi-price-column detection: pick up cost/MAP/MSRP columns the LLM left unmapped
+      layoutMappings = mappingsFromLlmResponse(mappingResult, layouts);
+      promptTokens = mappingResponse.usage.promptTokens;
+      completionTokens = mappingResponse.usage.completionTokens;
+      cachedPromptTokens = mappingResponse.usage.cachedPromptTokens || 0;
+    }
 
-    const startTime = Date.now();
+    layouts.forEach((layout) => {
+      context.log(
+        `Layout ${layout.layoutId} (${mappingSource}, tables ${layout.tableIndexes.join(', ')}): ${JSON.stringify(layoutMappings[layout.layoutId])}`
+      );
+    });
 
-    const mappingResponse = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: headerMappingPrompt }],
-      response_format: { type: 'json_object' },
-      max_tokens: 500,
-      temperature: 0,
+    // 4. Extract products using each table's layout mapping
+    const {
+      products,
+      rejectedRows,
+      sectionRows,
+      rowSections,
+      invalidUpcCount,
+      tableLayoutIds,
+      layoutProductCounts,
+      layoutVariantColumns,
+    } = extractProducts(tables, layouts, layoutMappings, {
+      headings,
+      template: templateApplies ? template : null,
     });
 
-    const mappingResult = JSON.parse(mappingResponse.choices[0].message.content || '{}');
-    context.log(`Column mapping: ${JSON.stringify(mappingResult.columnMapping)}`);
-
-    // 4. Extract products using column index mapping
-    const products: Array<{
-      name: string;
-      sku: string;
-      price: number;
-      unit?: string;
-      description?: string;
-    }> = [];
-
-    const colMap = mappingResult.columnMapping || {};
-
-    for (const table of tables) {
-      const contentCells = table.cells.filter((c: TableCell) => c.kind === 'content');
-      if (contentCells.length === 0) continue;
-
-      const rowCount = Math.max(...contentCells.map((c: TableCell) => c.rowIndex)) + 1;
-
-      for (let rowIdx = 1; rowIdx < rowCount; rowIdx++) {
-        const rowCells = contentCells.filter((c: TableCell) => c.rowIndex === rowIdx);
-
-        const sku = rowCells.find((c: TableCell) => c.columnIndex === colMap.sku)?.content?.trim();
-        const name = rowCells
-          .find((c: TableCell) => c.columnIndex === colMap.name)
-          ?.content?.trim();
-        const priceStr = rowCells
-          .find((c: TableCell) => c.columnIndex === colMap.price)
-          ?.content?.trim();
-        const unit = rowCells
-          .find((c: TableCell) => c.columnIndex === colMap.unit)
-          ?.content?.trim();
-        const description = rowCells
-          .find((c: TableCell) => c.columnIndex === colMap.description)
-          ?.content?.trim();
-
-        // Validate required fields
-        if (sku && name) {
-          // Parse price - remove currency symbols, commas
-          const priceMatch = priceStr?.match(/[\d,]+\.?\d*/);
-          const price = priceMatch ? parseFloat(priceMatch[0].replace(/,/g, '')) : 0;
-
-          const product: Product = {
-            name,
-            sku,
-            price,
-          };
-
-          if (unit) product.unit = unit;
-          if (description) product.description = description;
-
-          products.push(product);
+    // 4b. Optional LLM fallback for rows the column mapping could not parse
+    const fallbackEnabled = isFallbackEnabled();
+    const fallbackPrompts: string[] = [];
+    let fallbackProductCount = 0;
+    let fallbackFailedChunks = 0;
+    let fallbackSkippedReason: string | null = null;
+
+    if (fallbackEnabled) {
+      // Spreadsheets have no text outside their tables besides title rows
+      const textLines = isSpreadsheetFile(document.document_name)
+        ? []
+        : collectNonTableText(fullText, tables);
+      const chunks = buildFallbackChunks(rejectedRows, textLines);
+      if (chunks.length > 0) {
+        llm = llm || createLlmProvider({ model: overrides?.model });
+        const prompts = chunks.map(buildFallbackPrompt);
+        const estimatedCost = calculateLlmCost(llm.pricing, {
+          promptTokens: Math.ceil(prompts.join('').length / 4),
+          completionTokens: prompts.length * FALLBACK_MAX_TOKENS,
+        });
+        const budget = await checkBudget(pool, document.vendor_name || '', estimatedCost, context);
+
+        if (!budget.allowed) {
+          fallbackSkippedReason = budget.reason;
+          context.warn(`Skipping LLM fallback: ${budget.reason}`);
+        } else {
+          const knownSkus = new Set(products.map((p) => p.sku));
+          for (const prompt of prompts) {
+            try {
+              const response = await llm.chatJson({
+                prompt,
+                maxTokens: FALLBACK_MAX_TOKENS,
+                temperature: 0,
+              });
+              promptTokens += response.usage.promptTokens;
+              completionTokens += response.usage.completionTokens;
+              cachedPromptTokens += response.usage.cachedPromptTokens || 0;
+              fallbackPrompts.push(prompt);
+
+              parseFallbackProducts(response.json, (tableIdx, rowIdx) =>
+                tables[tableIdx] ? buildRowSource(tables[tableIdx], tableIdx, rowIdx) : undefined
+              ).forEach((product) => {
+                if (knownSkus.has(product.sku)) return;
+                knownSkus.add(product.sku);
+                const rowSection =
+                  product.source &&
+                  rowSections.get(`${product.source.tableIndex}:${product.source.rowIndex}`);
+                if (!product.category && rowSection) Object.assign(product, rowSection);
+                products.push(product);
+                fallbackProductCount++;
+              });
+            } catch (fallbackError: unknown) {
+              fallbackFailedChunks++;
+              const message =
+                fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
+              context.warn(`⚠️ LLM fallback chunk failed: ${message}`);
+            }
+          }
+          context.log(
+            `LLM fallback: ${fallbackProductCount} products from ${rejectedRows.length} rejected rows in ${chunks.length} chunk(s)`
+          );
         }
       }
     }
 
+    // Dominant layout (most tables) provides the document-level columnMapping/headers
+    const dominantLayout = layouts.reduce<TableLayout | null>(
+      (best, layout) =>
+        !best || layout.tableIndexes.length > best.tableIndexes.length ? layout : best,
+      null
+    );
+    const columnMapping = dominantLayout ? layoutMappings[dominantLayout.layoutId] : {};
+
     context.log(`✅ Extracted ${products.length} products from ${tables.length} tables`);
 
     // 5. Calculate data quality and confidence metrics
@@ -297,9 +458,21 @@ Context: ${fullText.substring(0, 2000)}`;
       productsWithSKU: 0,
       productsWithPrice: 0,
       productsWithValidPrice: 0,
+      productsWithLowConfidencePrice: 0,
       productsWithName: 0,
       productsWithUnit: 0,
       productsWithDescription: 0,
+      productsWithCost: 0,
+      productsWithMAP: 0,
+      productsWithMSRP: 0,
+      productsWithUPC: 0,
+      productsWithInvalidUPC: invalidUpcCount,
+      productsWithMOQ: 0,
+      productsWithCategory: 0,
+      productsWithPackSize: 0,
+      productsWithVariants: 0,
+      productsFromFallback: fallbackProductCount,
+      rejectedRows: rejectedRows.length,
       emptyFields: 0,
     };
 
@@ -310,8 +483,19 @@ Context: ${fullText.substring(0, 2000)}`;
         qualityMetrics.productsWithPrice++;
         if (p.price > 0 && p.price < 100000) qualityMetrics.productsWithValidPrice++;
       }
+      if (p.priceDetails && p.priceDetails.confidence < PRICE_REVIEW_CONFIDENCE) {
+        qualityMetrics.productsWithLowConfidencePrice++;
+      }
       if (p.unit && p.unit.trim()) qualityMetrics.productsWithUnit++;
       if (p.description && p.description.trim()) qualityMetrics.productsWithDescription++;
+      if (p.cost !== undefined) qualityMetrics.productsWithCost++;
+      if (p.map !== undefined) qualityMetrics.productsWithMAP++;
+      if (p.msrp !== undefined) qualityMetrics.productsWithMSRP++;
+      if (p.upc) qualityMetrics.productsWithUPC++;
+      if (p.moq !== undefined) qualityMetrics.productsWithMOQ++;
+      if (p.category) qualityMetrics.productsWithCategory++;
+      if (p.packSize) qualityMetrics.productsWithPackSize++;
+      if (p.variants) qualityMetrics.productsWithVariants++;
 
       // Count empty/missing fields
       if (!p.sku || !p.sku.trim()) qualityMetrics.emptyFields++;
@@ -337,13 +521,13 @@ Context: ${fullText.substring(0, 2000)}`;
       products.length > 0 ? (qualityMetrics.productsWithName / products.length) * 30 : 0;
     confidenceScore = Math.min(100, skuScore + priceScore + nameScore);
 
-    // 6. Calculate costs
-    const promptTokens = mappingResponse.usage?.prompt_tokens || 0;
-    const completionTokens = mappingResponse.usage?.completion_tokens || 0;
+    // 6. Calculate costs (zero when a template was applied)
     const totalTokens = promptTokens + completionTokens;
 
-    // GPT-4o pricing: $2.50/1M input, $10.00/1M output
-    const aiCost = (promptTokens * 0.0025 + completionTokens * 0.01) / 1000;
+    // Priced per model from the pricing catalog (cached prompt tokens at the cached rate)
+    const aiCost = llm
+      ? calculateLlmCost(llm.pricing, { promptTokens, completionTokens, cachedPromptTokens })
+      : 0;
 
     const processingDuration = Date.now() - startTime;
 
@@ -360,26 +544,84 @@ Context: ${fullText.substring(0, 2000)}`;
     const mappingResultJson = {
       documentId,
       timestamp: new Date().toISOString(),
-      vendor: mappingResult.vendor || document.vendor_name || 'Unknown',
+      vendor: detectedVendor || document.vendor_name || 'Unknown',
       products,
       productCount: products.length,
-      columnMapping: mappingResult.columnMapping,
+      columnMapping,
+      columnHeaders: dominantLayout // Saved as the vendor template on confirm
+        ? buildHeaderMapping(
+            dominantLayout.tableIndexes.map((idx) => tables[idx]),
+            columnMapping
+          )
+        : {},
+      layouts: layouts.map((layout) => ({
+        layoutId: layout.layoutId,
+        headers: layout.headers.map((h) => h.header),
+        tableIndexes: layout.tableIndexes,
+        columnMapping: layoutMappings[layout.layoutId],
+        productCount: layoutProductCounts[layout.layoutId],
+      })),
+      tableMappings: tables.map((_: Table, tableIdx: number) => ({
+        tableIndex: tableIdx,
+        layoutId: tableLayoutIds[tableIdx],
+        columnMapping: layoutMappings[tableLayoutIds[tableIdx]],
+      })),
+      mappingSource,
+      model: llm ? llm.model : null,
+      llmProvider: llm ? llm.name : null,
+      promptVariant: mappingSource === 'llm' ? promptVariant : null,
+      overrides,
+      gridReconstruction: grids
+        .map((grid, tableIdx) => ({ tableIndex: tableIdx, ...grid.report }))
+        .filter(
+          (report) =>
+            report.expandedCells > 0 || report.headerRows > 1 || report.joinedRows.length > 0
+        ),
+      sectionRows,
+      variantMatrices: layouts
+        .map((layout) => ({
+          layoutId: layout.layoutId,
+          variantColumns: layoutVariantColumns[layout.layoutId],
+        }))
+        .filter((matrix) => matrix.variantColumns.length > 0),
+      rejectedRows,
+      fallback: {
+        enabled: fallbackEnabled,
+        chunks: fallbackPrompts.length,
+        failedChunks: fallbackFailedChunks,
+        productCount: fallbackProductCount,
+        skippedReason: fallbackSkippedReason,
+      },
       qualityMetrics: {
         completenessScore: Math.round(completenessScore * 100) / 100, // Already 0-100%, just round to 2 decimals
         confidenceScore: Math.round(confidenceScore * 100) / 100, // Already 0-100%, just round to 2 decimals
         productsWithSKU: qualityMetrics.productsWithSKU,
         productsWithPrice: qualityMetrics.productsWithPrice,
         productsWithValidPrice: qualityMetrics.productsWithValidPrice,
+        productsWithLowConfidencePrice: qualityMetrics.productsWithLowConfidencePrice,
         productsWithName: qualityMetrics.productsWithName,
         productsWithUnit: qualityMetrics.productsWithUnit,
         productsWithDescription: qualityMetrics.productsWithDescription,
+        productsWithCost: qualityMetrics.productsWithCost,
+        productsWithMAP: qualityMetrics.productsWithMAP,
+        productsWithMSRP: qualityMetrics.productsWithMSRP,
+        productsWithUPC: qualityMetrics.productsWithUPC,
+        productsWithInvalidUPC: qualityMetrics.productsWithInvalidUPC,
+        productsWithMOQ: qualityMetrics.productsWithMOQ,
+        productsWithCategory: qualityMetrics.productsWithCategory,
+        productsWithPackSize: qualityMetrics.productsWithPackSize,
+        productsWithVariants: qualityMetrics.productsWithVariants,
+        productsFromFallback: qualityMetrics.productsFromFallback,
+        rejectedRows: qualityMetrics.rejectedRows,
         emptyFields: qualityMetrics.emptyFields,
       },
       usage: {
         promptTokens,
         completionTokens,
+        cachedPromptTokens,
         totalTokens,
         cost: aiCost,
+        pricingVersion: PRICING_CATALOG_VERSION,
       },
     };
 
@@ -390,15 +632,25 @@ Context: ${fullText.substring(0, 2000)}`;
       Buffer.from(JSON.stringify(mappingResultJson, null, 2)).length
     );
 
-    // Store prompt
-    const promptBlobPath = `prompts/${documentId}-mapping-v${version}.txt`;
-    const promptBlobClient = bronzeContainer.getBlockBlobClient(promptBlobPath);
-    await promptBlobClient.upload(
-      Buffer.from(headerMappingPrompt),
-      Buffer.from(headerMappingPrompt).length
-    );
+    // Store prompt (no prompt when a template was applied)
+    if (headerMappingPrompt) {
+      const promptBlobPath = `prompts/${documentId}-mapping-v${version}.txt`;
+      const promptBlobClient = bronzeContainer.getBlockBlobClient(promptBlobPath);
+      await promptBlobClient.upload(
+        Buffer.from(headerMappingPrompt),
+        Buffer.from(headerMappingPrompt).length
+      );
+    }
+
+    if (fallbackPrompts.length > 0) {
+      const fallbackPrompt = fallbackPrompts.join('\n\n---\n\n');
+      const fallbackBlobPath = `prompts/${documentId}-fallback-v${version}.txt`;
+      await bronzeContainer
+        .getBlockBlobClient(fallbackBlobPath)
+        .upload(Buffer.from(fallbackPrompt), Buffer.from(fallbackPrompt).length);
+    }
 
-    context.log(`Bronze-layer storage complete: ${mappingBlobPath}, ${promptBlobPath}`);
+    context.log(`Bronze-layer storage complete: ${mappingBlobPath}`);
 
     // 7. Update database with AI mapping results and confidence scores
     await pool
@@ -406,6 +658,8 @@ Context: ${fullText.substring(0, 2000)}`;
       .input('documentId', sql.UniqueIdentifier, documentId)
       .input('mappingResult', sql.NVarChar, JSON.stringify(mappingResultJson))
       .input('promptUsed', sql.NVarChar, headerMappingPrompt)
+      .input('modelUsed', sql.NVarChar, llm ? llm.model : mappingSource)
+      .input('mappingSource', sql.NVarChar, mappingSource)
       .input('promptTokens', sql.Int, promptTokens)
       .input('completionTokens', sql.Int, completionTokens)
       .input('totalTokens', sql.Int, totalTokens)
@@ -417,12 +671,15 @@ Context: ${fullText.substring(0, 2000)}`;
         UPDATE vvocr.document_processing_results 
         SET 
             ai_mapping_result = @mappingResult,
-            ai_model_used = 'gpt-4o',
+            ai_model_used = @modelUsed,
+            mapping_source = @mappingSource,
             ai_prompt_used = @promptUsed,
             ai_prompt_tokens = @promptTokens,
             ai_completion_tokens = @completionTokens,
             ai_total_tokens = @totalTokens,
             ai_model_cost_usd = @aiCost,
+            total_cost_usd = CASE WHEN parent_document_id IS NULL
+              THEN ISNULL(doc_intel_cost_usd, 0) ELSE 0 END + @aiCost,
             ai_completeness_score = @completenessScore,
             ai_confidence_score = @confidenceScore,
             product_count = @productCount,
@@ -446,8 +703,13 @@ Context: ${fullText.substring(0, 2000)}`;
       body: JSON.stringify({
         message: 'AI product mapping completed successfully',
         documentId,
-        vendor: mappingResult.vendor || document.vendor_name,
+        vendor: detectedVendor || document.vendor_name,
         productCount: products.length,
+        rejectedRowCount: rejectedRows.length,
+        fallbackProductCount,
+        mappingSource,
+        model: llm ? llm.model : null,
+        llmProvider: llm ? llm.name : null,
         processingDuration,
         usage: {
           promptTokens,
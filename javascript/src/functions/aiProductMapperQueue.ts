@@ -12,11 +12,14 @@ import { aiProductMapperHandler } from './aiProductMapper.js';
  * - Better scalability for high-volume processing
  *
  * WORKFLOW:
- * 1. OCR completes → documentProcessor.ts sends message to queue
+ * 1. OCR completes (documentProcessor.ts) or a new version is created (reprocessMapping)
+ *    → message sent via utils/mappingQueue.ts
  * 2. Queue trigger fires → this function processes message
  * 3. Calls shared aiProductMapperHandler logic
  * 4. On success: message deleted from queue
  * 5. On failure: message returned to queue for retry (up to 5 times by default)
+ * 6. Over budget (402): document parked in 'budget_blocked', message deleted - retrying
+ *    would only hit the same cap (see utils/budget.ts)
  *
  * MESSAGE FORMAT:
  * {
@@ -51,6 +54,11 @@ export async function aiProductMapperQueueTrigger(
     // Call shared handler logic
     const response = await aiProductMapperHandler(mockRequest, context);
 
+    if (response.status === 402) {
+      context.warn(`🛑 AI mapping for document ${documentId} parked: ${response.body}`);
+      return;
+    }
+
     if (response.status !== 200) {
       throw new Error(`AI mapping failed with status ${response.status}: ${response.body}`);
     }
@@ -1,5 +1,6 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { BlobServiceClient } from '@azure/storage-blob';
+import { randomUUID } from 'crypto';
 import {
   checkDailyUploadLimit,
   checkIpRateLimit,
@@ -11,7 +12,22 @@ import {
 } from '../utils/usageTracker.js';
 
 import sql from 'mssql';
-import { getVendorFileName, validateVendorName } from '../utils/validations.js';
+import { validateCsvTemplate } from '../utils/csvTemplate.js';
+import { isUuid, jsonResponse } from '../utils/http.js';
+import {
+  FIELD_TRANSFORMS,
+  FieldTransform,
+  MappingTemplate,
+  saveMappingTemplate,
+  TEMPLATE_FIELDS,
+  TemplateField,
+} from '../utils/mappingTemplates.js';
+import { parseMappingOverrides } from '../utils/mappingOverrides.js';
+import { enqueueAiMapping, TERMINAL_STATUSES } from '../utils/mappingQueue.js';
+import { exportProducts, ExportSummary } from '../utils/productExport.js';
+import { diffColumnMappings, diffProductVersions } from '../utils/productDiff.js';
+import { Product } from '../utils/productSchema.js';
+import { getVendorFileName, parseVendorName, validateVendorName } from '../utils/validations.js';
 
 // Inline vendor path helper
 function getVendorPath(vendorName: string): string {
@@ -25,9 +41,36 @@ initializeUsageTable().catch((err) => console.error('Failed to init usage table:
 const _STORAGE_ACCOUNT_NAME = process.env.STORAGE_ACCOUNT_NAME;
 const STORAGE_CONTAINER_DOCUMENTS = process.env.STORAGE_CONTAINER_DOCUMENTS || 'uploads';
 const SQL_CONNECTION_STRING = process.env.SQL_CONNECTION_STRING;
+const BRONZE_LAYER_CONTAINER = 'bronze-layer';
+
+// Cap on validation errors returned to the client (large files can fail on every row)
+const MAX_CSV_ERRORS_RETURNED = 500;
+
+// Allowed file types for upload, mapped to the stored file extension.
+// Spreadsheets are parsed natively by processDocument (no Document Intelligence cost).
+const ALLOWED_FILE_TYPES: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-excel': 'xls',
+};
+
+/**
+ * Resolve the stored extension for an uploaded file.
+ * Falls back to the file name when the client sends a generic MIME type
+ * (e.g. curl uploads XLSX as application/octet-stream).
+ */
+function getUploadExtension(file: File): string | null {
+  if (ALLOWED_FILE_TYPES[file.type]) {
+    return ALLOWED_FILE_TYPES[file.type];
+  }
+
+  if (!file.type || file.type === 'application/octet-stream') {
+    const extension = file.name?.split('.').pop()?.toLowerCase() || '';
+    return Object.values(ALLOWED_FILE_TYPES).includes(extension) ? extension : null;
+  }
 
-// Allowed file types for upload (PDF only for production POC)
-const ALLOWED_FILE_TYPES = ['application/pdf'];
+  return null;
+}
 
 /**
  * Validate API key for demo mode protection
@@ -68,8 +111,8 @@ function validateFileSize(fileSize: number): boolean {
  * STEP-BY-STEP PROCESS:
  * 1. Extract file and vendorId from multipart form data
  * 2. Validate that both file and vendorId are present
- * 3. Validate file type against allowed types (PDF, images, Excel, CSV)
- * 4. Generate unique file path: {vendorId}/{uuid}-{filename}
+ * 3. Validate file type against allowed types (PDF, Excel XLSX/XLS)
+ * 4. Generate standardized file path: {vendorName}/{vendorName}.{pdf|xlsx|xls}
  * 5. Upload file buffer to Azure Blob Storage ("uploads" container)
  * 6. Create database record in vvocr.document_processing_results table
  *    - Status: 'pending' (waiting for blob trigger to process)
@@ -172,11 +215,12 @@ export async function uploadHandler(
       };
     }
     // Validate file type
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
+    const fileExtension = getUploadExtension(file);
+    if (!fileExtension) {
       return {
         status: 400,
         jsonBody: {
-          error: `Unsupported file type: ${file.type}. Only PDF files are allowed.`,
+          error: `Unsupported file type: ${file.type}. Only PDF and Excel (XLSX/XLS) files are allowed.`,
         },
       };
     }
@@ -192,8 +236,8 @@ export async function uploadHandler(
       };
     }
 
-    // Get standardized file name (e.g., BETTER_LIVING-11-25.pdf)
-    const standardFileName = getVendorFileName(vendorName);
+    // Get standardized file name (e.g., BETTER_LIVING_11_25.pdf or BLENKO_01_25.xlsx)
+    const standardFileName = getVendorFileName(vendorName, fileExtension);
     const fileBuffer = Buffer.from(await file.arrayBuffer());
     const filePath = `${getVendorPath(vendorName)}/${standardFileName}`;
 
@@ -319,6 +363,309 @@ app.http('upload', {
   },
 });
 
+/**
+ * CSV Template Upload Handler - HTTP POST endpoint for "Path A" manual CSV uploads
+ *
+ * Vendors that fill in our CSV template skip OCR and AI mapping entirely:
+ * the file is validated row-by-row and, if clean, stored as a completed result
+ * that confirmMapping can export like any AI-mapped document.
+ *
+ * STEP-BY-STEP PROCESS:
+ * 1. Extract file and vendorName from multipart form data
+ * 2. Validate vendor name format and CSV file type
+ * 3. Validate every row against the template rules (see utils/csvTemplate.ts)
+ *    - SKU pattern, decimal precision, MAP >= Cost, MSRP >= MAP, 12-14 digit UPC
+ *    - Any error rejects the whole file with row/column-level details
+ * 4. Enforce one document per vendor (same rule as /upload)
+ * 5. Store raw CSV + mapping JSON in bronze-layer (NOT the uploads container,
+ *    which would trigger OCR via the blob trigger)
+ * 6. Create document_processing_results record:
+ *    - processing_status = 'completed', ai_model_used = 'csv-template'
+ *    - ai_confidence_score = 100, ai_mapping_result in the mapper's shape
+ * 7. Return 201 Created with resultId and product count
+ *
+ * ERROR HANDLING:
+ * - 400 Bad Request: Missing file/vendorName, non-CSV file, or validation errors
+ * - 409 Conflict: Vendor already has a document
+ * - 500 Internal Server Error: Blob upload or database errors
+ */
+export async function uploadCsvTemplateHandler(
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  context.log(`Processing CSV template upload for ${req.url}`);
+
+  if (process.env.IS_DEMO_MODE === 'true') {
+    const apiKeyCheck = validateApiKey(req.headers.get('x-api-key'));
+    if (!apiKeyCheck.valid) {
+      context.warn(`API key validation failed: ${apiKeyCheck.error}`);
+      return {
+        status: 401,
+        jsonBody: {
+          error: apiKeyCheck.error,
+          message: 'This demo requires an API key. Contact the owner for access.',
+        },
+      };
+    }
+  }
+
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+    const vendorName = formData.get('vendorName') as string;
+
+    if (!file || !vendorName) {
+      return {
+        status: 400,
+        jsonBody: {
+          error: 'Missing file or vendor name in request',
+        },
+      };
+    }
+
+    const vendorValidation = validateVendorName(vendorName);
+    if (!vendorValidation.valid) {
+      return {
+        status: 400,
+        jsonBody: {
+          error: 'Invalid vendor name format',
+          message: vendorValidation.error,
+        },
+      };
+    }
+
+    const isCsv = file.type === 'text/csv' || file.name?.toLowerCase().endsWith('.csv');
+    if (!isCsv) {
+      return {
+        status: 400,
+        jsonBody: {
+          error: `Unsupported file type: ${file.type}. Only CSV files matching the template are allowed.`,
+        },
+      };
+    }
+
+    const fileBuffer = Buffer.from(await file.arrayBuffer());
+    const validation = validateCsvTemplate(fileBuffer.toString('utf-8'));
+
+    if (validation.errors.length > 0) {
+      context.log(
+        `CSV template validation failed for ${vendorName}: ${validation.errors.length} errors`
+      );
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+        jsonBody: {
+          error: 'CSV template validation failed',
+          rowCount: validation.rowCount,
+          errorCount: validation.errors.length,
+          errors: validation.errors.slice(0, MAX_CSV_ERRORS_RETURNED),
+          warnings: validation.warnings,
+        },
+      };
+    }
+
+    if (validation.products.length === 0) {
+      return {
+        status: 400,
+        jsonBody: { error: 'CSV template contains no product rows' },
+      };
+    }
+
+    // CHECK FOR DUPLICATE: One-to-one mapping enforcement (same rule as /upload)
+    const pool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
+    await pool.connect();
+
+    try {
+      const existingCheck = await pool.request().input('vendorName', sql.NVarChar, vendorName)
+        .query(`
+          SELECT result_id, document_name, processing_status
+          FROM vvocr.document_processing_results
+          WHERE vendor_name = @vendorName
+        `);
+
+      if (existingCheck.recordset.length > 0) {
+        await pool.close();
+        const existing = existingCheck.recordset[0];
+        return {
+          status: 409,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+          jsonBody: {
+            error: 'Vendor already exists',
+            message: `A document already exists for vendor ${vendorName}. Please delete the existing document first using DELETE /api/deleteVendor?vendorName=${vendorName}`,
+            existingDocument: {
+              resultId: existing.result_id,
+              documentName: existing.document_name,
+              status: existing.processing_status,
+            },
+          },
+        };
+      }
+
+      const documentId = randomUUID();
+      const standardFileName = getVendorFileName(vendorName, 'csv');
+      const products = validation.products;
+
+      // Same shape as aiProductMapper output so confirmMapping/results viewer work unchanged
+      const mappingResultJson = {
+        documentId,
+        timestamp: new Date().toISOString(),
+        vendor: vendorName,
+        mappingSource: 'csv_template',
+        products,
+        productCount: products.length,
+        columnMapping: validation.columnMapping,
+        qualityMetrics: {
+          completenessScore: 100,
+          confidenceScore: 100,
+          productsWithSKU: products.length,
+          productsWithPrice: products.length,
+          productsWithValidPrice: products.length,
+          productsWithName: products.length,
+          productsWithUnit: products.filter((p) => p.unit).length,
+          productsWithDescription: products.filter((p) => p.description).length,
+          emptyFields: 0,
+        },
+        warnings: validation.warnings,
+        usage: {
+          promptTokens: 0,
+          completionTokens: 0,
+          totalTokens: 0,
+          cost: 0,
+        },
+      };
+
+      // 1. Store raw CSV and mapping result in bronze-layer
+      const blobServiceClient = BlobServiceClient.fromConnectionString(
+        process.env.STORAGE_CONNECTION_STRING!
+      );
+      const bronzeContainer = blobServiceClient.getContainerClient(BRONZE_LAYER_CONTAINER);
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const rawBlobPath = `raw/${getVendorPath(vendorName)}/${timestamp}-${standardFileName}`;
+      await bronzeContainer.getBlockBlobClient(rawBlobPath).upload(fileBuffer, fileBuffer.length);
+
+      const mappingBuffer = Buffer.from(JSON.stringify(mappingResultJson, null, 2));
+      await bronzeContainer
+        .getBlockBlobClient(`ai-mapping/${documentId}-v0.json`)
+        .upload(mappingBuffer, mappingBuffer.length);
+
+      // 2. Register completed result in database
+      await pool
+        .request()
+        .input('resultId', sql.UniqueIdentifier, documentId)
+        .input('vendorName', sql.NVarChar, vendorName)
+        .input('documentName', sql.NVarChar, standardFileName)
+        .input('documentPath', sql.NVarChar, rawBlobPath)
+        .input('fileSize', sql.BigInt, fileBuffer.length)
+        .input('mappingResult', sql.NVarChar, JSON.stringify(mappingResultJson))
+        .input('productCount', sql.Int, products.length).query(`
+          INSERT INTO vvocr.document_processing_results (
+            result_id,
+            document_name,
+            document_path,
+            document_size_bytes,
+            document_type,
+            vendor_name,
+            processing_status,
+            processing_started_at,
+            processing_completed_at,
+            ai_model_used,
+            mapping_source,
+            ai_mapping_result,
+            ai_confidence_score,
+            ai_completeness_score,
+            doc_intel_cost_usd,
+            ai_model_cost_usd,
+            total_cost_usd,
+            product_count
+          )
+          VALUES (
+            @resultId,
+            @documentName,
+            @documentPath,
+            @fileSize,
+            'text/csv',
+            @vendorName,
+            'completed',
+            GETUTCDATE(),
+            GETUTCDATE(),
+            'csv-template',
+            'csv_template',
+            @mappingResult,
+            100,
+            100,
+            0,
+            0,
+            0,
+            @productCount
+          )
+        `);
+
+      await pool.close();
+
+      context.log(`✅ CSV template accepted for ${vendorName}: ${products.length} products`);
+
+      return {
+        status: 201,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, x-api-key',
+        },
+        jsonBody: {
+          message: 'CSV template uploaded successfully',
+          resultId: documentId,
+          documentName: standardFileName,
+          vendorName,
+          productCount: products.length,
+          warnings: validation.warnings,
+          status: 'completed',
+          nextStep: 'Review and export with POST /api/confirmMapping',
+        },
+      };
+    } catch (error: unknown) {
+      await pool.close();
+      throw error;
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    context.error(`Error processing CSV template upload: ${errorMessage}`);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      jsonBody: { error: errorMessage },
+    };
+  }
+}
+
+app.http('uploadCsvTemplate', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, x-api-key',
+        },
+      };
+    }
+    return uploadCsvTemplateHandler(request, context);
+  },
+});
+
 /**
  * Delete Vendor Handler - HTTP DELETE endpoint for vendor cleanup
  *
@@ -457,16 +804,24 @@ app.http('deleteVendor', {
  * Reprocess Mapping Handler - HTTP POST endpoint to rerun AI mapping
  *
  * IMMUTABLE RECORD STRATEGY:
- * 1. Extract document_id from request body
- * 2. Query existing record to get OCR data and reprocessing_count
+ * 1. Extract document_id and optional overrides from request body
+ *    (see utils/mappingOverrides.ts - 400 on invalid values):
+ *    - model: deployment name, promptVariant: named prompt, temperature: 0-2
+ *    - columnMapping / layouts: explicit column mapping, skips the LLM entirely
+ * 2. Query existing record to get OCR data and reprocessing_count (400 when it has no OCR
+ *    results yet - uploads parked before OCR are resumed with POST /api/resumeDocument)
  * 3. Create NEW record with:
  *    - Fresh result_id (new UUID)
  *    - parent_document_id = original document_id
- *    - Copied OCR data (doc_intel_* fields)
+ *    - Copied OCR data (doc_intel_* fields); total_cost_usd starts at 0 because the
+ *      OCR cost was paid by the original (only this version's AI cost is added)
  *    - reprocessing_count = parent's count + 1
- *    - status = 'ocr_complete' (ready for AI mapping)
- * 4. Queue AI mapping for the NEW record
- * 5. Return new document_id
+ *    - mapping_overrides = overrides JSON (honoured by aiProductMapper)
+ *    - status = 'mapping_queued'
+ * 4. Queue AI mapping for the NEW record (ai-mapping-queue → aiProductMapperQueue)
+ *    - If queueing fails the record is set back to 'ocr_complete' (queued: false) so it
+ *      can be mapped by POST /api/aiProductMapper instead
+ * 5. Return new document_id and a statusUrl to poll (GET /api/processingStatus)
  *
  * BRONZE-LAYER BENEFITS:
  * - Original record never modified (immutable)
@@ -482,7 +837,7 @@ export async function reprocessMappingHandler(
   context.log(`Reprocess mapping request received`);
 
   try {
-    const body = (await req.json()) as { documentId?: string };
+    const body = (await req.json()) as { documentId?: string } & Record<string, unknown>;
     const documentId = body.documentId;
 
     if (!documentId) {
@@ -492,6 +847,14 @@ export async function reprocessMappingHandler(
       };
     }
 
+    const { overrides, error: overridesError } = parseMappingOverrides(body);
+    if (overridesError) {
+      return {
+        status: 400,
+        body: JSON.stringify({ error: `Invalid mapping overrides: ${overridesError}` }),
+      };
+    }
+
     const pool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
     await pool.connect();
 
@@ -528,6 +891,14 @@ export async function reprocessMappingHandler(
 
     const existing = existingResult.recordset[0];
 
+    // An upload parked before OCR has nothing to remap - a version of it could never map
+    if (!existing.doc_intel_structured_data) {
+      await pool.close();
+      return jsonResponse(400, {
+        error: 'Document has no OCR results - POST /api/resumeDocument to run OCR before remapping',
+      });
+    }
+
     // Find the root parent (creates a tree structure where all versions point to the original)
     // If this document has a parent, that's the root. Otherwise, this document is the root.
     const rootParentId = existing.parent_document_id || documentId;
@@ -549,7 +920,8 @@ export async function reprocessMappingHandler(
       .input('docIntelCost', sql.Decimal(10, 6), existing.doc_intel_cost_usd)
       .input('docIntelPrompt', sql.NVarChar, existing.doc_intel_prompt_used)
       .input('parentDocumentId', sql.UniqueIdentifier, rootParentId)
-      .input('reprocessingCount', sql.Int, newVersion).query(`
+      .input('reprocessingCount', sql.Int, newVersion)
+      .input('mappingOverrides', sql.NVarChar, overrides ? JSON.stringify(overrides) : null).query(`
         INSERT INTO vvocr.document_processing_results (
           document_name,
           document_path,
@@ -565,6 +937,8 @@ export async function reprocessMappingHandler(
           doc_intel_prompt_used,
           parent_document_id,
           reprocessing_count,
+          mapping_overrides,
+          total_cost_usd,
           processing_status,
           export_status
         )
@@ -584,19 +958,36 @@ export async function reprocessMappingHandler(
           @docIntelPrompt,
           @parentDocumentId,
           @reprocessingCount,
-          'ocr_complete',
+          @mappingOverrides,
+          0,
+          'mapping_queued',
           'pending'
         )
       `);
 
     const newDocumentId = newRecordResult.recordset[0].result_id;
 
-    await pool.close();
-
     context.log(
       `✅ Created new version record: ${newDocumentId} (v${newVersion} of ${rootParentId})`
     );
 
+    let queueMessageId: string | null = null;
+    try {
+      queueMessageId = await enqueueAiMapping(newDocumentId);
+      context.log(`📤 AI mapping queued for ${newDocumentId}`);
+    } catch (queueError: unknown) {
+      const queueErrorMessage =
+        queueError instanceof Error ? queueError.message : String(queueError);
+      context.warn(`⚠️ Failed to queue AI mapping: ${queueErrorMessage}`);
+      await pool.request().input('documentId', sql.UniqueIdentifier, newDocumentId).query(`
+          UPDATE vvocr.document_processing_results
+          SET processing_status = 'ocr_complete', updated_at = GETUTCDATE()
+          WHERE result_id = @documentId
+        `);
+    }
+
+    await pool.close();
+
     return {
       status: 200,
       headers: {
@@ -609,7 +1000,14 @@ export async function reprocessMappingHandler(
         newResultId: newDocumentId,
         version: newVersion,
         parentDocumentId: rootParentId,
-        nextStep: 'AI mapping will be queued automatically',
+        overrides,
+        queued: queueMessageId !== null,
+        queueMessageId,
+        processingStatus: queueMessageId ? 'mapping_queued' : 'ocr_complete',
+        statusUrl: `/api/processingStatus?documentId=${newDocumentId}`,
+        nextStep: queueMessageId
+          ? 'AI mapping queued - poll statusUrl until processingStatus is completed or failed'
+          : 'Queueing failed - POST /api/aiProductMapper to run AI mapping manually',
       }),
     };
   } catch (error: unknown) {
@@ -645,34 +1043,30 @@ app.http('reprocessMapping', {
 });
 
 /**
- * Confirm Mapping Handler - HTTP POST endpoint to export products to production
+ * Processing Status Handler - HTTP GET endpoint for tracking a queued mapping run
  *
  * PROCESS:
- * 1. Extract document_id from request body
- * 2. Retrieve ai_mapping_result from document_processing_results
- * 3. Insert products into vvocr.vendor_products (production table)
- * 4. Update export_status to 'confirmed'
- * 5. Return confirmation with product count
+ * 1. Extract documentId (the newResultId returned by reprocessMapping) from query parameters
+ * 2. Query the record's status, version and progress timestamps
+ * 3. Return the status with isTerminal = true once nothing further will happen
+ *    (mapping_queued → mapping → completed | failed | budget_blocked, see utils/mappingQueue.ts)
  *
  * USE CASE:
- * - Manual approval after reviewing AI-extracted products
- * - Exports validated data to production catalog
- * - Enables bronze-to-silver data promotion workflow
+ * - Poll after reprocessMapping instead of calling /api/aiProductMapper by hand
  */
-export async function confirmMappingHandler(
+export async function processingStatusHandler(
   req: HttpRequest,
   context: InvocationContext
 ): Promise<HttpResponseInit> {
-  context.log(`Confirm mapping request received`);
+  context.log(`Processing status request received`);
 
   try {
-    const body = (await req.json()) as { documentId?: string };
-    const documentId = body.documentId;
+    const documentId = req.query.get('documentId');
 
     if (!documentId) {
       return {
         status: 400,
-        body: JSON.stringify({ error: 'Missing documentId in request body' }),
+        body: JSON.stringify({ error: 'Missing documentId query parameter' }),
       };
     }
 
@@ -680,62 +1074,266 @@ export async function confirmMappingHandler(
     await pool.connect();
 
     try {
-      // 1. Retrieve document and mapping result
-      const docResult = await pool.request().input('documentId', sql.UniqueIdentifier, documentId)
+      const result = await pool.request().input('documentId', sql.UniqueIdentifier, documentId)
         .query(`
           SELECT 
             result_id,
-            document_name,
-            vendor_name,
-            ai_mapping_result,
+            parent_document_id,
+            reprocessing_count,
             processing_status,
-            export_status
-          FROM vvocr.document_processing_results 
+            export_status,
+            product_count,
+            mapping_source,
+            error_message,
+            created_at,
+            processing_completed_at,
+            updated_at
+          FROM vvocr.document_processing_results
           WHERE result_id = @documentId
         `);
 
-      if (docResult.recordset.length === 0) {
-        await pool.close();
+      await pool.close();
+
+      if (result.recordset.length === 0) {
         return {
           status: 404,
           body: JSON.stringify({ error: 'Document not found' }),
         };
       }
 
-      const document = docResult.recordset[0];
-
-      if (document.processing_status !== 'completed') {
-        await pool.close();
-        return {
-          status: 400,
-          body: JSON.stringify({
-            error: `Document status is '${document.processing_status}'. Must be 'completed' to confirm.`,
-          }),
-        };
-      }
-
-      // Check if already exported (idempotency)
-      if (document.export_status === 'confirmed') {
-        await pool.close();
-        context.log(`ℹ️ Document ${documentId} already confirmed, skipping re-export`);
-
-        const mappingData = JSON.parse(document.ai_mapping_result || '{}');
-        const productsCount = (mappingData.products || []).length;
+      const doc = result.recordset[0];
 
-        return {
-          status: 200,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-          body: JSON.stringify({
-            message: 'Products already exported (idempotent operation)',
-            documentId,
-            vendor: document.vendor_name,
-            productsExported: productsCount,
-          }),
-        };
-      }
+      return {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+        body: JSON.stringify({
+          documentId: doc.result_id,
+          parentDocumentId: doc.parent_document_id || null,
+          version: doc.reprocessing_count,
+          processingStatus: doc.processing_status,
+          isTerminal: TERMINAL_STATUSES.includes(doc.processing_status),
+          exportStatus: doc.export_status,
+          productCount: doc.product_count,
+          mappingSource: doc.mapping_source,
+          error: ['failed', 'budget_blocked'].includes(doc.processing_status)
+            ? doc.error_message
+            : null,
+          createdAt: doc.created_at,
+          completedAt: doc.processing_completed_at,
+          updatedAt: doc.updated_at,
+        }),
+      };
+    } catch (error: unknown) {
+      await pool.close();
+      throw error;
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    context.error(`Error getting processing status: ${errorMessage}`);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({ error: errorMessage }),
+    };
+  }
+}
+
+app.http('processingStatus', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        },
+      };
+    }
+    return processingStatusHandler(request, context);
+  },
+});
+
+/**
+ * Response for a confirm on a document that has already been exported
+ */
+function alreadyExportedResponse(
+  documentId: string,
+  vendorName: string,
+  productsCount: number
+): HttpResponseInit {
+  return {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify({
+      message: 'Products already exported (idempotent operation)',
+      documentId,
+      vendor: vendorName,
+      productsExported: productsCount,
+    }),
+  };
+}
+
+/**
+ * Confirm Mapping Handler - HTTP POST endpoint to export products to production
+ *
+ * PROCESS:
+ * 1. Extract document_id from request body
+ * 2. Retrieve ai_mapping_result from document_processing_results
+ *    - 409 if another version of the chain is pinned, or (with no pin) another
+ *      version has already been exported - pin this version to promote it
+ * 3. In one SQL transaction (all-or-nothing):
+ *    - Re-check export_status under UPDLOCK (concurrent confirms export once)
+ *    - Bulk-load products into a temp table and upsert into vvocr.vendor_products
+ *      by (vendor base name, SKU) - see utils/productExport.ts
+ *    - Log new SKUs / price changes / discontinued SKUs to vendor_product_price_history
+ *    - SKUs missing from this list are flagged is_discontinued, never deleted
+ * 4. Update export_status to 'confirmed', pin the version if the chain has no pin, and commit
+ * 5. Save the vendor mapping template (header text → field, keyed by vendor base name)
+ *    so the next upload from this vendor skips the LLM. Optional body fields:
+ *    - transforms: { sku: ['uppercase'], ... } (uppercase, lowercase, collapseWhitespace)
+ *    - defaultValues: { unit: 'EA', ... } applied when a cell is empty
+ *    Template failures are logged and do not fail the export.
+ * 6. Return confirmation with product count
+ *
+ * USE CASE:
+ * - Manual approval after reviewing AI-extracted products
+ * - Exports validated data to production catalog
+ * - Enables bronze-to-silver data promotion workflow
+ */
+export async function confirmMappingHandler(
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  context.log(`Confirm mapping request received`);
+
+  try {
+    const body = (await req.json()) as {
+      documentId?: string;
+      transforms?: Record<string, string[]>;
+      defaultValues?: Record<string, string>;
+    };
+    const documentId = body.documentId;
+
+    if (!documentId) {
+      return {
+        status: 400,
+        body: JSON.stringify({ error: 'Missing documentId in request body' }),
+      };
+    }
+
+    const invalidTransform = Object.entries(body.transforms || {}).find(
+      ([field, transforms]) =>
+        !TEMPLATE_FIELDS.includes(field as TemplateField) ||
+        !Array.isArray(transforms) ||
+        transforms.some((t) => !FIELD_TRANSFORMS.includes(t as FieldTransform))
+    );
+    if (invalidTransform) {
+      return {
+        status: 400,
+        body: JSON.stringify({
+          error: `Invalid transforms for field '${invalidTransform[0]}'. Allowed transforms: ${FIELD_TRANSFORMS.join(', ')}`,
+        }),
+      };
+    }
+
+    const pool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
+    await pool.connect();
+
+    try {
+      // 1. Retrieve document and mapping result
+      const docResult = await pool.request().input('documentId', sql.UniqueIdentifier, documentId)
+        .query(`
+          SELECT 
+            d.result_id,
+            d.document_name,
+            d.vendor_name,
+            d.ai_mapping_result,
+            d.processing_status,
+            d.export_status,
+            root.pinned_result_id,
+            (
+              SELECT TOP 1 v.reprocessing_count
+              FROM vvocr.document_processing_results v
+              WHERE COALESCE(v.parent_document_id, v.result_id) = root.result_id
+                AND v.result_id <> d.result_id
+                AND v.export_status = 'confirmed'
+            ) AS exported_version
+          FROM vvocr.document_processing_results d
+          LEFT JOIN vvocr.document_processing_results root
+            ON root.result_id = COALESCE(d.parent_document_id, d.result_id)
+          WHERE d.result_id = @documentId
+        `);
+
+      if (docResult.recordset.length === 0) {
+        await pool.close();
+        return {
+          status: 404,
+          body: JSON.stringify({ error: 'Document not found' }),
+        };
+      }
+
+      const document = docResult.recordset[0];
+
+      if (document.processing_status !== 'completed') {
+        await pool.close();
+        return {
+          status: 400,
+          body: JSON.stringify({
+            error: `Document status is '${document.processing_status}'. Must be 'completed' to confirm.`,
+          }),
+        };
+      }
+
+      // Check if already exported (idempotency)
+      if (document.export_status === 'confirmed') {
+        await pool.close();
+        context.log(`ℹ️ Document ${documentId} already confirmed, skipping re-export`);
+
+        const mappingData = JSON.parse(document.ai_mapping_result || '{}');
+        return alreadyExportedResponse(
+          documentId,
+          document.vendor_name,
+          (mappingData.products || []).length
+        );
+      }
+
+      // Only the pinned version may be exported once a chain has a pin; without a pin,
+      // a second version cannot replace an exported one until it is pinned (promoted)
+      const pinnedResultId: string | null = document.pinned_result_id || null;
+      if (pinnedResultId && pinnedResultId.toLowerCase() !== documentId.toLowerCase()) {
+        await pool.close();
+        return {
+          status: 409,
+          body: JSON.stringify({
+            error: `Another version (${pinnedResultId}) is pinned as the canonical result. Pin this version before confirming it.`,
+          }),
+        };
+      }
+      if (
+        !pinnedResultId &&
+        document.exported_version !== null &&
+        document.exported_version !== undefined
+      ) {
+        await pool.close();
+        return {
+          status: 409,
+          body: JSON.stringify({
+            error: `Version ${document.exported_version} of this document has already been exported. Pin this version to promote it.`,
+          }),
+        };
+      }
 
       if (!document.ai_mapping_result) {
         await pool.close();
@@ -746,7 +1344,7 @@ export async function confirmMappingHandler(
       }
 
       const mappingData = JSON.parse(document.ai_mapping_result);
-      const products = mappingData.products || [];
+      const products: Product[] = mappingData.products || [];
 
       if (products.length === 0) {
         await pool.close();
@@ -756,42 +1354,89 @@ export async function confirmMappingHandler(
         };
       }
 
-      // 2. Insert products into production table
-      let insertedCount = 0;
-      for (const product of products) {
-        await pool
+      // 2. Export atomically: lock the document row, bulk insert, flip export_status
+      const transaction = new sql.Transaction(pool);
+      await transaction.begin();
+
+      let exportSummary: ExportSummary;
+      try {
+        // Re-check under an update lock so concurrent confirms cannot both export
+        const lockResult = await transaction
           .request()
-          .input('vendorId', sql.NVarChar, document.vendor_name)
-          .input('vendorName', sql.NVarChar, document.vendor_name)
-          .input('productName', sql.NVarChar, product.name)
-          .input('sku', sql.NVarChar, product.sku)
-          .input('price', sql.Decimal(18, 4), product.price)
-          .input('unit', sql.NVarChar, product.unit || null)
-          .input('description', sql.NVarChar, product.description || null)
-          .input('sourceDocId', sql.UniqueIdentifier, documentId)
-          .input('sourceDocName', sql.NVarChar, document.document_name).query(`
-            INSERT INTO vvocr.vendor_products 
-            (vendor_id, vendor_name, product_name, sku, price, unit, description, source_document_id, source_document_name)
-            VALUES 
-            (@vendorId, @vendorName, @productName, @sku, @price, @unit, @description, @sourceDocId, @sourceDocName)
+          .input('documentId', sql.UniqueIdentifier, documentId).query(`
+            SELECT export_status
+            FROM vvocr.document_processing_results WITH (UPDLOCK, HOLDLOCK)
+            WHERE result_id = @documentId
+          `);
+
+        if (lockResult.recordset?.[0]?.export_status === 'confirmed') {
+          await transaction.rollback();
+          await pool.close();
+          context.log(`ℹ️ Document ${documentId} confirmed concurrently, skipping re-export`);
+          return alreadyExportedResponse(documentId, document.vendor_name, products.length);
+        }
+
+        exportSummary = await exportProducts(transaction, products, {
+          documentId,
+          vendorName: document.vendor_name,
+          documentName: document.document_name,
+        });
+
+        // 3. Update export status (same transaction - products and status commit together)
+        await transaction.request().input('documentId', sql.UniqueIdentifier, documentId).query(`
+            UPDATE vvocr.document_processing_results 
+            SET 
+                export_status = 'confirmed',
+                exported_at = GETUTCDATE(),
+                updated_at = GETUTCDATE()
+            WHERE result_id = @documentId;
+
+            -- The exported version becomes the canonical result unless one is pinned
+            UPDATE root
+            SET pinned_result_id = @documentId, updated_at = GETUTCDATE()
+            FROM vvocr.document_processing_results root
+            INNER JOIN vvocr.document_processing_results d
+              ON root.result_id = COALESCE(d.parent_document_id, d.result_id)
+            WHERE d.result_id = @documentId AND root.pinned_result_id IS NULL;
           `);
-        insertedCount++;
+
+        await transaction.commit();
+      } catch (error: unknown) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          context.warn(`Failed to roll back export transaction: ${rollbackError}`);
+        }
+        throw error;
       }
 
-      // 3. Update export status
-      await pool.request().input('documentId', sql.UniqueIdentifier, documentId).query(`
-          UPDATE vvocr.document_processing_results 
-          SET 
-              export_status = 'confirmed',
-              exported_at = GETUTCDATE(),
-              updated_at = GETUTCDATE()
-          WHERE result_id = @documentId
-        `);
+      // 4. Save vendor mapping template for future uploads
+      let templateSaved = false;
+      const vendorParts = parseVendorName(document.vendor_name || '');
+      const headerMapping = mappingData.columnHeaders || {};
+      if (vendorParts && headerMapping.sku && headerMapping.name) {
+        const template: MappingTemplate = {
+          vendorBaseName: vendorParts.baseName,
+          headerMapping,
+          transforms: body.transforms || {},
+          defaultValues: body.defaultValues || {},
+        };
+        try {
+          await saveMappingTemplate(pool, template, documentId);
+          templateSaved = true;
+          context.log(`Saved mapping template for ${vendorParts.baseName}`);
+        } catch (templateError: unknown) {
+          const message =
+            templateError instanceof Error ? templateError.message : String(templateError);
+          context.warn(`Failed to save mapping template for ${vendorParts.baseName}: ${message}`);
+        }
+      }
 
       await pool.close();
 
       context.log(
-        `✅ Exported ${insertedCount} products to production for ${document.document_name}`
+        `✅ Exported ${exportSummary.productsExported} products to production for ${document.document_name} ` +
+          `(${exportSummary.newProducts} new, ${exportSummary.priceChanges} price changes, ${exportSummary.discontinued} discontinued)`
       );
 
       return {
@@ -804,7 +1449,13 @@ export async function confirmMappingHandler(
           message: 'Products exported to production successfully',
           documentId,
           vendor: document.vendor_name,
-          productsExported: insertedCount,
+          productsExported: exportSummary.productsExported,
+          newProducts: exportSummary.newProducts,
+          updatedProducts: exportSummary.updatedProducts,
+          priceChanges: exportSummary.priceChanges,
+          discontinued: exportSummary.discontinued,
+          duplicateSkusSkipped: exportSummary.duplicateSkusSkipped,
+          templateSaved,
         }),
       };
     } catch (error: unknown) {
@@ -850,7 +1501,7 @@ app.http('confirmMapping', {
  * 1. Extract documentId from query parameters
  * 2. Determine root parent ID (original document)
  * 3. Query all versions in the reprocessing chain
- * 4. Return array of all versions with metadata
+ * 4. Return array of all versions with metadata (is_pinned marks the canonical version)
  *
  * USE CASE:
  * - View history of AI mapping attempts
@@ -881,11 +1532,14 @@ export async function getVersionHistoryHandler(
       const rootResult = await pool.request().input('documentId', sql.UniqueIdentifier, documentId)
         .query(`
           SELECT 
-            result_id,
-            parent_document_id,
-            reprocessing_count
-          FROM vvocr.document_processing_results
-          WHERE result_id = @documentId
+            d.result_id,
+            d.parent_document_id,
+            d.reprocessing_count,
+            root.pinned_result_id
+          FROM vvocr.document_processing_results d
+          LEFT JOIN vvocr.document_processing_results root
+            ON root.result_id = COALESCE(d.parent_document_id, d.result_id)
+          WHERE d.result_id = @documentId
         `);
 
       if (rootResult.recordset.length === 0) {
@@ -935,8 +1589,12 @@ export async function getVersionHistoryHandler(
         body: JSON.stringify({
           rootDocumentId: rootParentId,
           currentDocumentId: documentId,
+          pinnedResultId: doc.pinned_result_id || null,
           totalVersions: versionsResult.recordset.length,
-          versions: versionsResult.recordset,
+          versions: versionsResult.recordset.map((version) => ({
+            ...version,
+            is_pinned: version.result_id === doc.pinned_result_id,
+          })),
         }),
       };
     } catch (error: unknown) {
@@ -975,13 +1633,291 @@ app.http('getVersionHistory', {
   },
 });
 
+/**
+ * Compare Versions Handler - HTTP GET endpoint diffing two versions of a document
+ *
+ * PROCESS:
+ * 1. Extract fromId and toId from query parameters (both must be UUIDs)
+ * 2. Load both versions and verify they share the same root document
+ * 3. Diff their ai_mapping_result (see utils/productDiff.ts):
+ *    - Column mapping changes per table layout
+ *    - Products added/removed (matched by SKU)
+ *    - Field-level changes for products in both versions
+ * 4. Return score/product count deltas alongside the diff
+ *
+ * USE CASE:
+ * - Judge whether a reprocess actually improved the mapping before confirming it
+ */
+export async function compareVersionsHandler(
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  context.log(`Compare versions request received`);
+
+  try {
+    const fromId = req.query.get('fromId');
+    const toId = req.query.get('toId');
+
+    if (!fromId || !toId) {
+      return jsonResponse(400, { error: 'Missing fromId or toId query parameter' });
+    }
+    if (!isUuid(fromId) || !isUuid(toId)) {
+      return jsonResponse(400, { error: 'fromId and toId must be valid UUIDs' });
+    }
+
+    const pool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
+    await pool.connect();
+
+    try {
+      const versionsResult = await pool
+        .request()
+        .input('fromId', sql.UniqueIdentifier, fromId)
+        .input('toId', sql.UniqueIdentifier, toId).query(`
+          SELECT 
+            result_id,
+            parent_document_id,
+            reprocessing_count,
+            processing_status,
+            export_status,
+            product_count,
+            ai_model_used,
+            ai_confidence_score,
+            ai_completeness_score,
+            ai_model_cost_usd,
+            ai_mapping_result
+          FROM vvocr.document_processing_results
+          WHERE result_id IN (@fromId, @toId)
+        `);
+
+      await pool.close();
+
+      const findVersion = (id: string) =>
+        versionsResult.recordset.find(
+          (row) => String(row.result_id).toLowerCase() === id.toLowerCase()
+        );
+      const fromVersion = findVersion(fromId);
+      const toVersion = findVersion(toId);
+
+      if (!fromVersion || !toVersion) {
+        return jsonResponse(404, { error: 'Version not found' });
+      }
+
+      const fromRoot = fromVersion.parent_document_id || fromVersion.result_id;
+      const toRoot = toVersion.parent_document_id || toVersion.result_id;
+      if (String(fromRoot).toLowerCase() !== String(toRoot).toLowerCase()) {
+        return jsonResponse(400, { error: 'Versions belong to different documents' });
+      }
+
+      const missingMapping = [fromVersion, toVersion].find((v) => !v.ai_mapping_result);
+      if (missingMapping) {
+        return jsonResponse(400, {
+          error: `Version ${missingMapping.reprocessing_count} has no mapping result (status: ${missingMapping.processing_status})`,
+        });
+      }
+
+      const fromMapping = JSON.parse(fromVersion.ai_mapping_result);
+      const toMapping = JSON.parse(toVersion.ai_mapping_result);
+      const productDiff = diffProductVersions(fromMapping.products || [], toMapping.products || []);
+
+      const describeVersion = (version: typeof fromVersion, mapping: typeof fromMapping) => ({
+        documentId: version.result_id,
+        version: version.reprocessing_count,
+        exportStatus: version.export_status,
+        productCount: version.product_count,
+        aiModelUsed: version.ai_model_used,
+        mappingSource: mapping.mappingSource || null,
+        confidenceScore: version.ai_confidence_score,
+        completenessScore: version.ai_completeness_score,
+        aiModelCostUsd: version.ai_model_cost_usd,
+      });
+      const delta = (field: string) =>
+        toVersion[field] === null || fromVersion[field] === null
+          ? null
+          : Math.round((toVersion[field] - fromVersion[field]) * 100) / 100;
+
+      return jsonResponse(200, {
+        rootDocumentId: fromRoot,
+        from: describeVersion(fromVersion, fromMapping),
+        to: describeVersion(toVersion, toMapping),
+        deltas: {
+          productCount: delta('product_count'),
+          confidenceScore: delta('ai_confidence_score'),
+          completenessScore: delta('ai_completeness_score'),
+        },
+        columnMappingChanges: diffColumnMappings(fromMapping, toMapping),
+        ...productDiff,
+      });
+    } catch (error: unknown) {
+      await pool.close();
+      throw error;
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    context.error(`Error comparing versions: ${errorMessage}`);
+    return jsonResponse(500, { error: errorMessage });
+  }
+}
+
+app.http('compareVersions', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        },
+      };
+    }
+    return compareVersionsHandler(request, context);
+  },
+});
+
+/**
+ * Pin Version Handler - HTTP POST endpoint to mark the canonical version of a document
+ *
+ * PROCESS:
+ * 1. Extract documentId (and optional unpin flag) from request body
+ * 2. Verify the version exists and has completed mapping
+ * 3. Store result_id as pinned_result_id on the root document (NULL to unpin)
+ *
+ * EFFECTS:
+ * - getResults (default view) shows the pinned version instead of the latest
+ * - confirmMapping only exports the pinned version of a chain that has a pin;
+ *   pinning another version is how an already-exported result is replaced
+ */
+export async function pinVersionHandler(
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  context.log(`Pin version request received`);
+
+  try {
+    const body = (await req.json()) as { documentId?: string; unpin?: boolean };
+    const documentId = body.documentId;
+
+    if (!documentId) {
+      return {
+        status: 400,
+        body: JSON.stringify({ error: 'Missing documentId in request body' }),
+      };
+    }
+
+    const pool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
+    await pool.connect();
+
+    try {
+      const docResult = await pool.request().input('documentId', sql.UniqueIdentifier, documentId)
+        .query(`
+          SELECT 
+            result_id,
+            parent_document_id,
+            reprocessing_count,
+            processing_status
+          FROM vvocr.document_processing_results
+          WHERE result_id = @documentId
+        `);
+
+      if (docResult.recordset.length === 0) {
+        await pool.close();
+        return {
+          status: 404,
+          body: JSON.stringify({ error: 'Document not found' }),
+        };
+      }
+
+      const doc = docResult.recordset[0];
+      const rootDocumentId = doc.parent_document_id || doc.result_id;
+
+      if (!body.unpin && doc.processing_status !== 'completed') {
+        await pool.close();
+        return {
+          status: 400,
+          body: JSON.stringify({
+            error: `Document status is '${doc.processing_status}'. Only completed versions can be pinned.`,
+          }),
+        };
+      }
+
+      const pinnedResultId = body.unpin ? null : documentId;
+      await pool
+        .request()
+        .input('rootDocumentId', sql.UniqueIdentifier, rootDocumentId)
+        .input('pinnedResultId', sql.UniqueIdentifier, pinnedResultId).query(`
+          UPDATE vvocr.document_processing_results
+          SET pinned_result_id = @pinnedResultId, updated_at = GETUTCDATE()
+          WHERE result_id = @rootDocumentId
+        `);
+
+      await pool.close();
+
+      context.log(
+        body.unpin
+          ? `📌 Unpinned ${rootDocumentId}`
+          : `📌 Pinned version ${doc.reprocessing_count} of ${rootDocumentId}`
+      );
+
+      return {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+        body: JSON.stringify({
+          message: body.unpin
+            ? 'Version unpinned'
+            : `Version ${doc.reprocessing_count} pinned as the canonical result`,
+          rootDocumentId,
+          pinnedResultId,
+          version: body.unpin ? null : doc.reprocessing_count,
+        }),
+      };
+    } catch (error: unknown) {
+      await pool.close();
+      throw error;
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    context.error(`Error pinning version: ${errorMessage}`);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+      body: JSON.stringify({ error: errorMessage }),
+    };
+  }
+}
+
+app.http('pinVersion', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        },
+      };
+    }
+    return pinVersionHandler(request, context);
+  },
+});
+
 /**
  * Delete Specific Run Handler - HTTP DELETE endpoint for single version
  *
  * PROCESS:
  * 1. Extract documentId from query parameters
  * 2. Verify it's not the root document (prevent orphaning)
- * 3. Delete the specific run from database
+ * 3. Delete the specific run from database (clears the root's pin if it was pinned)
  * 4. Bronze-layer blobs are retained for audit
  *
  * RESTRICTIONS:
@@ -1041,8 +1977,12 @@ export async function deleteRunHandler(
         };
       }
 
-      // Delete the specific run
+      // Delete the specific run (unpinning it first, so the chain falls back to latest)
       await pool.request().input('documentId', sql.UniqueIdentifier, documentId).query(`
+          UPDATE vvocr.document_processing_results
+          SET pinned_result_id = NULL, updated_at = GETUTCDATE()
+          WHERE pinned_result_id = @documentId;
+
           DELETE FROM vvocr.document_processing_results
           WHERE result_id = @documentId
         `);
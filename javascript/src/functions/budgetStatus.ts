@@ -0,0 +1,89 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import {
+  BUDGET_WARNING_THRESHOLDS,
+  budgetVendor,
+  evaluateBudgets,
+  getBudgetCaps,
+  getSpendSummary,
+} from '../utils/budget.js';
+import { withDatabase } from '../utils/database.js';
+import { jsonResponse } from '../utils/http.js';
+
+/**
+ * HTTP GET endpoint showing current spend against the configured budget caps
+ * Query params:
+ *  - vendor: optional vendor base name - only global caps and that vendor's caps are shown
+ *
+ * Returns each cap (see utils/budget.ts) with spent / remaining USD, percent used and the
+ * highest warning threshold reached (50, 80, 100), today's and this month's spend, and the
+ * documents currently parked in 'budget_blocked'.
+ */
+export async function budgetStatus(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  context.log('Processing budgetStatus request');
+
+  try {
+    const vendor = request.query.get('vendor');
+    const caps = getBudgetCaps().filter(
+      (cap) => !vendor || cap.vendor === null || cap.vendor === vendor
+    );
+
+    const { spend, blocked } = await withDatabase(async (pool) => {
+      const spend = await getSpendSummary(pool);
+      const blockedResult = await pool.request().query(`
+        SELECT result_id, vendor_name, reprocessing_count, error_message, updated_at
+        FROM vvocr.document_processing_results
+        WHERE processing_status = 'budget_blocked'
+        ORDER BY updated_at DESC
+      `);
+      return { spend, blocked: blockedResult.recordset };
+    });
+
+    const budgets = evaluateBudgets(caps, spend);
+    const vendorSpend = vendor ? spend.vendors[vendor] || { daily: 0, monthly: 0 } : null;
+
+    return jsonResponse(200, {
+      vendor: vendor || null,
+      thresholds: BUDGET_WARNING_THRESHOLDS,
+      budgets,
+      spend: {
+        global: spend.global,
+        ...(vendorSpend ? { vendor: vendorSpend } : {}),
+      },
+      blockedDocuments: blocked
+        .filter((doc) => !vendor || budgetVendor(doc.vendor_name || '') === vendor)
+        .map((doc) => ({
+          documentId: doc.result_id,
+          vendorName: doc.vendor_name,
+          version: doc.reprocessing_count,
+          reason: doc.error_message,
+          blockedAt: doc.updated_at,
+        })),
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    context.error('Error getting budget status:', error);
+    return jsonResponse(500, { error: errorMessage });
+  }
+}
+
+app.http('budgetStatus', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    // Handle CORS preflight
+    if (request.method === 'OPTIONS') {
+      return {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        },
+      };
+    }
+    return budgetStatus(request, context);
+  },
+});
@@ -0,0 +1,240 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import sql from 'mssql';
+import { withDatabase } from '../utils/database.js';
+import { jsonResponse } from '../utils/http.js';
+
+export const COST_REPORT_DIMENSIONS = ['vendor', 'month', 'model', 'stage'] as const;
+type CostReportDimension = (typeof COST_REPORT_DIMENSIONS)[number];
+
+const MONTH_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+interface CostReportRow {
+  vendor?: string;
+  month?: string;
+  model?: string;
+  stage?: string;
+  total_cost_usd: number;
+  doc_intel_cost_usd: number;
+  ai_model_cost_usd: number;
+  pages: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  documents: number;
+  mapping_runs: number;
+  products: number;
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function summarize(row: Omit<CostReportRow, CostReportDimension>) {
+  const totalCostUsd = roundUsd(row.total_cost_usd || 0);
+  return {
+    totalCostUsd,
+    docIntelCostUsd: roundUsd(row.doc_intel_cost_usd || 0),
+    aiModelCostUsd: roundUsd(row.ai_model_cost_usd || 0),
+    pages: row.pages || 0,
+    promptTokens: row.prompt_tokens || 0,
+    completionTokens: row.completion_tokens || 0,
+    totalTokens: (row.prompt_tokens || 0) + (row.completion_tokens || 0),
+    documents: row.documents || 0,
+    mappingRuns: row.mapping_runs || 0,
+    products: row.products || 0,
+    costPerProduct: row.products ? roundUsd(totalCostUsd / row.products) : null,
+  };
+}
+
+/**
+ * Add one month to a YYYY-MM string and return the first day as YYYY-MM-01
+ */
+function monthAfter(month: string): string {
+  const [year, monthNum] = month.split('-').map((part) => parseInt(part, 10));
+  const next = new Date(Date.UTC(year, monthNum, 1)); // monthNum is already 1-based
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * HTTP GET endpoint aggregating processing cost
+ * Query params:
+ *  - groupBy: comma-separated dimensions - vendor, month, model, stage (default vendor)
+ *  - vendor: vendor base name filter (BETTER_LIVING matches every BETTER_LIVING_MM_YY list)
+ *  - from, to: YYYY-MM processing months, inclusive (by created_at of each run)
+ *
+ * Each run is split into processing stages so OCR is counted once per document:
+ *  - ocr: doc_intel cost and pages of original uploads (reprocess versions copy these
+ *    columns but reuse the original's OCR output)
+ *  - ai_mapping: LLM cost, tokens and extracted products of every mapping run
+ *    (model = ai_model_used: deployment name, 'template', 'manual' or 'csv-template')
+ *
+ * Returns one row per group with cost, tokens, pages, documents, mapping runs, products and
+ * costPerProduct (total cost / products extracted across all runs), plus overall totals.
+ */
+export async function costReport(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  context.log('Processing costReport request');
+
+  try {
+    const groupBy = (request.query.get('groupBy') || 'vendor')
+      .split(',')
+      .map((dimension) => dimension.trim())
+      .filter(Boolean);
+    const vendor = request.query.get('vendor');
+    const from = request.query.get('from');
+    const to = request.query.get('to');
+
+    const unknown = groupBy.find(
+      (dimension) => !(COST_REPORT_DIMENSIONS as readonly string[]).includes(dimension)
+    );
+    if (unknown || groupBy.length === 0) {
+      return jsonResponse(400, {
+        error: `Invalid groupBy '${unknown ?? ''}'. Allowed dimensions: ${COST_REPORT_DIMENSIONS.join(', ')}`,
+      });
+    }
+    if ((from && !MONTH_REGEX.test(from)) || (to && !MONTH_REGEX.test(to))) {
+      return jsonResponse(400, { error: 'from and to must be months in YYYY-MM format' });
+    }
+
+    // Dimensions are validated against the whitelist above, so they can be used as column names
+    const dimensions = [...new Set(groupBy)] as CostReportDimension[];
+    const dimensionColumns = dimensions.join(', ');
+
+    const conditions: string[] = [];
+    if (vendor) conditions.push('vendor = @vendor');
+    if (from) conditions.push('run_date >= @fromDate');
+    if (to) conditions.push('run_date < @toDate');
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = await withDatabase(async (pool) => {
+      const dbRequest = pool.request();
+      if (vendor) dbRequest.input('vendor', sql.NVarChar, vendor);
+      if (from) dbRequest.input('fromDate', sql.Date, `${from}-01`);
+      if (to) dbRequest.input('toDate', sql.Date, monthAfter(to));
+
+      const result = await dbRequest.query(`
+        WITH Runs AS (
+          SELECT
+            CASE
+              WHEN vendor_name LIKE '%[_][0-9][0-9][_][0-9][0-9]'
+                THEN LEFT(vendor_name, LEN(vendor_name) - 6)
+              ELSE vendor_name
+            END AS vendor,
+            created_at AS run_date,
+            CONVERT(CHAR(7), created_at, 126) AS month,
+            parent_document_id,
+            ai_model_used,
+            doc_intel_cost_usd,
+            doc_intel_page_count,
+            ai_model_cost_usd,
+            ai_prompt_tokens,
+            ai_completion_tokens,
+            product_count
+          FROM vvocr.document_processing_results
+        ),
+        Stages AS (
+          SELECT vendor, run_date, month,
+            'document-intelligence' AS model,
+            'ocr' AS stage,
+            ISNULL(doc_intel_cost_usd, 0) AS cost_usd,
+            ISNULL(doc_intel_page_count, 0) AS pages,
+            0 AS prompt_tokens,
+            0 AS completion_tokens,
+            1 AS documents,
+            0 AS mapping_runs,
+            0 AS products
+          FROM Runs
+          WHERE parent_document_id IS NULL
+          UNION ALL
+          SELECT vendor, run_date, month,
+            ai_model_used,
+            'ai_mapping',
+            ISNULL(ai_model_cost_usd, 0),
+            0,
+            ISNULL(ai_prompt_tokens, 0),
+            ISNULL(ai_completion_tokens, 0),
+            0,
+            1,
+            ISNULL(product_count, 0)
+          FROM Runs
+          WHERE ai_model_used IS NOT NULL
+        )
+        SELECT
+          ${dimensionColumns},
+          SUM(cost_usd) AS total_cost_usd,
+          SUM(CASE WHEN stage = 'ocr' THEN cost_usd ELSE 0 END) AS doc_intel_cost_usd,
+          SUM(CASE WHEN stage = 'ai_mapping' THEN cost_usd ELSE 0 END) AS ai_model_cost_usd,
+          SUM(pages) AS pages,
+          SUM(prompt_tokens) AS prompt_tokens,
+          SUM(completion_tokens) AS completion_tokens,
+          SUM(documents) AS documents,
+          SUM(mapping_runs) AS mapping_runs,
+          SUM(products) AS products
+        FROM Stages
+        ${whereClause}
+        GROUP BY ${dimensionColumns}
+        ORDER BY total_cost_usd DESC
+      `);
+      return result.recordset as CostReportRow[];
+    });
+
+    const totals = rows.reduce(
+      (sum, row) => ({
+        total_cost_usd: sum.total_cost_usd + (row.total_cost_usd || 0),
+        doc_intel_cost_usd: sum.doc_intel_cost_usd + (row.doc_intel_cost_usd || 0),
+        ai_model_cost_usd: sum.ai_model_cost_usd + (row.ai_model_cost_usd || 0),
+        pages: sum.pages + (row.pages || 0),
+        prompt_tokens: sum.prompt_tokens + (row.prompt_tokens || 0),
+        completion_tokens: sum.completion_tokens + (row.completion_tokens || 0),
+        documents: sum.documents + (row.documents || 0),
+        mapping_runs: sum.mapping_runs + (row.mapping_runs || 0),
+        products: sum.products + (row.products || 0),
+      }),
+      {
+        total_cost_usd: 0,
+        doc_intel_cost_usd: 0,
+        ai_model_cost_usd: 0,
+        pages: 0,
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        documents: 0,
+        mapping_runs: 0,
+        products: 0,
+      }
+    );
+
+    return jsonResponse(200, {
+      groupBy: dimensions,
+      filters: { vendor: vendor || null, from: from || null, to: to || null },
+      totals: summarize(totals),
+      rows: rows.map((row) => ({
+        ...Object.fromEntries(dimensions.map((dimension) => [dimension, row[dimension] ?? null])),
+        ...summarize(row),
+      })),
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    context.error('Error building cost report:', error);
+    return jsonResponse(500, { error: errorMessage });
+  }
+}
+
+app.http('costReport', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    // Handle CORS preflight
+    if (request.method === 'OPTIONS') {
+      return {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        },
+      };
+    }
+    return costReport(request, context);
+  },
+});
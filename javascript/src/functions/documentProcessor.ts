@@ -1,8 +1,14 @@
 import { AzureKeyCredential, DocumentAnalysisClient } from '@azure/ai-form-recognizer';
-import { app, InvocationContext } from '@azure/functions';
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { BlobServiceClient } from '@azure/storage-blob';
-import { QueueServiceClient } from '@azure/storage-queue';
 import sql from 'mssql';
+import { checkBudget, estimatePdfPageCount } from '../utils/budget.js';
+import { jsonResponse } from '../utils/http.js';
+import { enqueueAiMapping } from '../utils/mappingQueue.js';
+import { calculateDocIntelCost, PRICING_CATALOG_VERSION } from '../utils/pricingCatalog.js';
+import { extractSectionHeadings, SectionHeading } from '../utils/sectionHeaders.js';
+import { normalizeTables, TableStitching } from '../utils/tableNormalizer.js';
+import { isSpreadsheetFile, parseSpreadsheet } from '../utils/spreadsheetParser.js';
 
 // Connection strings from environment variables
 const SQL_CONNECTION_STRING = process.env.SQL_CONNECTION_STRING;
@@ -10,6 +16,7 @@ const DOCUMENT_INTELLIGENCE_ENDPOINT = process.env.DOCUMENT_INTELLIGENCE_ENDPOIN
 const DOCUMENT_INTELLIGENCE_KEY = process.env.DOCUMENT_INTELLIGENCE_KEY;
 const STORAGE_CONTAINER_DOCUMENTS = process.env.STORAGE_CONTAINER_DOCUMENTS || 'uploads';
 const BRONZE_LAYER_CONTAINER = 'bronze-layer';
+const DOC_INTEL_MODEL = 'prebuilt-layout';
 
 /**
  * Document Processor - Blob trigger function for OCR extraction ONLY
@@ -22,30 +29,45 @@ const BRONZE_LAYER_CONTAINER = 'bronze-layer';
  *    - Validate Document Intelligence credentials (endpoint + key)
  *    - Record start time for duration tracking
  *
- * 2. OCR EXTRACTION (Azure Document Intelligence)
+ * 2. BUDGET CHECK (PDFs only - see utils/budget.ts)
+ *    - Estimate the OCR cost from the PDF's page objects
+ *    - If it would exceed a daily/monthly cap (global or vendor), skip OCR and set
+ *      processing_status = 'budget_blocked' with the cap in error_message
+ *
+ * 3. OCR EXTRACTION (Azure Document Intelligence)
  *    - Initialize DocumentAnalysisClient with AzureKeyCredential
  *    - Analyze document using "prebuilt-layout" model (extracts text + tables)
  *    - Poll until OCR analysis completes
  *    - Extract: content (text), tables (structured data), pages (count)
- *    - Calculate cost: pageCount * $1.50 / 1000
+ *    - Stitch tables continued across pages onto the table they continue (continuations
+ *      usually lack the header row) and record each decision (see utils/tableNormalizer.ts)
+ *    - Keep section headings (paragraph role 'sectionHeading') - the mapper uses them as
+ *      product categories (see utils/sectionHeaders.ts)
+ *    - Calculate cost from utils/pricingCatalog.ts: pageCount * $10 / 1000 for prebuilt-layout
+ *
+ *    SPREADSHEETS (.xlsx/.xls):
+ *    - Skip Document Intelligence entirely (no OCR cost)
+ *    - Parse workbook with the xlsx library into the same { tables: [...] } cell structure
+ *    - One table per visible sheet, pageCount = number of parsed sheets
  *
- * 3. BRONZE-LAYER STORAGE
- *    - Store raw PDF in bronze-layer/raw/{vendor}/{timestamp}-{filename}.pdf
- *    - Store OCR output in bronze-layer/ocr/{document_id}.json
+ * 4. BRONZE-LAYER STORAGE
+ *    - Store raw PDF/XLSX in bronze-layer/raw/{vendor}/{timestamp}-{filename}.pdf
+ *    - Store OCR output (stitched tables + stitching decisions) in bronze-layer/ocr/{document_id}.json
  *
- * 4. DATABASE UPDATE - OCR RESULTS
+ * 5. DATABASE UPDATE - OCR RESULTS
  *    - Connect to SQL database using connection pool
  *    - Parse blob path to extract relative path
  *    - Update document_processing_results table with:
  *      * doc_intel_extracted_text: Full OCR text content
- *      * doc_intel_structured_data: JSON with table data
+ *      * doc_intel_structured_data: JSON with table data and section headings
  *      * doc_intel_page_count, doc_intel_table_count
- *      * doc_intel_cost_usd: Calculated cost
+ *      * doc_intel_cost_usd: Calculated cost (also total_cost_usd until AI mapping adds its cost)
  *      * processing_started_at, processing_duration_ms
- *      * processing_status: 'pending' -> 'ocr_complete'
+ *      * processing_status: 'pending' -> 'ocr_complete' (or 'budget_blocked')
  *
  * NEXT STEP:
- * - Status 'ocr_complete' triggers AI mapping via separate function
+ * - Queue AI mapping (ai-mapping-queue) and set processing_status = 'mapping_queued';
+ *   the row stays 'ocr_complete' if queuing fails
  *
  * ERROR HANDLING:
  * - Catches any errors during processing
@@ -53,47 +75,103 @@ const BRONZE_LAYER_CONTAINER = 'bronze-layer';
  * - Updates database with 'failed' status and error_message
  * - Ensures graceful failure without crashing the function
  *
+ * RESUMING:
+ * - An upload parked in 'budget_blocked' before OCR is not triggered again by the blob;
+ *   POST /api/resumeDocument runs this function on the stored uploads/ blob
+ *
  * ENVIRONMENT VARIABLES REQUIRED:
  * - SQL_CONNECTION_STRING: Azure SQL connection string
  * - DOCUMENT_INTELLIGENCE_ENDPOINT: Azure AI Document Intelligence endpoint
  * - DOCUMENT_INTELLIGENCE_KEY: API key for Document Intelligence
  * - STORAGE_CONNECTION_STRING: Azure Storage connection string
  * - STORAGE_CONTAINER_DOCUMENTS: Container name (default: "uploads")
+ * - BUDGET_DAILY_USD, BUDGET_MONTHLY_USD, BUDGET_VENDOR_CAPS: optional spend caps
  */
-export async function processDocument(blob: Buffer, context: InvocationContext): Promise<void> {
-  const blobPath = context.triggerMetadata?.blobTrigger as string;
+export async function processDocument(
+  blob: Buffer,
+  context: InvocationContext,
+  blobPath: string = context.triggerMetadata?.blobTrigger as string
+): Promise<void> {
   context.log(`Processing blob: ${blobPath}`);
 
   const startTime = Date.now();
   let pool: sql.ConnectionPool | null = null;
 
+  // Extract path - blob trigger gives full path like "uploads/vendor/file.pdf"
+  const pathParts = blobPath.split('/');
+  const relativePath = pathParts.length > 1 ? pathParts.slice(1).join('/') : blobPath;
+  const vendorName = pathParts.length > 1 ? pathParts[1] : 'unknown';
+
   try {
-    if (!DOCUMENT_INTELLIGENCE_ENDPOINT || !DOCUMENT_INTELLIGENCE_KEY) {
-      throw new Error('Missing Document Intelligence configuration');
-    }
+    pool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
+    await pool.connect();
 
-    // 1. Initialize Document Analysis Client
-    const client = new DocumentAnalysisClient(
-      DOCUMENT_INTELLIGENCE_ENDPOINT,
-      new AzureKeyCredential(DOCUMENT_INTELLIGENCE_KEY)
-    );
+    let content: string;
+    let tables: unknown[] | undefined;
+    let headings: SectionHeading[] | undefined;
+    let stitching: TableStitching | undefined;
+    let pageCount: number;
+    let tableCount: number;
+    let docIntelCost: number;
 
-    // 2. Start analysis (using prebuilt-layout for tables and structure)
-    const poller = await client.beginAnalyzeDocument('prebuilt-layout', blob);
-    const { content, tables, pages } = await poller.pollUntilDone();
+    if (isSpreadsheetFile(blobPath)) {
+      // Spreadsheets are already structured - parse natively instead of paying for OCR
+      const extraction = parseSpreadsheet(blob);
+      content = extraction.content;
+      tables = extraction.tables;
+      pageCount = extraction.pageCount;
+      tableCount = extraction.tableCount;
+      docIntelCost = 0;
 
-    const pageCount = pages?.length || 0;
-    const tableCount = tables?.length || 0;
+      context.log(`Spreadsheet parsed. Sheets: ${pageCount}, Tables: ${tableCount}`);
+    } else {
+      if (!DOCUMENT_INTELLIGENCE_ENDPOINT || !DOCUMENT_INTELLIGENCE_KEY) {
+        throw new Error('Missing Document Intelligence configuration');
+      }
+
+      // Don't start OCR that would push spend over a budget cap
+      const estimatedCost = calculateDocIntelCost(DOC_INTEL_MODEL, estimatePdfPageCount(blob));
+      const budget = await checkBudget(pool, vendorName, estimatedCost, context);
+      if (!budget.allowed) {
+        await pool
+          .request()
+          .input('documentPath', sql.NVarChar, relativePath)
+          .input('error', sql.NVarChar, budget.reason).query(`
+            UPDATE vvocr.document_processing_results 
+            SET 
+                processing_status = 'budget_blocked',
+                error_message = @error,
+                updated_at = GETUTCDATE()
+            WHERE document_path = @documentPath
+          `);
+        await pool.close();
+        context.warn(`Document ${relativePath} parked in 'budget_blocked', OCR skipped`);
+        return;
+      }
+
+      // 1. Initialize Document Analysis Client
+      const client = new DocumentAnalysisClient(
+        DOCUMENT_INTELLIGENCE_ENDPOINT,
+        new AzureKeyCredential(DOCUMENT_INTELLIGENCE_KEY)
+      );
+
+      // 2. Start analysis (using prebuilt-layout for tables and structure)
+      const poller = await client.beginAnalyzeDocument(DOC_INTEL_MODEL, blob);
+      const analysis = await poller.pollUntilDone();
 
-    context.log(`OCR complete. Pages: ${pageCount}, Tables: ${tableCount}`);
+      content = analysis.content;
+      ({ tables, stitching } = normalizeTables(analysis.tables || []));
+      headings = extractSectionHeadings(analysis.paragraphs);
+      pageCount = analysis.pages?.length || 0;
+      tableCount = analysis.tables?.length || 0;
 
-    // Calculate cost: $1.50 per 1,000 pages
-    const docIntelCost = (pageCount / 1000) * 1.5;
+      context.log(
+        `OCR complete. Pages: ${pageCount}, Tables: ${tableCount} (${tables.length} after stitching)`
+      );
 
-    // Extract path - blob trigger gives full path like "uploads/vendor/file.pdf"
-    const pathParts = blobPath.split('/');
-    const relativePath = pathParts.length > 1 ? pathParts.slice(1).join('/') : blobPath;
-    const vendorName = pathParts.length > 1 ? pathParts[1] : 'unknown';
+      // Calculate cost from the pricing catalog (prebuilt-layout: $10 per 1,000 pages)
+      docIntelCost = calculateDocIntelCost(DOC_INTEL_MODEL, pageCount);
+    }
 
     // 3. Store OCR results in bronze-layer
     const blobServiceClient = BlobServiceClient.fromConnectionString(
@@ -102,9 +180,6 @@ export async function processDocument(blob: Buffer, context: InvocationContext):
     const bronzeContainer = blobServiceClient.getContainerClient(BRONZE_LAYER_CONTAINER);
 
     // Get document_id from database first
-    pool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
-    await pool.connect();
-
     const docResult = await pool.request().input('documentPath', sql.NVarChar, relativePath).query(`
         SELECT result_id FROM vvocr.document_processing_results 
         WHERE document_path = @documentPath
@@ -116,7 +191,7 @@ export async function processDocument(blob: Buffer, context: InvocationContext):
 
     const documentId = docResult.recordset[0].result_id;
 
-    // Store raw PDF in bronze-layer
+    // Store raw upload (PDF/XLSX) in bronze-layer
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const fileName = pathParts[pathParts.length - 1];
     const rawBlobPath = `raw/${vendorName}/${timestamp}-${fileName}`;
@@ -129,9 +204,12 @@ export async function processDocument(blob: Buffer, context: InvocationContext):
       timestamp: new Date().toISOString(),
       content,
       tables,
+      headings,
+      stitching,
       pageCount,
       tableCount,
       cost: docIntelCost,
+      pricingVersion: PRICING_CATALOG_VERSION,
     };
     const ocrBlobPath = `ocr/${documentId}.json`;
     const ocrBlobClient = bronzeContainer.getBlockBlobClient(ocrBlobPath);
@@ -149,7 +227,7 @@ export async function processDocument(blob: Buffer, context: InvocationContext):
       .request()
       .input('documentPath', sql.NVarChar, relativePath)
       .input('extractedText', sql.NVarChar, content)
-      .input('structuredData', sql.NVarChar, JSON.stringify({ tables }))
+      .input('structuredData', sql.NVarChar, JSON.stringify({ tables, headings, stitching }))
       .input('pageCount', sql.Int, pageCount)
       .input('tableCount', sql.Int, tableCount)
       .input('docIntelCost', sql.Decimal(10, 6), docIntelCost)
@@ -162,6 +240,7 @@ export async function processDocument(blob: Buffer, context: InvocationContext):
             doc_intel_page_count = @pageCount,
             doc_intel_table_count = @tableCount,
             doc_intel_cost_usd = @docIntelCost,
+            total_cost_usd = @docIntelCost,
             processing_status = 'ocr_complete',
             processing_started_at = @startedAt,
             processing_duration_ms = @duration,
@@ -170,29 +249,35 @@ export async function processDocument(blob: Buffer, context: InvocationContext):
       `);
 
     context.log(`✅ OCR processing complete for ${relativePath}. Status: ocr_complete`);
-    await pool.close();
 
-    // 5. Queue AI Product Mapper for asynchronous processing
+    // 5. Queue AI Product Mapper for asynchronous processing. The row is marked
+    // 'mapping_queued' before the message is sent, so a fast worker's 'mapping' status
+    // is not overwritten, and goes back to 'ocr_complete' if queuing fails.
     try {
       context.log(`📤 Queuing AI product mapping for document ${documentId}...`);
 
-      const queueServiceClient = QueueServiceClient.fromConnectionString(
-        process.env.STORAGE_CONNECTION_STRING!
-      );
-      const queueClient = queueServiceClient.getQueueClient('ai-mapping-queue');
-      await queueClient.createIfNotExists();
-
-      await queueClient.sendMessage(Buffer.from(JSON.stringify({ documentId })).toString('base64'));
+      await pool.request().input('documentId', sql.UniqueIdentifier, documentId).query(`
+          UPDATE vvocr.document_processing_results
+          SET processing_status = 'mapping_queued', updated_at = GETUTCDATE()
+          WHERE result_id = @documentId
+        `);
+      await enqueueAiMapping(documentId);
 
       context.log(`✅ AI mapping queued successfully for document ${documentId}`);
     } catch (queueError: unknown) {
       // Don't fail OCR if queuing fails - log and continue
       const errorMessage = queueError instanceof Error ? queueError.message : String(queueError);
       context.warn(`⚠️ Failed to queue AI mapping: ${errorMessage}`);
+      await pool.request().input('documentId', sql.UniqueIdentifier, documentId).query(`
+          UPDATE vvocr.document_processing_results
+          SET processing_status = 'ocr_complete', updated_at = GETUTCDATE()
+          WHERE result_id = @documentId
+        `);
       context.warn(
         `   Document ${documentId} is in 'ocr_complete' state and can be reprocessed manually via API.`
       );
     }
+    await pool.close();
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorStack = error instanceof Error ? error.stack : '';
@@ -205,7 +290,6 @@ export async function processDocument(blob: Buffer, context: InvocationContext):
         pool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
         await pool.connect();
       }
-      const relativePath = blobPath.split('/').slice(1).join('/');
       await pool
         .request()
         .input('documentPath', sql.NVarChar, relativePath)
@@ -229,3 +313,120 @@ app.storageBlob('processDocument', {
   connection: 'STORAGE_CONNECTION_STRING',
   handler: processDocument,
 });
+
+/**
+ * Resume Document Handler - HTTP POST endpoint to run OCR on an upload parked before OCR
+ *
+ * Uploads whose OCR would have exceeded a spend cap stay in 'budget_blocked' without OCR
+ * results, and the blob trigger does not fire again for them. Once the budget allows:
+ * 1. Check the row is 'budget_blocked' with no OCR results (rows blocked at mapping are
+ *    resumed with POST /api/aiProductMapper instead)
+ * 2. Download the stored upload from the uploads container
+ * 3. Reset the row to 'pending' and run processDocument on the blob - the budget is checked
+ *    again, so the row is parked once more if the cap is still reached
+ * 4. Return the resulting processing_status (ocr_complete → mapping queued as for uploads)
+ *
+ * Body: { "documentId": "uuid" }
+ */
+export async function resumeDocumentHandler(
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  context.log('Resume document request received');
+
+  try {
+    const body = (await req.json()) as { documentId?: string };
+    const documentId = body.documentId;
+    if (!documentId) {
+      return jsonResponse(400, { error: 'Missing documentId in request body' });
+    }
+
+    const pool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
+    await pool.connect();
+
+    const docResult = await pool.request().input('documentId', sql.UniqueIdentifier, documentId)
+      .query(`
+        SELECT document_path, processing_status, doc_intel_structured_data
+        FROM vvocr.document_processing_results
+        WHERE result_id = @documentId
+      `);
+    const document = docResult.recordset[0];
+
+    if (!document) {
+      await pool.close();
+      return jsonResponse(404, { error: 'Document not found' });
+    }
+    if (document.processing_status !== 'budget_blocked' || document.doc_intel_structured_data) {
+      await pool.close();
+      return jsonResponse(400, {
+        error: document.doc_intel_structured_data
+          ? 'Document already has OCR results - POST /api/aiProductMapper to resume mapping'
+          : `Document status is '${document.processing_status}'. Only uploads parked in 'budget_blocked' before OCR can be resumed.`,
+      });
+    }
+
+    const blobServiceClient = BlobServiceClient.fromConnectionString(
+      process.env.STORAGE_CONNECTION_STRING!
+    );
+    const blob = await blobServiceClient
+      .getContainerClient(STORAGE_CONTAINER_DOCUMENTS)
+      .getBlockBlobClient(document.document_path)
+      .downloadToBuffer();
+
+    await pool.request().input('documentId', sql.UniqueIdentifier, documentId).query(`
+        UPDATE vvocr.document_processing_results
+        SET processing_status = 'pending', error_message = NULL, updated_at = GETUTCDATE()
+        WHERE result_id = @documentId
+      `);
+    await pool.close();
+
+    await processDocument(
+      blob,
+      context,
+      `${STORAGE_CONTAINER_DOCUMENTS}/${document.document_path}`
+    );
+
+    const statusPool = new sql.ConnectionPool(SQL_CONNECTION_STRING!);
+    await statusPool.connect();
+    const statusResult = await statusPool
+      .request()
+      .input('documentId', sql.UniqueIdentifier, documentId).query(`
+        SELECT processing_status, error_message
+        FROM vvocr.document_processing_results
+        WHERE result_id = @documentId
+      `);
+    await statusPool.close();
+    const { processing_status: processingStatus, error_message: error } =
+      statusResult.recordset[0] || {};
+
+    return jsonResponse(200, {
+      documentId,
+      resumed: processingStatus !== 'budget_blocked' && processingStatus !== 'failed',
+      processingStatus,
+      error: error || null,
+      statusUrl: `/api/processingStatus?documentId=${documentId}`,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    context.error(`Error resuming document: ${errorMessage}`);
+    return jsonResponse(500, { error: errorMessage });
+  }
+}
+
+app.http('resumeDocument', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        },
+      };
+    }
+    return resumeDocumentHandler(request, context);
+  },
+});
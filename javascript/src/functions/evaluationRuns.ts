@@ -0,0 +1,174 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import sql from 'mssql';
+import { withDatabase } from '../utils/database.js';
+import { DRIFT_THRESHOLDS } from '../utils/drift.js';
+import { isUuid, jsonResponse } from '../utils/http.js';
+
+const MAX_LIMIT = 100;
+
+const RUN_COLUMNS = `
+  run_id, model, prompt_variant, triggered_by, is_baseline, vendor_count, vendors_failed,
+  average_f1, drift_severity, created_at
+`;
+
+interface EvaluationRunRow {
+  run_id: string;
+  model: string;
+  prompt_variant: string;
+  triggered_by: string | null;
+  is_baseline: boolean;
+  vendor_count: number | null;
+  vendors_failed: number | null;
+  average_f1: number | null;
+  drift_severity: string | null;
+  created_at: Date;
+}
+
+interface EvaluationResultRow {
+  vendor_name: string;
+  document_id: string | null;
+  f1_score: number | null;
+  precision_pct: number | null;
+  recall_pct: number | null;
+  metrics: string | null;
+  baseline_run_id: string | null;
+  drift: string | null;
+  drift_severity: string | null;
+  error_message: string | null;
+}
+
+function describeRun(row: EvaluationRunRow) {
+  return {
+    runId: row.run_id,
+    model: row.model,
+    promptVariant: row.prompt_variant,
+    triggeredBy: row.triggered_by,
+    isBaseline: Boolean(row.is_baseline),
+    vendorCount: row.vendor_count,
+    vendorsFailed: row.vendors_failed,
+    averageF1: row.average_f1,
+    driftSeverity: row.drift_severity,
+    createdAt: row.created_at,
+  };
+}
+
+function describeResult(row: EvaluationResultRow) {
+  return {
+    vendor: row.vendor_name,
+    documentId: row.document_id,
+    f1Score: row.f1_score,
+    precision: row.precision_pct,
+    recall: row.recall_pct,
+    driftSeverity: row.drift_severity,
+    baselineRunId: row.baseline_run_id,
+    drift: row.drift ? JSON.parse(row.drift) : null,
+    metrics: row.metrics ? JSON.parse(row.metrics) : null,
+    error: row.error_message,
+  };
+}
+
+/**
+ * HTTP GET endpoint listing stored golden-set evaluation runs and their accuracy drift
+ * (see utils/drift.ts)
+ * Query params:
+ *  - runId: one run with every vendor's metrics and drift against its baseline
+ *  - limit: number of recent runs to list (default 20, clamped to 1-100)
+ *
+ * Without runId, returns the latest runs (model, prompt variant, average F1, worst drift
+ * severity) and the current baseline run, newest first.
+ */
+export async function evaluationRuns(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  context.log('Processing evaluationRuns request');
+
+  try {
+    const runId = request.query.get('runId');
+    const requestedLimit = parseInt(request.query.get('limit') || '20', 10) || 20;
+    const limit = Math.max(1, Math.min(requestedLimit, MAX_LIMIT));
+
+    if (runId && !isUuid(runId)) {
+      return jsonResponse(400, { error: 'runId must be a valid UUID' });
+    }
+
+    if (runId) {
+      const { run, results } = await withDatabase(async (pool) => {
+        const runResult = await pool.request().input('runId', sql.UniqueIdentifier, runId).query(`
+            SELECT ${RUN_COLUMNS}
+            FROM vvocr.evaluation_runs
+            WHERE run_id = @runId
+          `);
+        const resultsResult = await pool.request().input('runId', sql.UniqueIdentifier, runId)
+          .query(`
+            SELECT vendor_name, document_id, f1_score, precision_pct, recall_pct, metrics,
+              baseline_run_id, drift, drift_severity, error_message
+            FROM vvocr.evaluation_results
+            WHERE run_id = @runId
+            ORDER BY vendor_name
+          `);
+        return {
+          run: runResult.recordset[0] as EvaluationRunRow | undefined,
+          results: resultsResult.recordset as EvaluationResultRow[],
+        };
+      });
+
+      if (!run) {
+        return jsonResponse(404, { error: `Evaluation run not found: ${runId}` });
+      }
+
+      return jsonResponse(200, {
+        run: describeRun(run),
+        thresholds: DRIFT_THRESHOLDS,
+        vendors: results.map(describeResult),
+      });
+    }
+
+    const { runs, baseline } = await withDatabase(async (pool) => {
+      const runsResult = await pool.request().input('limit', sql.Int, limit).query(`
+          SELECT TOP (@limit) ${RUN_COLUMNS}
+          FROM vvocr.evaluation_runs
+          ORDER BY created_at DESC
+        `);
+      const baselineResult = await pool.request().query(`
+          SELECT TOP 1 ${RUN_COLUMNS}
+          FROM vvocr.evaluation_runs
+          WHERE is_baseline = 1
+          ORDER BY created_at DESC
+        `);
+      return {
+        runs: runsResult.recordset as EvaluationRunRow[],
+        baseline: baselineResult.recordset[0] as EvaluationRunRow | undefined,
+      };
+    });
+
+    return jsonResponse(200, {
+      thresholds: DRIFT_THRESHOLDS,
+      baseline: baseline ? describeRun(baseline) : null,
+      runs: runs.map(describeRun),
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    context.error('Error listing evaluation runs:', error);
+    return jsonResponse(500, { error: errorMessage });
+  }
+}
+
+app.http('evaluationRuns', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    // Handle CORS preflight
+    if (request.method === 'OPTIONS') {
+      return {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        },
+      };
+    }
+    return evaluationRuns(request, context);
+  },
+});
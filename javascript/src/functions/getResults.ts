@@ -61,17 +61,19 @@ export async function getResults(
           ai_mapping_result,
           ai_model_used,
           ai_model_cost_usd,
+          total_cost_usd,
           ai_confidence_score,
           ai_completeness_score,
           product_count,
+          validation_results,
           created_at,
           updated_at
         FROM vvocr.document_processing_results
         WHERE 1=1
       `;
       } else {
-        // Show only LATEST version of each document (default)
-        // Use CTE to find max version per parent chain
+        // Show one version of each document (default): the version pinned on the
+        // root document, otherwise the LATEST. Use CTE to find max version per parent chain
         query = `
         WITH LatestVersions AS (
           SELECT 
@@ -79,6 +81,11 @@ export async function getResults(
             MAX(reprocessing_count) as max_version
           FROM vvocr.document_processing_results
           GROUP BY COALESCE(parent_document_id, result_id)
+        ),
+        PinnedVersions AS (
+          SELECT result_id as root_id, pinned_result_id
+          FROM vvocr.document_processing_results
+          WHERE parent_document_id IS NULL
         )
         SELECT TOP (@limit)
           d.result_id,
@@ -97,16 +104,23 @@ export async function getResults(
           d.ai_mapping_result,
           d.ai_model_used,
           d.ai_model_cost_usd,
+          d.total_cost_usd,
           d.ai_confidence_score,
           d.ai_completeness_score,
           d.product_count,
+          d.validation_results,
+          CAST(CASE WHEN d.result_id = pv.pinned_result_id THEN 1 ELSE 0 END AS BIT) as is_pinned,
           d.created_at,
           d.updated_at
         FROM vvocr.document_processing_results d
         INNER JOIN LatestVersions lv 
           ON COALESCE(d.parent_document_id, d.result_id) = lv.root_id
-          AND d.reprocessing_count = lv.max_version
-        WHERE 1=1
+        LEFT JOIN PinnedVersions pv
+          ON pv.root_id = lv.root_id
+        WHERE (
+          d.result_id = pv.pinned_result_id
+          OR (pv.pinned_result_id IS NULL AND d.reprocessing_count = lv.max_version)
+        )
       `;
       }
 
@@ -130,6 +144,9 @@ export async function getResults(
       return result.recordset.map((record) => ({
         ...record,
         ai_mapping_result: record.ai_mapping_result ? JSON.parse(record.ai_mapping_result) : null,
+        validation_results: record.validation_results
+          ? JSON.parse(record.validation_results)
+          : null,
       }));
     });
 
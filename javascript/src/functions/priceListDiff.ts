@@ -0,0 +1,157 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import sql from 'mssql';
+import { withDatabase } from '../utils/database.js';
+import { isUuid, jsonResponse } from '../utils/http.js';
+import { diffPriceLists } from '../utils/productDiff.js';
+import { Product } from '../utils/productSchema.js';
+import { validateVendorName } from '../utils/validations.js';
+
+interface DiffDocument {
+  result_id: string;
+  document_name: string;
+  vendor_name: string;
+  reprocessing_count: number;
+  export_status: string;
+  ai_mapping_result: string | null;
+}
+
+const DOCUMENT_COLUMNS = `
+  d.result_id,
+  d.document_name,
+  d.vendor_name,
+  d.reprocessing_count,
+  d.export_status,
+  d.ai_mapping_result
+`;
+
+function parseProducts(document: DiffDocument): Product[] {
+  if (!document.ai_mapping_result) return [];
+  const mappingResult = JSON.parse(document.ai_mapping_result);
+  return Array.isArray(mappingResult.products) ? mappingResult.products : [];
+}
+
+/**
+ * HTTP GET endpoint comparing the extracted products of two price lists
+ * Query params (either form):
+ *  - fromId, toId: result_ids of the two documents
+ *  - vendor, from, to: vendor base name and two MM_YY periods
+ *    (BETTER_LIVING, 11_25, 12_25); the latest mapped version of each list is used
+ *
+ * Returns added/removed SKUs, price increases/decreases with percent change and
+ * renamed products (see utils/productDiff.ts)
+ */
+export async function priceListDiff(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  context.log('Processing priceListDiff request');
+
+  try {
+    const fromId = request.query.get('fromId');
+    const toId = request.query.get('toId');
+    const vendor = request.query.get('vendor');
+    const fromPeriod = request.query.get('from');
+    const toPeriod = request.query.get('to');
+
+    const byId = Boolean(fromId && toId);
+    const byPeriod = Boolean(vendor && fromPeriod && toPeriod);
+
+    if (!byId && !byPeriod) {
+      return jsonResponse(400, {
+        error: 'Provide fromId and toId, or vendor, from and to (MM_YY) query parameters',
+      });
+    }
+
+    if (byId && (!isUuid(fromId!) || !isUuid(toId!))) {
+      return jsonResponse(400, { error: 'fromId and toId must be valid UUIDs' });
+    }
+
+    const fromVendorName = byId ? null : `${vendor}_${fromPeriod}`;
+    const toVendorName = byId ? null : `${vendor}_${toPeriod}`;
+    if (!byId) {
+      for (const vendorName of [fromVendorName!, toVendorName!]) {
+        const validation = validateVendorName(vendorName);
+        if (!validation.valid) {
+          return jsonResponse(400, { error: validation.error });
+        }
+      }
+    }
+
+    const [fromDocument, toDocument] = await withDatabase(async (pool) => {
+      const findById = async (resultId: string): Promise<DiffDocument | undefined> => {
+        const result = await pool.request().input('resultId', sql.UniqueIdentifier, resultId)
+          .query(`
+            SELECT ${DOCUMENT_COLUMNS}
+            FROM vvocr.document_processing_results d
+            WHERE d.result_id = @resultId
+          `);
+        return result.recordset[0];
+      };
+
+      // Version of the list pinned on its root document, otherwise the latest version
+      // that has mapping output (the same version getResults shows)
+      const findByVendorName = async (vendorName: string): Promise<DiffDocument | undefined> => {
+        const result = await pool.request().input('vendorName', sql.NVarChar, vendorName).query(`
+            SELECT TOP 1 ${DOCUMENT_COLUMNS}
+            FROM vvocr.document_processing_results d
+            LEFT JOIN vvocr.document_processing_results root
+              ON root.result_id = COALESCE(d.parent_document_id, d.result_id)
+            WHERE d.vendor_name = @vendorName AND d.ai_mapping_result IS NOT NULL
+            ORDER BY
+              CASE WHEN d.result_id = root.pinned_result_id THEN 0 ELSE 1 END,
+              d.reprocessing_count DESC,
+              d.created_at DESC
+          `);
+        return result.recordset[0];
+      };
+
+      return byId
+        ? Promise.all([findById(fromId!), findById(toId!)])
+        : Promise.all([findByVendorName(fromVendorName!), findByVendorName(toVendorName!)]);
+    });
+
+    if (!fromDocument || !toDocument) {
+      const missing = !fromDocument ? fromId || fromVendorName : toId || toVendorName;
+      return jsonResponse(404, { error: `Price list not found: ${missing}` });
+    }
+
+    const diff = diffPriceLists(parseProducts(fromDocument), parseProducts(toDocument));
+
+    const describe = (document: DiffDocument) => ({
+      documentId: document.result_id,
+      documentName: document.document_name,
+      vendorName: document.vendor_name,
+      version: document.reprocessing_count,
+      exportStatus: document.export_status,
+    });
+
+    return jsonResponse(200, {
+      from: describe(fromDocument),
+      to: describe(toDocument),
+      ...diff,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    context.error('Error computing price list diff:', error);
+    return jsonResponse(500, { error: errorMessage });
+  }
+}
+
+app.http('priceListDiff', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    // Handle CORS preflight
+    if (request.method === 'OPTIONS') {
+      return {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        },
+      };
+    }
+    return priceListDiff(request, context);
+  },
+});
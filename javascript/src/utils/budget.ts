@@ -0,0 +1,231 @@
+/**
+ * Spend Budgets
+ *
+ * Daily and monthly caps on processing spend (total_cost_usd), globally and per vendor.
+ * Checked before documentProcessor calls Document Intelligence and before aiProductMapper
+ * calls the LLM; a run whose estimated cost would push spend over a cap is not started and
+ * its row is parked in 'budget_blocked' (error_message names the cap).
+ *
+ * Configuration (USD, unset or 0 = no cap):
+ * - BUDGET_DAILY_USD, BUDGET_MONTHLY_USD: global caps
+ * - BUDGET_VENDOR_CAPS: JSON keyed by vendor base name, e.g.
+ *   {"BETTER_LIVING": {"daily": 2, "monthly": 20}}
+ *
+ * Periods are UTC calendar days and months, by created_at of each run (as in costReport).
+ * Crossing 50%, 80% and 100% of a cap is logged as a warning.
+ */
+
+import { InvocationContext } from '@azure/functions';
+import sql from 'mssql';
+import { parseVendorName } from './validations.js';
+
+export const BUDGET_PERIODS = ['daily', 'monthly'] as const;
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+// Percent of a cap at which a warning is logged
+export const BUDGET_WARNING_THRESHOLDS = [50, 80, 100];
+
+export interface BudgetCap {
+  scope: 'global' | 'vendor';
+  vendor: string | null; // Base name for vendor caps
+  period: BudgetPeriod;
+  limitUsd: number;
+}
+
+export interface BudgetStatus extends BudgetCap {
+  spentUsd: number;
+  remainingUsd: number;
+  percentUsed: number;
+  thresholdReached: number | null; // Highest warning threshold reached
+}
+
+export interface BudgetSpend {
+  daily: number;
+  monthly: number;
+}
+
+export interface SpendSummary {
+  global: BudgetSpend;
+  vendors: Record<string, BudgetSpend>; // Keyed by vendor base name
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  estimatedCostUsd: number;
+  budgets: BudgetStatus[]; // Caps that apply, with the estimated cost included
+  blockedBy: BudgetStatus | null;
+  reason: string | null;
+}
+
+type Env = Record<string, string | undefined>;
+
+function parseLimit(value: unknown): number {
+  const limit = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(limit) && limit > 0 ? limit : 0;
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Caps configured in the environment. Throws when BUDGET_VENDOR_CAPS is not valid JSON.
+ */
+export function getBudgetCaps(env: Env = process.env): BudgetCap[] {
+  const caps: BudgetCap[] = [];
+  const daily = parseLimit(env.BUDGET_DAILY_USD);
+  const monthly = parseLimit(env.BUDGET_MONTHLY_USD);
+  if (daily) caps.push({ scope: 'global', vendor: null, period: 'daily', limitUsd: daily });
+  if (monthly) caps.push({ scope: 'global', vendor: null, period: 'monthly', limitUsd: monthly });
+
+  if (env.BUDGET_VENDOR_CAPS) {
+    let vendorCaps: Record<string, Partial<Record<BudgetPeriod, number>>>;
+    try {
+      vendorCaps = JSON.parse(env.BUDGET_VENDOR_CAPS);
+    } catch {
+      throw new Error(
+        'BUDGET_VENDOR_CAPS must be JSON like {"VENDOR": {"daily": 2, "monthly": 20}}'
+      );
+    }
+    Object.entries(vendorCaps).forEach(([vendor, limits]) => {
+      BUDGET_PERIODS.forEach((period) => {
+        const limitUsd = parseLimit(limits?.[period]);
+        if (limitUsd) caps.push({ scope: 'vendor', vendor, period, limitUsd });
+      });
+    });
+  }
+
+  return caps;
+}
+
+/**
+ * Vendor base name used for budgets - BETTER_LIVING_11_25 → BETTER_LIVING
+ */
+export function budgetVendor(vendorName: string): string {
+  return parseVendorName(vendorName)?.baseName ?? vendorName;
+}
+
+/**
+ * Spend so far this UTC day and month, globally and per vendor base name
+ */
+export async function getSpendSummary(
+  pool: sql.ConnectionPool,
+  now: Date = new Date()
+): Promise<SpendSummary> {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const result = await pool
+    .request()
+    .input('dayStart', sql.DateTime2, dayStart)
+    .input('monthStart', sql.DateTime2, monthStart).query(`
+      WITH Runs AS (
+        SELECT
+          CASE
+            WHEN vendor_name LIKE '%[_][0-9][0-9][_][0-9][0-9]'
+              THEN LEFT(vendor_name, LEN(vendor_name) - 6)
+            ELSE vendor_name
+          END AS vendor,
+          created_at,
+          ISNULL(total_cost_usd, 0) AS cost_usd
+        FROM vvocr.document_processing_results
+        WHERE created_at >= @monthStart
+      )
+      SELECT
+        vendor,
+        SUM(CASE WHEN created_at >= @dayStart THEN cost_usd ELSE 0 END) AS daily_usd,
+        SUM(cost_usd) AS monthly_usd
+      FROM Runs
+      GROUP BY vendor
+    `);
+
+  const summary: SpendSummary = { global: { daily: 0, monthly: 0 }, vendors: {} };
+  (result.recordset as Array<{ vendor: string; daily_usd: number; monthly_usd: number }>).forEach(
+    (row) => {
+      const spend = { daily: row.daily_usd || 0, monthly: row.monthly_usd || 0 };
+      summary.vendors[row.vendor] = spend;
+      summary.global.daily += spend.daily;
+      summary.global.monthly += spend.monthly;
+    }
+  );
+  return summary;
+}
+
+/**
+ * Status of each cap given spend so far plus an additional (estimated) cost
+ */
+export function evaluateBudgets(
+  caps: BudgetCap[],
+  spend: SpendSummary,
+  additionalUsd = 0
+): BudgetStatus[] {
+  return caps.map((cap) => {
+    const periodSpend = cap.vendor ? spend.vendors[cap.vendor] : spend.global;
+    const spentUsd = roundUsd((periodSpend?.[cap.period] || 0) + additionalUsd);
+    const percentUsed = Math.round((spentUsd / cap.limitUsd) * 10000) / 100;
+    return {
+      ...cap,
+      spentUsd,
+      remainingUsd: roundUsd(Math.max(0, cap.limitUsd - spentUsd)),
+      percentUsed,
+      thresholdReached:
+        BUDGET_WARNING_THRESHOLDS.filter((threshold) => percentUsed >= threshold).pop() ?? null,
+    };
+  });
+}
+
+function describeCap(cap: BudgetCap): string {
+  const scope = cap.vendor ? `vendor ${cap.vendor}` : 'global';
+  return `${scope} ${cap.period} budget of $${cap.limitUsd.toFixed(2)}`;
+}
+
+/**
+ * Check whether a run costing about estimatedCostUsd fits every cap that applies to the
+ * vendor (global caps + the vendor's own). Logs a warning for each threshold the run crosses.
+ * Without configured caps this returns allowed without querying the database.
+ */
+export async function checkBudget(
+  pool: sql.ConnectionPool,
+  vendorName: string,
+  estimatedCostUsd: number,
+  context: InvocationContext,
+  env: Env = process.env
+): Promise<BudgetCheck> {
+  const vendor = budgetVendor(vendorName);
+  const caps = getBudgetCaps(env).filter((cap) => cap.vendor === null || cap.vendor === vendor);
+  if (caps.length === 0) {
+    return { allowed: true, estimatedCostUsd, budgets: [], blockedBy: null, reason: null };
+  }
+
+  const spend = await getSpendSummary(pool);
+  const before = evaluateBudgets(caps, spend);
+  const after = evaluateBudgets(caps, spend, estimatedCostUsd);
+
+  const blockedBy = after.find((status) => status.spentUsd > status.limitUsd) ?? null;
+  if (blockedBy) {
+    const reason =
+      `Blocked by ${describeCap(blockedBy)}: $${(blockedBy.spentUsd - estimatedCostUsd).toFixed(4)} ` +
+      `spent, this run estimated at $${estimatedCostUsd.toFixed(4)}`;
+    context.warn(`🛑 ${reason}`);
+    return { allowed: false, estimatedCostUsd, budgets: after, blockedBy, reason };
+  }
+
+  after.forEach((status, idx) => {
+    if (status.thresholdReached && status.thresholdReached !== before[idx].thresholdReached) {
+      context.warn(
+        `⚠️ ${describeCap(status)} at ${status.percentUsed}% ($${status.spentUsd.toFixed(4)} spent)`
+      );
+    }
+  });
+
+  return { allowed: true, estimatedCostUsd, budgets: after, blockedBy: null, reason: null };
+}
+
+/**
+ * Rough PDF page count from the page objects in the file, for estimating OCR cost before
+ * the analysis runs. Pages inside compressed object streams are not visible; falls back to 1.
+ */
+export function estimatePdfPageCount(blob: Buffer): number {
+  const pages = blob.toString('latin1').match(/\/Type\s*\/Page(?![a-zA-Z])/g);
+  return Math.max(1, pages?.length ?? 0);
+}
@@ -0,0 +1,340 @@
+/**
+ * CSV Template Validation Utilities ("Path A: Manual CSV Template")
+ *
+ * Template columns:
+ * SKU,Description,Cost,MAP,MSRP,Category,SubCategory,MOQ,LeadTimeDays,FreightTerms,UPC,Weight,PackSize
+ *
+ * Rows are validated against typed rules from the client mapping template spec.
+ * Every problem is reported with its row number (as shown in a spreadsheet, header = row 1)
+ * and column name so vendors can fix the file and re-upload.
+ */
+
+import { isValidGtin } from './productSchema.js';
+
+type ColumnType = 'string' | 'decimal' | 'integer';
+
+interface ColumnRule {
+  column: string;
+  field: keyof CsvTemplateProduct;
+  type: ColumnType;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  precision?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  defaultValue?: number;
+}
+
+export interface CsvTemplateProduct {
+  sku: string;
+  name: string;
+  price: number;
+  unit?: string;
+  description?: string;
+  cost: number;
+  map?: number;
+  msrp?: number;
+  category?: string;
+  subCategory?: string;
+  moq?: number;
+  leadTimeDays?: number;
+  freightTerms?: string;
+  upc?: string;
+  weight?: number;
+  packSize?: string;
+}
+
+export interface CsvValidationError {
+  row: number;
+  column: string;
+  value: string;
+  message: string;
+}
+
+export interface CsvTemplateResult {
+  products: CsvTemplateProduct[];
+  errors: CsvValidationError[];
+  warnings: string[];
+  rowCount: number;
+  columnMapping: Record<string, number>;
+}
+
+export const CSV_TEMPLATE_RULES: ColumnRule[] = [
+  {
+    column: 'SKU',
+    field: 'sku',
+    type: 'string',
+    required: true,
+    maxLength: 100,
+    pattern: /^[A-Za-z0-9\-_]+$/,
+    patternMessage: 'SKU must contain only letters, numbers, hyphens, and underscores',
+  },
+  {
+    column: 'Description',
+    field: 'name',
+    type: 'string',
+    required: true,
+    minLength: 3,
+    maxLength: 500,
+  },
+  {
+    column: 'Cost',
+    field: 'cost',
+    type: 'decimal',
+    required: true,
+    min: 0.01,
+    max: 999999.99,
+    precision: 2,
+  },
+  { column: 'MAP', field: 'map', type: 'decimal', min: 0, max: 999999.99, precision: 2 },
+  { column: 'MSRP', field: 'msrp', type: 'decimal', min: 0, max: 999999.99, precision: 2 },
+  { column: 'Category', field: 'category', type: 'string', maxLength: 200 },
+  { column: 'SubCategory', field: 'subCategory', type: 'string', maxLength: 200 },
+  { column: 'MOQ', field: 'moq', type: 'integer', min: 1, max: 100000, defaultValue: 1 },
+  { column: 'LeadTimeDays', field: 'leadTimeDays', type: 'integer', min: 0, max: 365 },
+  { column: 'FreightTerms', field: 'freightTerms', type: 'string', maxLength: 100 },
+  {
+    column: 'UPC',
+    field: 'upc',
+    type: 'string',
+    pattern: /^\d{12,14}$/,
+    patternMessage: 'UPC must be 12-14 digits',
+  },
+  { column: 'Weight', field: 'weight', type: 'decimal', min: 0, precision: 4 },
+  { column: 'PackSize', field: 'packSize', type: 'string', maxLength: 50 },
+];
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped "" quotes, CRLF/LF line endings)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM added by Excel's "CSV UTF-8" export
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines (including trailing newline at end of file)
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Validate a single value against its column rule.
+ * Returns the parsed value, or an error message.
+ */
+function validateValue(rule: ColumnRule, raw: string): { value?: string | number; error?: string } {
+  if (rule.type === 'string') {
+    if (rule.minLength !== undefined && raw.length < rule.minLength) {
+      return { error: `${rule.column} must be at least ${rule.minLength} characters` };
+    }
+    if (rule.maxLength !== undefined && raw.length > rule.maxLength) {
+      return { error: `${rule.column} must be at most ${rule.maxLength} characters` };
+    }
+    if (rule.pattern && !rule.pattern.test(raw)) {
+      return { error: rule.patternMessage || `${rule.column} has an invalid format` };
+    }
+    return { value: raw };
+  }
+
+  const numberPattern = rule.type === 'integer' ? /^-?\d+$/ : /^-?\d+(\.\d+)?$/;
+  if (!numberPattern.test(raw)) {
+    return {
+      error: `${rule.column} must be ${rule.type === 'integer' ? 'a whole number' : 'a decimal number'}`,
+    };
+  }
+
+  const value = Number(raw);
+  const decimals = raw.includes('.') ? raw.split('.')[1].length : 0;
+
+  if (rule.precision !== undefined && decimals > rule.precision) {
+    return { error: `${rule.column} must have at most ${rule.precision} decimal places` };
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    return { error: `${rule.column} must be at least ${rule.min}` };
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    return { error: `${rule.column} must be at most ${rule.max}` };
+  }
+  return { value };
+}
+
+/**
+ * Validate CSV template content and convert valid rows to products.
+ *
+ * Products use the same shape as the AI mapper output (name/sku/price/unit)
+ * so confirmMapping can export them unchanged:
+ * - name  ← Description
+ * - price ← Cost (dealer cost is the price we pay)
+ * - unit  ← PackSize
+ */
+export function validateCsvTemplate(text: string): CsvTemplateResult {
+  const rows = parseCsv(text);
+  const errors: CsvValidationError[] = [];
+  const warnings: string[] = [];
+
+  if (rows.length === 0) {
+    errors.push({ row: 1, column: '', value: '', message: 'CSV file is empty' });
+    return { products: [], errors, warnings, rowCount: 0, columnMapping: {} };
+  }
+
+  // Map template columns to header positions (case-insensitive)
+  const header = rows[0].map((h) => h.trim());
+  const columnMapping: Record<string, number> = {};
+  for (const rule of CSV_TEMPLATE_RULES) {
+    const idx = header.findIndex((h) => h.toLowerCase() === rule.column.toLowerCase());
+    if (idx !== -1) {
+      columnMapping[rule.field] = idx;
+    } else if (rule.required) {
+      errors.push({
+        row: 1,
+        column: rule.column,
+        value: '',
+        message: `Missing required column: ${rule.column}`,
+      });
+    }
+  }
+
+  // Mirror the mapper's columnMapping keys for the aliased fields
+  if (columnMapping.cost !== undefined) columnMapping.price = columnMapping.cost;
+  if (columnMapping.packSize !== undefined) columnMapping.unit = columnMapping.packSize;
+
+  const knownColumns = CSV_TEMPLATE_RULES.map((r) => r.column.toLowerCase());
+  const unknownColumns = header.filter((h) => h && !knownColumns.includes(h.toLowerCase()));
+  if (unknownColumns.length > 0) {
+    warnings.push(`Ignoring unknown columns: ${unknownColumns.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    return { products: [], errors, warnings, rowCount: rows.length - 1, columnMapping };
+  }
+
+  const products: CsvTemplateProduct[] = [];
+  const seenSkus = new Map<string, number>();
+
+  rows.slice(1).forEach((cells, idx) => {
+    const rowNumber = idx + 2; // Header is row 1
+    const parsed: Record<string, string | number> = {};
+    const rowErrorCount = errors.length;
+
+    for (const rule of CSV_TEMPLATE_RULES) {
+      const colIdx = columnMapping[rule.field];
+      const raw = colIdx !== undefined ? (cells[colIdx] || '').trim() : '';
+
+      if (!raw) {
+        if (rule.required) {
+          errors.push({
+            row: rowNumber,
+            column: rule.column,
+            value: raw,
+            message: `${rule.column} is required`,
+          });
+        } else if (rule.defaultValue !== undefined) {
+          parsed[rule.field] = rule.defaultValue;
+        }
+        continue;
+      }
+
+      const result = validateValue(rule, raw);
+      if (result.error) {
+        errors.push({ row: rowNumber, column: rule.column, value: raw, message: result.error });
+      } else if (result.value !== undefined) {
+        parsed[rule.field] = result.value;
+      }
+    }
+
+    const upc = parsed.upc as string | undefined;
+    if (upc && !isValidGtin(upc)) {
+      errors.push({
+        row: rowNumber,
+        column: 'UPC',
+        value: upc,
+        message: 'UPC check digit is invalid',
+      });
+    }
+
+    // Cross-field price rules
+    const cost = parsed.cost as number | undefined;
+    const map = parsed.map as number | undefined;
+    const msrp = parsed.msrp as number | undefined;
+    if (cost !== undefined && map !== undefined && map < cost) {
+      errors.push({
+        row: rowNumber,
+        column: 'MAP',
+        value: String(map),
+        message: `MAP (${map}) must be greater than or equal to Cost (${cost})`,
+      });
+    }
+    if (map !== undefined && msrp !== undefined && msrp < map) {
+      errors.push({
+        row: rowNumber,
+        column: 'MSRP',
+        value: String(msrp),
+        message: `MSRP (${msrp}) must be greater than or equal to MAP (${map})`,
+      });
+    }
+
+    const sku = parsed.sku as string | undefined;
+    if (sku) {
+      const firstRow = seenSkus.get(sku.toUpperCase());
+      if (firstRow !== undefined) {
+        errors.push({
+          row: rowNumber,
+          column: 'SKU',
+          value: sku,
+          message: `Duplicate SKU (first seen on row ${firstRow})`,
+        });
+      } else {
+        seenSkus.set(sku.toUpperCase(), rowNumber);
+      }
+    }
+
+    if (errors.length > rowErrorCount) return;
+
+    const product = { ...parsed, price: parsed.cost } as unknown as CsvTemplateProduct;
+    if (product.packSize) product.unit = product.packSize;
+    products.push(product);
+  });
+
+  return { products, errors, warnings, rowCount: rows.length - 1, columnMapping };
+}
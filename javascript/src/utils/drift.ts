@@ -0,0 +1,268 @@
+/**
+ * Accuracy Drift Detection
+ *
+ * Golden-set evaluation runs (evaluateGolden --save) are stored per run - model, prompt
+ * variant and each vendor's metrics (evaluation.ts) - and compared with a stored baseline,
+ * so a prompt or model change that moves accuracy is visible before it ships:
+ * - baseline: per vendor, its result in the latest run saved as a baseline (--baseline)
+ * - drift: change of F1, precision, recall and each field accuracy against the baseline,
+ *   in percentage points. Severity comes from the largest change, using the client plan's
+ *   drift algorithm on the 0-100 scale: < 2 None, < 5 Low, < 10 Medium, < 15 High,
+ *   otherwise Critical. A run's severity is that of its worst vendor.
+ *
+ * Vendor results that name their source document are also written to that document's
+ * validation_results.
+ */
+
+import sql from 'mssql';
+import { EvaluationMetrics } from './evaluation.js';
+
+export const DRIFT_SEVERITIES = ['None', 'Low', 'Medium', 'High', 'Critical'] as const;
+export type DriftSeverity = (typeof DRIFT_SEVERITIES)[number];
+
+// Smallest change (percentage points) at each severity
+export const DRIFT_THRESHOLDS: Record<Exclude<DriftSeverity, 'None'>, number> = {
+  Low: 2,
+  Medium: 5,
+  High: 10,
+  Critical: 15,
+};
+
+export interface MetricDrift {
+  metric: string; // 'f1Score', 'precision', 'recall' or 'fieldAccuracy.<field>'
+  baseline: number;
+  current: number;
+  delta: number; // current - baseline, percentage points
+  severity: DriftSeverity;
+}
+
+export interface VendorDrift {
+  baselineRunId: string;
+  severity: DriftSeverity;
+  regressed: boolean; // A metric dropped by at least the Low threshold
+  metrics: MetricDrift[];
+}
+
+export interface VendorEvaluation {
+  vendor: string;
+  documentId?: string | null; // document_processing_results row the OCR result came from
+  metrics?: EvaluationMetrics;
+  error?: string;
+}
+
+export interface EvaluationRunInput {
+  model: string;
+  promptVariant: string;
+  triggeredBy?: string | null;
+  isBaseline: boolean;
+  vendors: VendorEvaluation[];
+}
+
+export interface BaselineResult {
+  runId: string;
+  metrics: EvaluationMetrics;
+}
+
+export interface SavedEvaluationRun {
+  runId: string;
+  severity: DriftSeverity | null; // null when no vendor had a baseline
+  averageF1: number | null;
+  vendors: Array<VendorEvaluation & { drift: VendorDrift | null }>;
+}
+
+/**
+ * Severity of a change in percentage points (either direction)
+ */
+export function driftSeverity(delta: number): DriftSeverity {
+  const change = Math.abs(delta);
+  if (change < DRIFT_THRESHOLDS.Low) return 'None';
+  if (change < DRIFT_THRESHOLDS.Medium) return 'Low';
+  if (change < DRIFT_THRESHOLDS.High) return 'Medium';
+  if (change < DRIFT_THRESHOLDS.Critical) return 'High';
+  return 'Critical';
+}
+
+export function severityAtLeast(severity: DriftSeverity, minimum: DriftSeverity): boolean {
+  return DRIFT_SEVERITIES.indexOf(severity) >= DRIFT_SEVERITIES.indexOf(minimum);
+}
+
+/**
+ * Worst of several severities, null when there are none
+ */
+export function worstSeverity(severities: Array<DriftSeverity | null>): DriftSeverity | null {
+  return severities.reduce<DriftSeverity | null>(
+    (worst, severity) =>
+      severity !== null && (worst === null || !severityAtLeast(worst, severity)) ? severity : worst,
+    null
+  );
+}
+
+/**
+ * Drift of one vendor's metrics against its baseline. Field accuracies are compared when
+ * both runs measured them.
+ */
+export function compareToBaseline(
+  current: EvaluationMetrics,
+  baseline: BaselineResult
+): VendorDrift {
+  const pairs: Array<[string, number | null, number | null]> = [
+    ['f1Score', baseline.metrics.f1Score, current.f1Score],
+    ['precision', baseline.metrics.precision, current.precision],
+    ['recall', baseline.metrics.recall, current.recall],
+    ...Object.entries(current.fieldAccuracy).map(
+      ([field, value]): [string, number | null, number | null] => [
+        `fieldAccuracy.${field}`,
+        baseline.metrics.fieldAccuracy?.[field as keyof EvaluationMetrics['fieldAccuracy']] ?? null,
+        value,
+      ]
+    ),
+  ];
+
+  const metrics: MetricDrift[] = pairs
+    .filter((pair): pair is [string, number, number] => pair[1] !== null && pair[2] !== null)
+    .map(([metric, baselineValue, currentValue]) => {
+      const delta = Math.round((currentValue - baselineValue) * 100) / 100;
+      return {
+        metric,
+        baseline: baselineValue,
+        current: currentValue,
+        delta,
+        severity: driftSeverity(delta),
+      };
+    });
+
+  return {
+    baselineRunId: baseline.runId,
+    severity: worstSeverity(metrics.map((metric) => metric.severity)) ?? 'None',
+    regressed: metrics.some((metric) => metric.delta <= -DRIFT_THRESHOLDS.Low),
+    metrics,
+  };
+}
+
+/**
+ * Each vendor's result in the latest baseline run that evaluated it
+ */
+export async function getBaselines(pool: sql.ConnectionPool): Promise<Map<string, BaselineResult>> {
+  const result = await pool.request().query(`
+    WITH Ranked AS (
+      SELECT
+        r.vendor_name,
+        r.run_id,
+        r.metrics,
+        ROW_NUMBER() OVER (PARTITION BY r.vendor_name ORDER BY run.created_at DESC) AS rn
+      FROM vvocr.evaluation_results r
+      INNER JOIN vvocr.evaluation_runs run ON run.run_id = r.run_id
+      WHERE run.is_baseline = 1 AND r.metrics IS NOT NULL
+    )
+    SELECT vendor_name, run_id, metrics FROM Ranked WHERE rn = 1
+  `);
+
+  const baselines = new Map<string, BaselineResult>();
+  (result.recordset as Array<{ vendor_name: string; run_id: string; metrics: string }>).forEach(
+    (row) => baselines.set(row.vendor_name, { runId: row.run_id, metrics: JSON.parse(row.metrics) })
+  );
+  return baselines;
+}
+
+/**
+ * Store a golden-set evaluation run with each vendor's drift against the current baseline,
+ * and write each result to its source document's validation_results. A run saved as the
+ * baseline is still compared with the previous one.
+ */
+export async function saveEvaluationRun(
+  pool: sql.ConnectionPool,
+  run: EvaluationRunInput
+): Promise<SavedEvaluationRun> {
+  const baselines = await getBaselines(pool);
+  const vendors = run.vendors.map((vendor) => {
+    const baseline = baselines.get(vendor.vendor);
+    return {
+      ...vendor,
+      drift: vendor.metrics && baseline ? compareToBaseline(vendor.metrics, baseline) : null,
+    };
+  });
+
+  const scores = vendors
+    .filter((vendor) => vendor.metrics)
+    .map((vendor) => vendor.metrics!.f1Score);
+  const averageF1 =
+    scores.length > 0
+      ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100
+      : null;
+  const severity = worstSeverity(vendors.map((vendor) => vendor.drift?.severity ?? null));
+
+  const transaction = new sql.Transaction(pool);
+  await transaction.begin();
+  try {
+    const runResult = await transaction
+      .request()
+      .input('model', sql.NVarChar, run.model)
+      .input('promptVariant', sql.NVarChar, run.promptVariant)
+      .input('triggeredBy', sql.NVarChar, run.triggeredBy || null)
+      .input('isBaseline', sql.Bit, run.isBaseline)
+      .input('vendorCount', sql.Int, vendors.length)
+      .input('vendorsFailed', sql.Int, vendors.length - scores.length)
+      .input('averageF1', sql.Decimal(5, 2), averageF1)
+      .input('driftSeverity', sql.NVarChar, severity).query(`
+        INSERT INTO vvocr.evaluation_runs
+        (model, prompt_variant, triggered_by, is_baseline, vendor_count, vendors_failed,
+         average_f1, drift_severity)
+        OUTPUT INSERTED.run_id, INSERTED.created_at
+        VALUES (@model, @promptVariant, @triggeredBy, @isBaseline, @vendorCount, @vendorsFailed,
+         @averageF1, @driftSeverity)
+      `);
+    const { run_id: runId, created_at: evaluatedAt } = runResult.recordset[0];
+
+    for (const vendor of vendors) {
+      await transaction
+        .request()
+        .input('runId', sql.UniqueIdentifier, runId)
+        .input('vendorName', sql.NVarChar, vendor.vendor)
+        .input('documentId', sql.UniqueIdentifier, vendor.documentId || null)
+        .input('f1Score', sql.Decimal(5, 2), vendor.metrics?.f1Score ?? null)
+        .input('precision', sql.Decimal(5, 2), vendor.metrics?.precision ?? null)
+        .input('recall', sql.Decimal(5, 2), vendor.metrics?.recall ?? null)
+        .input('metrics', sql.NVarChar, vendor.metrics ? JSON.stringify(vendor.metrics) : null)
+        .input('baselineRunId', sql.UniqueIdentifier, vendor.drift?.baselineRunId ?? null)
+        .input('drift', sql.NVarChar, vendor.drift ? JSON.stringify(vendor.drift) : null)
+        .input('driftSeverity', sql.NVarChar, vendor.drift?.severity ?? null)
+        .input('errorMessage', sql.NVarChar, vendor.error ?? null).query(`
+          INSERT INTO vvocr.evaluation_results
+          (run_id, vendor_name, document_id, f1_score, precision_pct, recall_pct, metrics,
+           baseline_run_id, drift, drift_severity, error_message)
+          VALUES (@runId, @vendorName, @documentId, @f1Score, @precision, @recall, @metrics,
+           @baselineRunId, @drift, @driftSeverity, @errorMessage)
+        `);
+
+      if (vendor.documentId && vendor.metrics) {
+        const validation = {
+          evaluationRunId: runId,
+          evaluatedAt,
+          model: run.model,
+          promptVariant: run.promptVariant,
+          benchmark: vendor.vendor,
+          metrics: vendor.metrics,
+          drift: vendor.drift,
+        };
+        await transaction
+          .request()
+          .input('documentId', sql.UniqueIdentifier, vendor.documentId)
+          .input('validation', sql.NVarChar, JSON.stringify(validation)).query(`
+            UPDATE vvocr.document_processing_results
+            SET validation_results = @validation, updated_at = GETUTCDATE()
+            WHERE result_id = @documentId
+          `);
+      }
+    }
+
+    await transaction.commit();
+    return { runId, severity, averageF1, vendors };
+  } catch (error: unknown) {
+    try {
+      await transaction.rollback();
+    } catch {
+      // The original error is more useful than a failed rollback
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Golden Dataset Evaluation
+ *
+ * Scores extracted products against a vendor's benchmark XLSX (test/e2e/docs/<VENDOR>) so
+ * mapping changes can be measured on every vendor without Azure:
+ * - mapOffline runs the mapper's column-mapping logic (productExtraction.ts) on a saved
+ *   OCR result (bronze ocr/{id}.json) with any LLM provider - a recorded or fake response
+ *   keeps it offline and deterministic
+ * - evaluateProducts matches products to benchmark rows like the golden-dataset e2e test:
+ *   exact SKU (case-insensitive), else name similarity above NAME_MATCH_SIMILARITY
+ *   (Levenshtein). Each extracted product matches at most one benchmark row.
+ *
+ * Variants are compared as the rows they export to (see productExport.ts). Percentages
+ * are 0-100; field accuracy is measured over matched pairs that have the field in the
+ * benchmark (null when none do).
+ */
+
+import * as xlsx from 'xlsx';
+import { LlmProvider } from './llmProvider.js';
+import { flattenVariants } from './productExport.js';
+import {
+  extractProducts,
+  mappingMaxTokens,
+  mappingsFromLlmResponse,
+  OcrData,
+  prepareTables,
+} from './productExtraction.js';
+import { Product } from './productSchema.js';
+import { buildColumnMappingPrompt, PromptVariant } from './promptVariants.js';
+import { clusterTableLayouts, ColumnMapping } from './tableLayouts.js';
+
+export const NAME_MATCH_SIMILARITY = 0.8; // Name similarity that counts as the same product
+export const NAME_ACCURACY_SIMILARITY = 0.9; // Name similarity that counts as a correct name
+export const PRICE_TOLERANCE = 0.01; // Relative price difference that counts as correct
+
+export interface BenchmarkProduct {
+  sku: string;
+  name: string;
+  price: number;
+  unit?: string;
+  description?: string;
+}
+
+export interface FieldAccuracy {
+  sku: number | null;
+  name: number | null;
+  price: number | null;
+  unit: number | null;
+  description: number | null;
+}
+
+export interface EvaluationMetrics {
+  totalBenchmark: number;
+  totalExtracted: number;
+  matchedProducts: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  fieldAccuracy: FieldAccuracy;
+  missedSkus: string[]; // Benchmark rows with no extracted match
+  unexpectedSkus: string[]; // Extracted products with no benchmark match
+}
+
+export interface OfflineMappingResult {
+  products: Product[];
+  layoutMappings: ColumnMapping[];
+  rejectedRows: number;
+}
+
+/**
+ * Levenshtein edit distance
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  const matrix: number[][] = [];
+
+  for (let i = 0; i <= b.length; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= a.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      if (b.charAt(i - 1) === a.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        );
+      }
+    }
+  }
+
+  return matrix[b.length][a.length];
+}
+
+/**
+ * Case-insensitive string similarity (0-1 scale)
+ */
+export function stringSimilarity(a: string, b: string): number {
+  const distance = levenshteinDistance(a.toLowerCase(), b.toLowerCase());
+  const maxLength = Math.max(a.length, b.length);
+  return maxLength === 0 ? 1 : 1 - distance / maxLength;
+}
+
+// Header cells that mark a benchmark sheet's header row
+const BENCHMARK_KEY_HEADERS = ['SKU', 'sku', 'Item Code', 'Item #', 'ItemCode', 'Name', 'name'];
+// Only the top of the sheet is searched for the header row (titles sit above it)
+const BENCHMARK_HEADER_SCAN_ROWS = 30;
+
+/**
+ * Benchmark products from the first sheet of a benchmark workbook, with the golden-dataset
+ * test's flexible column names. Title rows above the header row are skipped.
+ */
+export function parseBenchmarkWorkbook(buffer: Buffer): BenchmarkProduct[] {
+  const workbook = xlsx.read(buffer, { type: 'buffer' });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const topRows = xlsx.utils
+    .sheet_to_json<unknown[]>(worksheet, { header: 1, blankrows: true })
+    .slice(0, BENCHMARK_HEADER_SCAN_ROWS);
+  const headerRow = Math.max(
+    0,
+    topRows.findIndex((row) =>
+      row.some((cell) => BENCHMARK_KEY_HEADERS.includes(String(cell ?? '').trim()))
+    )
+  );
+  const range = xlsx.utils.decode_range(worksheet['!ref'] || 'A1');
+  range.s.r += headerRow;
+  const rows = xlsx.utils.sheet_to_json<Record<string, unknown>>(worksheet, { range });
+
+  const products: BenchmarkProduct[] = [];
+  for (const row of rows) {
+    const sku = row.SKU || row.sku || row['Item Code'] || row['Item #'] || row.ItemCode || '';
+    const name =
+      row.Name ||
+      row.name ||
+      row['Product Name'] ||
+      row.ProductName ||
+      row.Item ||
+      row.Description ||
+      '';
+    const price = parseFloat(
+      String(row.Price || row.price || row.Wholesale || row.MSRP || row.Cost || '0').replace(
+        /[^0-9.]/g,
+        ''
+      )
+    );
+    const unit = row.Unit || row.unit || row.Dimensions || row.Size || '';
+    const description = row.Description || row.description || row.Details || '';
+
+    // Only include rows with at least SKU or name
+    if (sku || name) {
+      products.push({
+        sku: String(sku).trim(),
+        name: String(name).trim(),
+        price: price || 0,
+        unit: String(unit).trim(),
+        description: String(description).trim(),
+      });
+    }
+  }
+
+  return products;
+}
+
+/**
+ * Run the mapper's table preparation, Phase 1 column mapping and extraction on a saved
+ * OCR result. Vendor templates, overrides and the LLM fallback pass are not applied.
+ */
+export async function mapOffline(
+  ocrData: OcrData,
+  llm: LlmProvider,
+  promptVariant: PromptVariant = 'default'
+): Promise<OfflineMappingResult> {
+  const { tables } = prepareTables(ocrData);
+  const layouts = clusterTableLayouts(tables);
+  const response = await llm.chatJson({
+    prompt: buildColumnMappingPrompt(promptVariant, layouts, ocrData.content || ''),
+    maxTokens: mappingMaxTokens(layouts.length),
+    temperature: 0,
+  });
+  const layoutMappings = mappingsFromLlmResponse(response.json, layouts);
+  const { products, rejectedRows } = extractProducts(tables, layouts, layoutMappings, {
+    headings: ocrData.headings,
+  });
+  return { products, layoutMappings, rejectedRows: rejectedRows.length };
+}
+
+function percent(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 10000) / 100 : null;
+}
+
+/**
+ * Precision, recall, F1 and per-field accuracy of extracted products against a benchmark
+ */
+export function evaluateProducts(
+  products: Product[],
+  benchmark: BenchmarkProduct[]
+): EvaluationMetrics {
+  const extracted = flattenVariants(products);
+  const used = new Set<number>();
+  const pairs: Array<[BenchmarkProduct, Product]> = [];
+  const missedSkus: string[] = [];
+
+  benchmark.forEach((benchProduct) => {
+    const benchSku = benchProduct.sku.toLowerCase();
+    let foundIdx = extracted.findIndex(
+      (product, idx) => !used.has(idx) && !!benchSku && product.sku.toLowerCase() === benchSku
+    );
+    if (foundIdx === -1 && benchProduct.name) {
+      foundIdx = extracted.findIndex(
+        (product, idx) =>
+          !used.has(idx) &&
+          stringSimilarity(product.name, benchProduct.name) > NAME_MATCH_SIMILARITY
+      );
+    }
+
+    if (foundIdx === -1) {
+      missedSkus.push(benchProduct.sku || benchProduct.name);
+      return;
+    }
+    used.add(foundIdx);
+    pairs.push([benchProduct, extracted[foundIdx]]);
+  });
+
+  const accuracy = (
+    applies: (bench: BenchmarkProduct) => boolean,
+    correct: (bench: BenchmarkProduct, product: Product) => boolean
+  ) => {
+    const measured = pairs.filter(([bench]) => applies(bench));
+    return percent(
+      measured.filter(([bench, product]) => correct(bench, product)).length,
+      measured.length
+    );
+  };
+
+  const matched = pairs.length;
+  const precision = extracted.length > 0 ? matched / extracted.length : 0;
+  const recall = benchmark.length > 0 ? matched / benchmark.length : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return {
+    totalBenchmark: benchmark.length,
+    totalExtracted: extracted.length,
+    matchedProducts: matched,
+    precision: percent(matched, extracted.length) ?? 0,
+    recall: percent(matched, benchmark.length) ?? 0,
+    f1Score: Math.round(f1 * 10000) / 100,
+    fieldAccuracy: {
+      sku: accuracy(
+        (bench) => !!bench.sku,
+        (bench, product) => product.sku.toLowerCase() === bench.sku.toLowerCase()
+      ),
+      name: accuracy(
+        (bench) => !!bench.name,
+        (bench, product) => stringSimilarity(product.name, bench.name) > NAME_ACCURACY_SIMILARITY
+      ),
+      price: accuracy(
+        (bench) => bench.price > 0,
+        (bench, product) =>
+          product.price !== null &&
+          Math.abs(product.price - bench.price) <= bench.price * PRICE_TOLERANCE
+      ),
+      unit: accuracy(
+        (bench) => !!bench.unit,
+        (bench, product) => (product.unit || '').toLowerCase() === (bench.unit || '').toLowerCase()
+      ),
+      description: accuracy(
+        (bench) => !!bench.description,
+        (bench, product) =>
+          stringSimilarity(product.description || product.name, bench.description || '') >
+          NAME_ACCURACY_SIMILARITY
+      ),
+    },
+    missedSkus,
+    unexpectedSkus: extracted.filter((_, idx) => !used.has(idx)).map((product) => product.sku),
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Fallback Extraction
+ *
+ * The column mapping only yields a product when a row has both sku and name at the
+ * mapped columns. Rows that don't are recorded as rejected rows with a reason, and when
+ * LLM_FALLBACK_EXTRACTION=true the mapper sends them - together with the document text
+ * outside tables (doc_intel_extracted_text) - to the LLM in chunks to extract the products
+ * the mapping missed (products split over several cells, lists laid out as paragraphs).
+ *
+ * Every product carries extractionMethod: 'column_mapping' or 'llm_fallback'.
+ */
+
+import { isValidGtin, normalizeUpc, parsePrice, Product, ProductSource } from './productSchema.js';
+
+export const FALLBACK_CHUNK_CHARS = 6000;
+export const FALLBACK_MAX_TOKENS = 4000;
+
+export type RejectReason = 'missing_sku' | 'missing_name' | 'missing_sku_and_name';
+
+export interface RejectedRow {
+  tableIndex: number;
+  rowIndex: number;
+  reason: RejectReason;
+  cells: string[]; // Cell contents in column order
+}
+
+interface TextTable {
+  cells: Array<{ rowIndex?: number; columnIndex?: number; content?: string }>;
+}
+
+export function isFallbackEnabled(env: Record<string, string | undefined> = process.env): boolean {
+  return env.LLM_FALLBACK_EXTRACTION === 'true';
+}
+
+/**
+ * Why a row produced no product, or null when it has both sku and name
+ */
+export function rejectReason(
+  sku: string | undefined,
+  name: string | undefined
+): RejectReason | null {
+  if (!sku && !name) return 'missing_sku_and_name';
+  if (!sku) return 'missing_sku';
+  if (!name) return 'missing_name';
+  return null;
+}
+
+/**
+ * Lines of the extracted text that are not table content. Document Intelligence content
+ * repeats every cell on its own line; parsed spreadsheets (spreadsheetParser.ts) write
+ * one line per row with the non-empty cells joined by " | ", so both forms are matched.
+ * Spreadsheet uploads are not passed here at all: their only text outside the tables is
+ * the rows above the header (titles), so the mapper skips it.
+ */
+export function collectNonTableText(fullText: string, tables: TextTable[]): string[] {
+  const tableText = new Set<string>();
+  tables.forEach((table) => {
+    const rows = new Map<number, Array<{ columnIndex: number; content: string }>>();
+    table.cells.forEach((cell) => {
+      const content = (cell.content || '').trim();
+      tableText.add(content);
+      if (cell.rowIndex === undefined || !content) return;
+      const row = rows.get(cell.rowIndex) || [];
+      row.push({ columnIndex: cell.columnIndex ?? 0, content });
+      rows.set(cell.rowIndex, row);
+    });
+    rows.forEach((cells) =>
+      tableText.add(
+        cells
+          .sort((a, b) => a.columnIndex - b.columnIndex)
+          .map((cell) => cell.content)
+          .join(' | ')
+      )
+    );
+  });
+  return fullText
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => /[a-z0-9]/i.test(line) && !tableText.has(line));
+}
+
+/**
+ * Split rejected rows and non-table text into prompt-sized chunks. Lines are never split;
+ * a line longer than maxChars becomes a chunk of its own.
+ */
+export function buildFallbackChunks(
+  rejectedRows: RejectedRow[],
+  textLines: string[],
+  maxChars = FALLBACK_CHUNK_CHARS
+): string[] {
+  const lines = [
+    ...rejectedRows.map(
+      (row) => `[table ${row.tableIndex} row ${row.rowIndex}] ${row.cells.join(' | ')}`
+    ),
+    ...textLines,
+  ];
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentChars = 0;
+  lines.forEach((line) => {
+    if (current.length > 0 && currentChars + line.length + 1 > maxChars) {
+      chunks.push(current.join('\n'));
+      current = [];
+      currentChars = 0;
+    }
+    current.push(line);
+    currentChars += line.length + 1;
+  });
+  if (current.length > 0) chunks.push(current.join('\n'));
+
+  return chunks;
+}
+
+export function buildFallbackPrompt(chunk: string): string {
+  return `You are extracting products from a vendor price list. The lines below are table rows
+that could not be parsed with the detected column mapping ("[table T row R]" followed by the
+row's cells separated by "|") and text found outside the tables.
+
+Extract every PRODUCT you can identify. A product needs a SKU (item code) and a name; the price
+may be missing. Ignore category headings, column headers, page headers/footers, notes and terms.
+Do not invent values - use null for anything not present.
+
+Return JSON:
+{
+  "products": [
+    {
+      "sku": "item code",
+      "name": "product name",
+      "price": number or null,
+      "unit": string or null,
+      "description": string or null,
+      "cost": number or null,
+      "map": number or null,
+      "msrp": number or null,
+      "upc": string or null,
+      "moq": number or null,
+      "category": string or null,
+      "packSize": string or null,
+      "sourceRow": "table T row R" from the line's tag, or null for text outside tables
+    }
+  ]
+}
+
+Lines:
+${chunk}`;
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+function optionalPrice(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : parsePrice(optionalString(value));
+}
+
+/**
+ * Products from a fallback LLM response, validated like column-mapped products
+ * (sku and name required, UPCs must pass the check digit). Tagged 'llm_fallback'.
+ * resolveRow turns the sourceRow the LLM reports into provenance for that table row.
+ */
+export function parseFallbackProducts(
+  json: Record<string, unknown>,
+  resolveRow?: (tableIndex: number, rowIndex: number) => ProductSource | undefined
+): Product[] {
+  const items = Array.isArray(json.products) ? (json.products as Record<string, unknown>[]) : [];
+  const products: Product[] = [];
+
+  items.forEach((item) => {
+    const sku = optionalString(item?.sku);
+    const name = optionalString(item?.name);
+    if (!sku || !name) return;
+
+    const product: Product = {
+      name,
+      sku,
+      price: optionalPrice(item.price) ?? null,
+      extractionMethod: 'llm_fallback',
+    };
+
+    const unit = optionalString(item.unit);
+    const description = optionalString(item.description);
+    const category = optionalString(item.category);
+    const packSize = optionalString(item.packSize);
+    if (unit) product.unit = unit;
+    if (description) product.description = description;
+    if (category) product.category = category;
+    if (packSize) product.packSize = packSize;
+
+    const cost = optionalPrice(item.cost);
+    const map = optionalPrice(item.map);
+    const msrp = optionalPrice(item.msrp);
+    if (cost !== undefined) product.cost = cost;
+    if (map !== undefined) product.map = map;
+    if (msrp !== undefined) product.msrp = msrp;
+
+    const upc = optionalString(item.upc);
+    if (upc && isValidGtin(normalizeUpc(upc))) product.upc = normalizeUpc(upc);
+
+    const moq = typeof item.moq === 'number' ? item.moq : parseInt(String(item.moq ?? ''), 10);
+    if (Number.isFinite(moq)) product.moq = moq;
+
+    const sourceRow = optionalString(item.sourceRow)?.match(/table (\d+) row (\d+)/);
+    const source =
+      sourceRow && resolveRow?.(parseInt(sourceRow[1], 10), parseInt(sourceRow[2], 10));
+    if (source) product.source = source;
+
+    products.push(product);
+  });
+
+  return products;
+}
@@ -0,0 +1,29 @@
+/**
+ * HTTP Helpers
+ *
+ * Shared by the HTTP functions: JSON responses with the CORS header every endpoint
+ * sends, and validation of UUID parameters before they reach a UniqueIdentifier input
+ * (mssql rejects a malformed id with a conversion error, which would surface as a 500).
+ */
+
+import { HttpResponseInit } from '@azure/functions';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * JSON response with the CORS header
+ */
+export function jsonResponse(status: number, body: unknown): HttpResponseInit {
+  return {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+    body: JSON.stringify(body),
+  };
+}
+
+export function isUuid(value: string): boolean {
+  return UUID_REGEX.test(value);
+}
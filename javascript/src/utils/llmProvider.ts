@@ -0,0 +1,189 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * The product mapper talks to an LlmProvider instead of constructing an OpenAI client
+ * inline, so models can be compared and the mapper can run offline. Selected by
+ * LLM_PROVIDER:
+ * - azure-openai (default): Azure AI Foundry deployment at AI_PROJECT_ENDPOINT / AI_PROJECT_KEY,
+ *   API version AZURE_OPENAI_API_VERSION
+ * - openai-compatible: any /chat/completions server (OpenAI, vLLM, Ollama, ...) at
+ *   LLM_BASE_URL with LLM_API_KEY - e.g. Llama or Mistral models
+ * - fake: deterministic, no network - answers with LLM_FAKE_RESPONSE (JSON) or {}
+ *
+ * The model (Azure deployment name) comes from the reprocess override, then AI_MODEL_NAME,
+ * then gpt-4o. Pricing comes from pricingCatalog.ts, or LLM_INPUT_COST_PER_1K /
+ * LLM_OUTPUT_COST_PER_1K when set (models not in the catalog are free on self-hosted servers).
+ */
+
+import { OpenAI } from 'openai';
+import { getLlmPrice, LlmPrice, TokenUsage } from './pricingCatalog.js';
+
+export const LLM_PROVIDERS = ['azure-openai', 'openai-compatible', 'fake'] as const;
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+export const DEFAULT_LLM_MODEL = 'gpt-4o';
+const DEFAULT_AZURE_API_VERSION = '2024-08-01-preview';
+
+export interface LlmUsage extends TokenUsage {
+  totalTokens: number;
+}
+
+export interface LlmJsonRequest {
+  prompt: string;
+  // Structured output schema; without one the provider uses plain JSON mode.
+  // json_schema needs a model version that supports structured outputs.
+  schema?: { name: string; schema: Record<string, unknown> };
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LlmJsonResponse {
+  json: Record<string, unknown>;
+  rawContent: string;
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  readonly pricing: LlmPrice;
+  chatJson(request: LlmJsonRequest): Promise<LlmJsonResponse>;
+}
+
+type Env = Record<string, string | undefined>;
+
+function resolvePricing(name: LlmProviderName, model: string, env: Env): LlmPrice {
+  if (env.LLM_INPUT_COST_PER_1K !== undefined || env.LLM_OUTPUT_COST_PER_1K !== undefined) {
+    return {
+      inputPer1K: parseFloat(env.LLM_INPUT_COST_PER_1K || '0') || 0,
+      outputPer1K: parseFloat(env.LLM_OUTPUT_COST_PER_1K || '0') || 0,
+    };
+  }
+  const price = getLlmPrice(model);
+  if (price) return price;
+  // Azure deployments are named freely - charge unknown ones at gpt-4o rates rather than $0
+  return name === 'azure-openai'
+    ? getLlmPrice(DEFAULT_LLM_MODEL)!
+    : { inputPer1K: 0, outputPer1K: 0 };
+}
+
+/**
+ * Azure OpenAI and OpenAI-compatible servers share the chat completions API
+ */
+function createChatCompletionsProvider(
+  name: LlmProviderName,
+  model: string,
+  pricing: LlmPrice,
+  client: OpenAI
+): LlmProvider {
+  return {
+    name,
+    model,
+    pricing,
+    async chatJson(request) {
+      const response = await client.chat.completions.create({
+        model,
+        messages: [{ role: 'user', content: request.prompt }],
+        response_format: request.schema
+          ? {
+              type: 'json_schema',
+              json_schema: {
+                name: request.schema.name,
+                schema: request.schema.schema,
+                strict: false,
+              },
+            }
+          : { type: 'json_object' },
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      });
+
+      const rawContent = response.choices[0].message.content || '{}';
+      const promptTokens = response.usage?.prompt_tokens || 0;
+      const completionTokens = response.usage?.completion_tokens || 0;
+
+      return {
+        json: JSON.parse(rawContent),
+        rawContent,
+        usage: {
+          promptTokens,
+          completionTokens,
+          cachedPromptTokens: response.usage?.prompt_tokens_details?.cached_tokens || 0,
+          totalTokens: promptTokens + completionTokens,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Deterministic offline provider. Token counts are estimated at ~4 characters per token
+ * so cost and usage reporting still have values to work with.
+ */
+export function createFakeLlmProvider(
+  respond: (request: LlmJsonRequest) => Record<string, unknown> = () => ({}),
+  model = 'fake'
+): LlmProvider {
+  return {
+    name: 'fake',
+    model,
+    pricing: { inputPer1K: 0, outputPer1K: 0 },
+    async chatJson(request) {
+      const json = respond(request);
+      const rawContent = JSON.stringify(json);
+      const promptTokens = Math.ceil(request.prompt.length / 4);
+      const completionTokens = Math.ceil(rawContent.length / 4);
+
+      return {
+        json,
+        rawContent,
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      };
+    },
+  };
+}
+
+/**
+ * Build the provider configured by LLM_PROVIDER. Throws when its settings are missing.
+ */
+export function createLlmProvider(
+  options: { model?: string } = {},
+  env: Env = process.env
+): LlmProvider {
+  const name = (env.LLM_PROVIDER || 'azure-openai') as LlmProviderName;
+  if (!LLM_PROVIDERS.includes(name)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER '${name}'. Allowed providers: ${LLM_PROVIDERS.join(', ')}`
+    );
+  }
+
+  if (name === 'fake') {
+    const fixture = env.LLM_FAKE_RESPONSE ? JSON.parse(env.LLM_FAKE_RESPONSE) : {};
+    return createFakeLlmProvider(() => fixture, options.model || 'fake');
+  }
+
+  const model = options.model || env.AI_MODEL_NAME || DEFAULT_LLM_MODEL;
+  const pricing = resolvePricing(name, model, env);
+
+  if (name === 'openai-compatible') {
+    if (!env.LLM_BASE_URL) {
+      throw new Error('Missing LLM_BASE_URL for openai-compatible provider');
+    }
+    const client = new OpenAI({
+      apiKey: env.LLM_API_KEY || 'not-needed', // Local servers usually ignore the key
+      baseURL: env.LLM_BASE_URL,
+    });
+    return createChatCompletionsProvider(name, model, pricing, client);
+  }
+
+  if (!env.AI_PROJECT_ENDPOINT || !env.AI_PROJECT_KEY) {
+    throw new Error('Missing AI project configuration');
+  }
+  const client = new OpenAI({
+    apiKey: env.AI_PROJECT_KEY,
+    baseURL: `${env.AI_PROJECT_ENDPOINT}/openai/deployments/${model}`,
+    defaultQuery: { 'api-version': env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION },
+    defaultHeaders: { 'api-key': env.AI_PROJECT_KEY },
+  });
+  return createChatCompletionsProvider(name, model, pricing, client);
+}
@@ -0,0 +1,110 @@
+/**
+ * Reprocess Mapping Overrides
+ *
+ * Options a reprocess can set for its new version (stored as JSON in
+ * document_processing_results.mapping_overrides and read by aiProductMapper):
+ * - model: model / Azure OpenAI deployment name (default from llmProvider.ts)
+ * - promptVariant: named column mapping prompt (see promptVariants.ts)
+ * - temperature: 0-2 (default 0)
+ * - columnMapping / layouts: explicit column mapping - skips the template and LLM entirely
+ */
+
+import { PROMPT_VARIANTS, PromptVariant } from './promptVariants.js';
+import { MAPPABLE_FIELDS } from './productSchema.js';
+import { ColumnMapping } from './tableLayouts.js';
+
+// Deployment names end up in the request URL
+const MODEL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export interface MappingOverrides {
+  model?: string;
+  promptVariant?: PromptVariant;
+  temperature?: number;
+  columnMapping?: ColumnMapping; // Applies to every layout
+  layouts?: Array<{ layoutId: number; columnMapping: ColumnMapping }>; // Per-layout mappings
+}
+
+function validateColumnMapping(mapping: unknown, label: string): string | null {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return `${label} must be an object of field → column index`;
+  }
+
+  for (const [field, columnIndex] of Object.entries(mapping)) {
+    if (!(MAPPABLE_FIELDS as readonly string[]).includes(field)) {
+      return `${label} has unknown field '${field}'. Allowed fields: ${MAPPABLE_FIELDS.join(', ')}`;
+    }
+    if (columnIndex !== null && (!Number.isInteger(columnIndex) || (columnIndex as number) < 0)) {
+      return `${label}.${field} must be a column index (0 or greater) or null`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate override fields from a reprocess request body.
+ * Returns null overrides when none were given.
+ */
+export function parseMappingOverrides(body: Record<string, unknown>): {
+  overrides: MappingOverrides | null;
+  error?: string;
+} {
+  const overrides: MappingOverrides = {};
+
+  if (body.model !== undefined) {
+    if (typeof body.model !== 'string' || !MODEL_PATTERN.test(body.model)) {
+      return { overrides: null, error: 'model must be a deployment name (letters, digits, . _ -)' };
+    }
+    overrides.model = body.model;
+  }
+
+  if (body.promptVariant !== undefined) {
+    if (!PROMPT_VARIANTS.includes(body.promptVariant as PromptVariant)) {
+      return {
+        overrides: null,
+        error: `Unknown promptVariant '${body.promptVariant}'. Allowed variants: ${PROMPT_VARIANTS.join(', ')}`,
+      };
+    }
+    overrides.promptVariant = body.promptVariant as PromptVariant;
+  }
+
+  if (body.temperature !== undefined) {
+    const temperature = body.temperature;
+    if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+      return { overrides: null, error: 'temperature must be a number between 0 and 2' };
+    }
+    overrides.temperature = temperature;
+  }
+
+  if (body.columnMapping !== undefined) {
+    const error = validateColumnMapping(body.columnMapping, 'columnMapping');
+    if (error) return { overrides: null, error };
+    overrides.columnMapping = body.columnMapping as ColumnMapping;
+  }
+
+  if (body.layouts !== undefined) {
+    if (!Array.isArray(body.layouts)) {
+      return { overrides: null, error: 'layouts must be an array of { layoutId, columnMapping }' };
+    }
+    for (const entry of body.layouts) {
+      if (!Number.isInteger(entry?.layoutId) || entry.layoutId < 0) {
+        return { overrides: null, error: 'layouts[].layoutId must be a layout index' };
+      }
+      const error = validateColumnMapping(
+        entry.columnMapping,
+        `layouts[${entry.layoutId}].columnMapping`
+      );
+      if (error) return { overrides: null, error };
+    }
+    overrides.layouts = body.layouts;
+  }
+
+  return { overrides: Object.keys(overrides).length > 0 ? overrides : null };
+}
+
+/**
+ * Whether the overrides carry a user-supplied column mapping (no template/LLM needed)
+ */
+export function hasManualMapping(overrides: MappingOverrides | null): boolean {
+  return Boolean(overrides?.columnMapping || overrides?.layouts);
+}
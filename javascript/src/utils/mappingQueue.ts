@@ -0,0 +1,37 @@
+/**
+ * AI Mapping Queue Utilities
+ *
+ * Messages on "ai-mapping-queue" trigger aiProductMapperQueue.ts. Both the OCR
+ * processor (new uploads) and reprocessMapping (new versions) enqueue through
+ * here so the message format stays in one place.
+ *
+ * Status progression of a document_processing_results row:
+ *   pending → processing → ocr_complete → mapping_queued → mapping → completed | failed
+ * OCR or mapping that would exceed a spend cap parks the row in budget_blocked instead
+ * (see budget.ts). Once the budget allows, rows blocked at mapping are resumed with
+ * POST /api/aiProductMapper and uploads blocked before OCR with POST /api/resumeDocument.
+ */
+
+import { QueueServiceClient } from '@azure/storage-queue';
+
+export const AI_MAPPING_QUEUE = 'ai-mapping-queue';
+
+// Statuses after which the mapper has nothing left to do for a row (until retried)
+export const TERMINAL_STATUSES = ['completed', 'failed', 'budget_blocked'];
+
+/**
+ * Send a documentId to the AI mapping queue. Returns the queue message id.
+ * Messages are base64-encoded JSON (the Functions queue trigger default).
+ */
+export async function enqueueAiMapping(documentId: string): Promise<string> {
+  const queueServiceClient = QueueServiceClient.fromConnectionString(
+    process.env.STORAGE_CONNECTION_STRING!
+  );
+  const queueClient = queueServiceClient.getQueueClient(AI_MAPPING_QUEUE);
+  await queueClient.createIfNotExists();
+
+  const response = await queueClient.sendMessage(
+    Buffer.from(JSON.stringify({ documentId })).toString('base64')
+  );
+  return response.messageId;
+}
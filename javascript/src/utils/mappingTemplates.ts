@@ -0,0 +1,193 @@
+/**
+ * Vendor Mapping Template Utilities
+ *
+ * A mapping template remembers how a vendor's price list headers map to our
+ * product fields (e.g. "Item #" → sku, "Wholesale" → price). Templates are
+ * saved when a mapping is confirmed and keyed by the vendor base name
+ * (BETTER_LIVING_11_25 → BETTER_LIVING), so next month's upload from the same
+ * vendor can be mapped without calling the LLM.
+ */
+
+import sql from 'mssql';
+import { MAPPABLE_FIELDS, MappableField } from './productSchema.js';
+
+export const TEMPLATE_FIELDS = MAPPABLE_FIELDS;
+export type TemplateField = MappableField;
+
+// Fields that must be found in the document headers for a template to apply
+const REQUIRED_TEMPLATE_FIELDS: TemplateField[] = ['sku', 'name'];
+
+export const FIELD_TRANSFORMS = ['uppercase', 'lowercase', 'collapseWhitespace'] as const;
+export type FieldTransform = (typeof FIELD_TRANSFORMS)[number];
+
+export interface MappingTemplate {
+  vendorBaseName: string;
+  headerMapping: Partial<Record<TemplateField, string>>; // field → header text
+  transforms: Partial<Record<TemplateField, FieldTransform[]>>;
+  defaultValues: Partial<Record<TemplateField, string>>;
+}
+
+interface HeaderTable {
+  cells: Array<{ kind: string; content?: string; columnIndex: number }>;
+}
+
+/**
+ * Normalize header text for comparison ("  ITEM  #\n" → "item #")
+ */
+export function normalizeHeader(header: string): string {
+  return header.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Build field → header text from a column index mapping, using the first
+ * table that has a header at each mapped column.
+ */
+export function buildHeaderMapping(
+  tables: HeaderTable[],
+  columnMapping: Record<string, number | null | undefined>
+): Partial<Record<TemplateField, string>> {
+  const headerMapping: Partial<Record<TemplateField, string>> = {};
+
+  for (const field of TEMPLATE_FIELDS) {
+    const colIdx = columnMapping[field];
+    if (colIdx === null || colIdx === undefined) continue;
+
+    for (const table of tables) {
+      const header = table.cells.find(
+        (c) => c.kind === 'columnHeader' && c.columnIndex === colIdx && c.content?.trim()
+      );
+      if (header) {
+        headerMapping[field] = header.content!.replace(/\s+/g, ' ').trim();
+        break;
+      }
+    }
+  }
+
+  return headerMapping;
+}
+
+/**
+ * Resolve a template against a document's headers.
+ *
+ * Returns a column index mapping when every header saved in the template is
+ * present in the document (so a renamed or dropped column falls back to the LLM),
+ * otherwise null.
+ */
+export function matchTemplate(
+  template: MappingTemplate,
+  tables: HeaderTable[]
+): Record<TemplateField, number | null> | null {
+  const headerIndex = new Map<string, number>();
+  for (const table of tables) {
+    for (const cell of table.cells) {
+      if (cell.kind !== 'columnHeader' || !cell.content) continue;
+      const key = normalizeHeader(cell.content);
+      if (!headerIndex.has(key)) headerIndex.set(key, cell.columnIndex);
+    }
+  }
+
+  const columnMapping = {} as Record<TemplateField, number | null>;
+  for (const field of TEMPLATE_FIELDS) {
+    const header = template.headerMapping[field];
+    if (!header) {
+      columnMapping[field] = null;
+      continue;
+    }
+    const colIdx = headerIndex.get(normalizeHeader(header));
+    if (colIdx === undefined) return null;
+    columnMapping[field] = colIdx;
+  }
+
+  if (REQUIRED_TEMPLATE_FIELDS.some((field) => columnMapping[field] === null)) {
+    return null;
+  }
+
+  return columnMapping;
+}
+
+/**
+ * Apply a template's transforms and default values to an extracted string field
+ */
+export function applyFieldRules(
+  template: MappingTemplate,
+  field: TemplateField,
+  value: string | undefined
+): string | undefined {
+  let result = value;
+  for (const transform of template.transforms[field] || []) {
+    if (!result) break;
+    if (transform === 'uppercase') result = result.toUpperCase();
+    else if (transform === 'lowercase') result = result.toLowerCase();
+    else if (transform === 'collapseWhitespace') result = result.replace(/\s+/g, ' ').trim();
+  }
+  return result || template.defaultValues[field] || undefined;
+}
+
+/**
+ * Load the mapping template for a vendor base name, if one has been confirmed
+ */
+export async function getMappingTemplate(
+  pool: sql.ConnectionPool,
+  vendorBaseName: string
+): Promise<MappingTemplate | null> {
+  const result = await pool.request().input('vendorBaseName', sql.NVarChar, vendorBaseName).query(`
+      SELECT vendor_base_name, header_mapping, transforms, default_values
+      FROM vvocr.vendor_mapping_templates
+      WHERE vendor_base_name = @vendorBaseName
+    `);
+
+  const row = result.recordset?.[0];
+  if (!row) return null;
+
+  return {
+    vendorBaseName: row.vendor_base_name,
+    headerMapping: JSON.parse(row.header_mapping || '{}'),
+    transforms: JSON.parse(row.transforms || '{}'),
+    defaultValues: JSON.parse(row.default_values || '{}'),
+  };
+}
+
+/**
+ * Create or replace the mapping template for a vendor base name
+ */
+export async function saveMappingTemplate(
+  pool: sql.ConnectionPool,
+  template: MappingTemplate,
+  sourceDocumentId: string
+): Promise<void> {
+  await pool
+    .request()
+    .input('vendorBaseName', sql.NVarChar, template.vendorBaseName)
+    .input('headerMapping', sql.NVarChar, JSON.stringify(template.headerMapping))
+    .input('transforms', sql.NVarChar, JSON.stringify(template.transforms))
+    .input('defaultValues', sql.NVarChar, JSON.stringify(template.defaultValues))
+    .input('sourceDocumentId', sql.UniqueIdentifier, sourceDocumentId).query(`
+      MERGE vvocr.vendor_mapping_templates AS target
+      USING (SELECT @vendorBaseName AS vendor_base_name) AS source
+      ON target.vendor_base_name = source.vendor_base_name
+      WHEN MATCHED THEN
+        UPDATE SET
+          header_mapping = @headerMapping,
+          transforms = @transforms,
+          default_values = @defaultValues,
+          source_document_id = @sourceDocumentId,
+          updated_at = GETUTCDATE()
+      WHEN NOT MATCHED THEN
+        INSERT (vendor_base_name, header_mapping, transforms, default_values, source_document_id)
+        VALUES (@vendorBaseName, @headerMapping, @transforms, @defaultValues, @sourceDocumentId);
+    `);
+}
+
+/**
+ * Track template usage (for spotting stale templates)
+ */
+export async function recordTemplateUse(
+  pool: sql.ConnectionPool,
+  vendorBaseName: string
+): Promise<void> {
+  await pool.request().input('vendorBaseName', sql.NVarChar, vendorBaseName).query(`
+    UPDATE vvocr.vendor_mapping_templates
+    SET times_applied = times_applied + 1, last_applied_at = GETUTCDATE()
+    WHERE vendor_base_name = @vendorBaseName
+  `);
+}
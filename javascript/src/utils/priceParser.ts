@@ -0,0 +1,195 @@
+/**
+ * Price Parser
+ *
+ * Turns a price cell into a structured price instead of a bare number:
+ * - Currency from symbols ($, €, £, ¥, C$, A$, US$) or ISO codes ("12.50 USD")
+ * - Locale formats: "1,234.50", "1.234,50", "1'234.50", non-breaking space thousands.
+ *   A lone separator followed by three digits ("1,234" / "1.234") is a thousands
+ *   separator, unless the currency is written with decimal commas (EUR); without a
+ *   currency that guess lowers the confidence
+ * - Per-unit suffixes: "$12.50/dz", "$3 per case", "$4.00 ea"
+ * - Quantity break tiers: "1-11: $5.00 12+: $4.50" - amount is the lowest-quantity tier
+ * - Ranges: "$10 - $15" - amount is the low end
+ * - Placeholders: "CALL", "N/A", "TBD", "POA" - amount null, never 0
+ *
+ * confidence (0-1) is how sure the amount is: 1 for a single clean amount, lower for
+ * tiers, ranges, ambiguous separators or extra text, 0 when nothing could be parsed.
+ */
+
+export interface PriceTier {
+  minQuantity: number;
+  maxQuantity: number | null; // null for open-ended tiers ("12+")
+  amount: number;
+}
+
+export interface ParsedPrice {
+  amount: number | null;
+  currency: string | null; // ISO 4217 code
+  perUnit: string | null; // "dz", "case", "ea", "100"
+  tiers: PriceTier[];
+  range: { min: number; max: number } | null;
+  placeholder: string | null; // Upper-cased placeholder text, e.g. "CALL"
+  confidence: number;
+  raw: string;
+}
+
+// Prices below this confidence are counted for review in the mapping quality metrics
+export const PRICE_REVIEW_CONFIDENCE = 0.8;
+
+// Checked in order - prefixed dollars before the bare $
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+  [/CA?\$/, 'CAD'],
+  [/AU?\$/, 'AUD'],
+  [/US\$/, 'USD'],
+  [/€/, 'EUR'],
+  [/£/, 'GBP'],
+  [/¥/, 'JPY'],
+  [/\$/, 'USD'],
+];
+const CURRENCY_CODE = /\b(USD|EUR|GBP|CAD|AUD|CHF|JPY|MXN|CNY)\b/i;
+const CURRENCY_TOKENS = /\b(?:USD|EUR|GBP|CAD|AUD|CHF|JPY|MXN|CNY)\b|[A-Z]{0,2}[$€£¥]/gi;
+const DECIMAL_COMMA_CURRENCIES = ['EUR'];
+
+const PLACEHOLDER =
+  /^(?:call(?: for (?:price|pricing|quote))?|n\/?a|tbd|tba|poa|quote|(?:price )?on request|[-–—]+)$/i;
+const NUMBER = /\d+(?:[.,'’\u00a0\u202f]\d+)*/;
+const PER_UNIT = /(?:\/|\bper\b)\s*(\d+|[a-z][a-z.]*)|\b(ea|each)\b\.?/gi;
+// Quantity, then the tier price after a delimiter or currency ("1-11: $5.00", "12+ @ 4.50",
+// "1-11 $5.00"); not preceded by a currency or digit. Quantities are whole numbers, so
+// "10-15" cannot split 15 into a quantity and a price.
+const TIER = new RegExp(
+  `(?<![\\d.,$€£¥])(\\d+)(?!\\d)\\s*(?:[-–]\\s*(\\d+)(?!\\d)|\\+)\\s*(?:pcs?|units?)?\\s*(?:[:@=]\\s*[$€£¥]?|[$€£¥])\\s*(${NUMBER.source})`,
+  'gi'
+);
+// "$10 - $15", "$10-15", "10 to 15"; "12 - $30" (a quantity, then a price) is not a range
+const RANGE = new RegExp(
+  `([$€£¥])?\\s*(${NUMBER.source})\\s*(?:[-–]|\\bto\\b)\\s*([$€£¥])?\\s*(${NUMBER.source})`,
+  'i'
+);
+
+function detectCurrency(text: string): string | null {
+  const symbol = CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(text));
+  if (symbol) return symbol[1];
+  return text.match(CURRENCY_CODE)?.[1].toUpperCase() ?? null;
+}
+
+/**
+ * Parse one number token with locale-aware separators. ambiguous is set when a lone
+ * separator followed by three digits had to be guessed.
+ */
+export function parseLocaleNumber(
+  token: string,
+  decimalComma = false
+): { value: number; ambiguous: boolean } {
+  const separators = token.match(/[.,'’\u00a0\u202f]/g) || [];
+  if (separators.length === 0) return { value: parseInt(token, 10), ambiguous: false };
+
+  const lastSep = separators[separators.length - 1];
+  const lastGroup = token.slice(token.lastIndexOf(lastSep) + 1);
+  let decimalSep: string | null = null;
+  let ambiguous = false;
+
+  if (lastSep === '.' || lastSep === ',') {
+    if (separators.filter((sep) => sep === lastSep).length > 1) {
+      decimalSep = null; // "1.234.567" / "1,234,567"
+    } else if (separators.some((sep) => sep !== lastSep) || lastGroup.length !== 3) {
+      decimalSep = lastSep; // "1.234,50", "1'234.50", "12,5"
+    } else {
+      ambiguous = true;
+      decimalSep = (lastSep === ',') === decimalComma ? lastSep : null;
+    }
+  }
+
+  const integerPart = decimalSep ? token.slice(0, token.lastIndexOf(decimalSep)) : token;
+  const digits = integerPart.replace(/\D/g, '') + (decimalSep ? `.${lastGroup}` : '');
+  return { value: parseFloat(digits), ambiguous };
+}
+
+/**
+ * Parse a price cell. decimalComma forces "1.234" → 1234 and "12,500" → 12.5 regardless
+ * of the detected currency.
+ */
+export function parsePriceText(
+  value: string | number | null | undefined,
+  options: { decimalComma?: boolean } = {}
+): ParsedPrice {
+  const raw = value === null || value === undefined ? '' : String(value).trim();
+  const result: ParsedPrice = {
+    amount: null,
+    currency: null,
+    perUnit: null,
+    tiers: [],
+    range: null,
+    placeholder: null,
+    confidence: 0,
+    raw,
+  };
+
+  if (typeof value === 'number') {
+    if (Number.isFinite(value)) Object.assign(result, { amount: value, confidence: 1 });
+    return result;
+  }
+  if (!raw) return result;
+  if (PLACEHOLDER.test(raw)) {
+    return { ...result, placeholder: raw.toUpperCase(), confidence: 1 };
+  }
+
+  result.currency = detectCurrency(raw);
+  const decimalComma =
+    options.decimalComma ?? DECIMAL_COMMA_CURRENCIES.includes(result.currency || '');
+  let ambiguous = false;
+  const toNumber = (token: string) => {
+    const parsed = parseLocaleNumber(token, decimalComma);
+    if (parsed.ambiguous && !result.currency && options.decimalComma === undefined) {
+      ambiguous = true;
+    }
+    return parsed.value;
+  };
+
+  let text = raw;
+  const unitMatch = [...raw.matchAll(PER_UNIT)][0];
+  if (unitMatch) {
+    result.perUnit = (unitMatch[1] || unitMatch[2]).toLowerCase().replace(/\.$/, '');
+    text = text.replace(PER_UNIT, ' ');
+  }
+
+  const tiers = [...text.matchAll(TIER)]
+    .map((match) => ({
+      minQuantity: parseInt(match[1], 10),
+      maxQuantity: match[2] ? parseInt(match[2], 10) : null,
+      amount: match[3],
+    }))
+    .filter((tier) => tier.maxQuantity === null || tier.maxQuantity >= tier.minQuantity);
+  if (tiers.length > 0) {
+    result.tiers = tiers
+      .map((tier) => ({ ...tier, amount: toNumber(tier.amount) }))
+      .sort((a, b) => a.minQuantity - b.minQuantity);
+    result.amount = result.tiers[0].amount;
+    result.confidence = ambiguous ? 0.6 : 0.9;
+    return result;
+  }
+
+  const range = text.match(RANGE);
+  if (range && (range[1] || !range[3])) {
+    const [min, max] = [toNumber(range[2]), toNumber(range[4])].sort((a, b) => a - b);
+    result.range = { min, max };
+    result.amount = min;
+    result.confidence = ambiguous ? 0.5 : 0.7;
+    return result;
+  }
+
+  const numbers: string[] = text.match(new RegExp(NUMBER.source, 'g')) || [];
+  if (numbers.length === 0) return result;
+
+  // "Set of 2 $12.00" - prefer the number next to a currency symbol
+  const currencyAmount = text.match(new RegExp(`[$€£¥]\\s*(${NUMBER.source})`));
+  const token = currencyAmount ? currencyAmount[1] : numbers[0];
+  result.amount = toNumber(token);
+  const leftover = text
+    .replace(token, '')
+    .replace(CURRENCY_TOKENS, '')
+    .replace(/[\s*:=]/g, '');
+  result.confidence = numbers.length > 1 ? 0.5 : leftover ? 0.7 : 1;
+  if (ambiguous) result.confidence = Math.min(result.confidence, 0.6);
+  return result;
+}
@@ -0,0 +1,131 @@
+/**
+ * Pricing Catalog
+ *
+ * List prices (USD) for the LLM models and Document Intelligence models we call, kept as a
+ * history per model so a run is charged the price that was in effect when it ran.
+ * Used by aiProductMapper (ai_model_cost_usd) and documentProcessor (doc_intel_cost_usd);
+ * total_cost_usd is the sum of both.
+ *
+ * When Azure changes a price, append an entry with its effective date (never edit past
+ * entries) and bump PRICING_CATALOG_VERSION.
+ */
+
+export const PRICING_CATALOG_VERSION = '2025-04-14';
+
+// Azure OpenAI Batch API: 50% off input and output tokens
+export const BATCH_DISCOUNT = 0.5;
+
+// USD per 1K tokens
+export interface LlmPrice {
+  inputPer1K: number;
+  cachedInputPer1K?: number; // Prompt-cache hits; billed as regular input when absent
+  outputPer1K: number;
+}
+
+// USD per 1K pages
+export interface DocIntelPrice {
+  per1KPages: number;
+}
+
+type PriceHistory<T> = Array<T & { effectiveFrom: string }>; // ISO dates, ascending
+
+const LLM_PRICES: Record<string, PriceHistory<LlmPrice>> = {
+  'gpt-4o': [
+    { effectiveFrom: '2024-05-13', inputPer1K: 0.005, outputPer1K: 0.015 },
+    {
+      effectiveFrom: '2024-10-01',
+      inputPer1K: 0.0025,
+      cachedInputPer1K: 0.00125,
+      outputPer1K: 0.01,
+    },
+  ],
+  'gpt-4o-mini': [
+    {
+      effectiveFrom: '2024-07-18',
+      inputPer1K: 0.00015,
+      cachedInputPer1K: 0.000075,
+      outputPer1K: 0.0006,
+    },
+  ],
+  'gpt-4.1': [
+    {
+      effectiveFrom: '2025-04-14',
+      inputPer1K: 0.002,
+      cachedInputPer1K: 0.0005,
+      outputPer1K: 0.008,
+    },
+  ],
+  'gpt-4.1-mini': [
+    {
+      effectiveFrom: '2025-04-14',
+      inputPer1K: 0.0004,
+      cachedInputPer1K: 0.0001,
+      outputPer1K: 0.0016,
+    },
+  ],
+};
+
+const DOC_INTEL_PRICES: Record<string, PriceHistory<DocIntelPrice>> = {
+  'prebuilt-read': [{ effectiveFrom: '2023-07-31', per1KPages: 1.5 }],
+  'prebuilt-layout': [{ effectiveFrom: '2023-07-31', per1KPages: 10 }],
+};
+
+export interface TokenUsage {
+  promptTokens: number; // Includes cached prompt tokens
+  completionTokens: number;
+  cachedPromptTokens?: number;
+}
+
+// Latest entry already in effect on the given day
+function priceAt<T>(history: PriceHistory<T> | undefined, at: Date): T | null {
+  const day = at.toISOString().slice(0, 10);
+  return (history || []).filter((entry) => entry.effectiveFrom <= day).pop() ?? null;
+}
+
+/**
+ * Price of an LLM model at a point in time, or null if the model is not in the catalog
+ */
+export function getLlmPrice(model: string, at: Date = new Date()): LlmPrice | null {
+  return priceAt(LLM_PRICES[model], at);
+}
+
+/**
+ * Price of a Document Intelligence model at a point in time, or null if unknown
+ */
+export function getDocIntelPrice(model: string, at: Date = new Date()): DocIntelPrice | null {
+  return priceAt(DOC_INTEL_PRICES[model], at);
+}
+
+/**
+ * Cost in USD of one LLM call. Cached prompt tokens are billed at the cached rate;
+ * batch calls get BATCH_DISCOUNT.
+ */
+export function calculateLlmCost(
+  price: LlmPrice,
+  usage: TokenUsage,
+  options: { batch?: boolean } = {}
+): number {
+  const cachedTokens = Math.min(usage.cachedPromptTokens || 0, usage.promptTokens);
+  const cachedRate = price.cachedInputPer1K ?? price.inputPer1K;
+  const cost =
+    ((usage.promptTokens - cachedTokens) * price.inputPer1K +
+      cachedTokens * cachedRate +
+      usage.completionTokens * price.outputPer1K) /
+    1000;
+  return options.batch ? cost * (1 - BATCH_DISCOUNT) : cost;
+}
+
+/**
+ * Cost in USD of analyzing pageCount pages with a Document Intelligence model
+ */
+export function calculateDocIntelCost(
+  model: string,
+  pageCount: number,
+  at: Date = new Date()
+): number {
+  const price = getDocIntelPrice(model, at);
+  if (!price) {
+    throw new Error(`No Document Intelligence pricing for model '${model}'`);
+  }
+  return (pageCount / 1000) * price.per1KPages;
+}
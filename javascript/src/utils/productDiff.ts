@@ -0,0 +1,312 @@
+/**
+ * Price List Diff Utilities
+ *
+ * Compares the extracted products of two price lists by SKU so buyers can review
+ * what changed before confirming a new month's list:
+ * - added / removed SKUs
+ * - price increases / decreases with percent change
+ * - renamed products (same SKU, different product name)
+ *
+ * Also compares two mapping versions of the same document (field-level product
+ * changes and column mapping changes) to judge whether a reprocess improved things.
+ */
+
+import { MAPPABLE_FIELDS, Product } from './productSchema.js';
+import { ColumnMapping } from './tableLayouts.js';
+
+export interface DiffProduct {
+  sku: string;
+  name: string;
+  price: number | null;
+}
+
+export interface PriceChange {
+  sku: string;
+  name: string;
+  oldPrice: number;
+  newPrice: number;
+  change: number;
+  percentChange: number | null; // null when the old price was 0
+}
+
+export interface RenamedProduct {
+  sku: string;
+  oldName: string;
+  newName: string;
+}
+
+export interface PriceListDiff {
+  summary: {
+    fromProductCount: number;
+    toProductCount: number;
+    added: number;
+    removed: number;
+    priceIncreases: number;
+    priceDecreases: number;
+    renamed: number;
+    unchanged: number;
+  };
+  added: DiffProduct[];
+  removed: DiffProduct[];
+  priceIncreases: PriceChange[];
+  priceDecreases: PriceChange[];
+  renamed: RenamedProduct[];
+}
+
+/**
+ * Index products by trimmed SKU (first occurrence wins, rows without a SKU are skipped)
+ */
+function indexBySku(products: Product[]): Map<string, Product> {
+  const index = new Map<string, Product>();
+  for (const product of products) {
+    const sku = String(product.sku ?? '').trim();
+    if (sku && !index.has(sku)) index.set(sku, product);
+  }
+  return index;
+}
+
+/**
+ * Normalize a product name for rename detection (ignore case and spacing-only changes)
+ */
+function normalizeName(name: string | undefined): string {
+  return (name || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function toPrice(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Diff two price lists by SKU. Price changes are compared to the cent;
+ * price changes are sorted by the largest percent change first.
+ */
+export function diffPriceLists(fromProducts: Product[], toProducts: Product[]): PriceListDiff {
+  const before = indexBySku(fromProducts);
+  const after = indexBySku(toProducts);
+
+  const diff: PriceListDiff = {
+    summary: {
+      fromProductCount: before.size,
+      toProductCount: after.size,
+      added: 0,
+      removed: 0,
+      priceIncreases: 0,
+      priceDecreases: 0,
+      renamed: 0,
+      unchanged: 0,
+    },
+    added: [],
+    removed: [],
+    priceIncreases: [],
+    priceDecreases: [],
+    renamed: [],
+  };
+
+  for (const [sku, product] of after) {
+    const previous = before.get(sku);
+    if (!previous) {
+      diff.added.push({ sku, name: product.name, price: toPrice(product.price) });
+      continue;
+    }
+
+    let changed = false;
+
+    if (normalizeName(previous.name) !== normalizeName(product.name)) {
+      diff.renamed.push({ sku, oldName: previous.name, newName: product.name });
+      changed = true;
+    }
+
+    const oldPrice = toPrice(previous.price);
+    const newPrice = toPrice(product.price);
+    if (oldPrice !== null && newPrice !== null) {
+      const change = roundTo(newPrice - oldPrice, 2);
+      if (change !== 0) {
+        const priceChange: PriceChange = {
+          sku,
+          name: product.name,
+          oldPrice,
+          newPrice,
+          change,
+          percentChange: oldPrice === 0 ? null : roundTo((change / oldPrice) * 100, 2),
+        };
+        (change > 0 ? diff.priceIncreases : diff.priceDecreases).push(priceChange);
+        changed = true;
+      }
+    }
+
+    if (!changed) diff.summary.unchanged++;
+  }
+
+  for (const [sku, product] of before) {
+    if (!after.has(sku)) {
+      diff.removed.push({ sku, name: product.name, price: toPrice(product.price) });
+    }
+  }
+
+  const byMagnitude = (a: PriceChange, b: PriceChange) =>
+    Math.abs(b.percentChange ?? Infinity) - Math.abs(a.percentChange ?? Infinity);
+  diff.priceIncreases.sort(byMagnitude);
+  diff.priceDecreases.sort(byMagnitude);
+
+  diff.summary.added = diff.added.length;
+  diff.summary.removed = diff.removed.length;
+  diff.summary.priceIncreases = diff.priceIncreases.length;
+  diff.summary.priceDecreases = diff.priceDecreases.length;
+  diff.summary.renamed = diff.renamed.length;
+
+  return diff;
+}
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface ChangedProduct {
+  sku: string;
+  name: string;
+  changes: FieldChange[];
+}
+
+export interface ProductVersionDiff {
+  summary: {
+    fromProductCount: number;
+    toProductCount: number;
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+    fieldChangeCounts: Record<string, number>;
+  };
+  added: DiffProduct[];
+  removed: DiffProduct[];
+  changed: ChangedProduct[];
+}
+
+export interface MappingChange {
+  layoutId: number | null; // null = document-level columnMapping (results without layouts)
+  field: string;
+  oldColumn: number | null;
+  newColumn: number | null;
+}
+
+interface MappingResultLayouts {
+  columnMapping?: ColumnMapping;
+  layouts?: Array<{ layoutId: number; columnMapping?: ColumnMapping }>;
+}
+
+// Missing, null and blank values all mean "not extracted"
+function normalizeFieldValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string') return value.trim() || null;
+  return value;
+}
+
+/**
+ * Field-by-field diff of two extractions of the same document, matched by SKU
+ */
+export function diffProductVersions(
+  fromProducts: Product[],
+  toProducts: Product[]
+): ProductVersionDiff {
+  const before = indexBySku(fromProducts);
+  const after = indexBySku(toProducts);
+
+  const diff: ProductVersionDiff = {
+    summary: {
+      fromProductCount: before.size,
+      toProductCount: after.size,
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchanged: 0,
+      fieldChangeCounts: {},
+    },
+    added: [],
+    removed: [],
+    changed: [],
+  };
+
+  for (const [sku, product] of after) {
+    const previous = before.get(sku);
+    if (!previous) {
+      diff.added.push({ sku, name: product.name, price: toPrice(product.price) });
+      continue;
+    }
+
+    const changes: FieldChange[] = [];
+    for (const field of MAPPABLE_FIELDS) {
+      if (field === 'sku') continue;
+      const oldValue = normalizeFieldValue(previous[field]);
+      const newValue = normalizeFieldValue(product[field]);
+      if (oldValue !== newValue) {
+        changes.push({ field, oldValue, newValue });
+        diff.summary.fieldChangeCounts[field] = (diff.summary.fieldChangeCounts[field] || 0) + 1;
+      }
+    }
+
+    if (changes.length > 0) {
+      diff.changed.push({ sku, name: product.name, changes });
+    } else {
+      diff.summary.unchanged++;
+    }
+  }
+
+  for (const [sku, product] of before) {
+    if (!after.has(sku)) {
+      diff.removed.push({ sku, name: product.name, price: toPrice(product.price) });
+    }
+  }
+
+  diff.summary.added = diff.added.length;
+  diff.summary.removed = diff.removed.length;
+  diff.summary.changed = diff.changed.length;
+
+  return diff;
+}
+
+function diffMapping(
+  layoutId: number | null,
+  fromMapping: ColumnMapping = {},
+  toMapping: ColumnMapping = {}
+): MappingChange[] {
+  const fields = [...new Set([...Object.keys(fromMapping), ...Object.keys(toMapping)])];
+  return fields
+    .map((field) => ({
+      layoutId,
+      field,
+      oldColumn: fromMapping[field] ?? null,
+      newColumn: toMapping[field] ?? null,
+    }))
+    .filter((change) => change.oldColumn !== change.newColumn);
+}
+
+/**
+ * Column mapping changes between two mapping results. Versions share the same OCR
+ * output, so layouts line up by layoutId; results stored before per-layout mapping
+ * are compared on their document-level columnMapping.
+ */
+export function diffColumnMappings(
+  fromResult: MappingResultLayouts,
+  toResult: MappingResultLayouts
+): MappingChange[] {
+  if (!Array.isArray(fromResult.layouts) || !Array.isArray(toResult.layouts)) {
+    return diffMapping(null, fromResult.columnMapping, toResult.columnMapping);
+  }
+
+  const fromLayouts = new Map(fromResult.layouts.map((l) => [l.layoutId, l.columnMapping]));
+  const toLayouts = new Map(toResult.layouts.map((l) => [l.layoutId, l.columnMapping]));
+  const layoutIds = [...new Set([...fromLayouts.keys(), ...toLayouts.keys()])].sort(
+    (a, b) => a - b
+  );
+
+  return layoutIds.flatMap((layoutId) =>
+    diffMapping(layoutId, fromLayouts.get(layoutId), toLayouts.get(layoutId))
+  );
+}
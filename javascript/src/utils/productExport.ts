@@ -0,0 +1,295 @@
+/**
+ * Product Export Utilities
+ *
+ * Set-based export of confirmed products into vvocr.vendor_products.
+ * Products are bulk-loaded into a session temp table (one round trip regardless of
+ * catalog size) and upserted with set-based statements. Must run inside a
+ * transaction so the temp table lives on the same connection and the export is
+ * all-or-nothing.
+ *
+ * Size/option variants (see variantMatrix.ts) are exported as catalog rows of their own,
+ * with parent_sku pointing at the parent product's row.
+ */
+
+import sql from 'mssql';
+import { Product } from './productSchema.js';
+import { parseVendorName } from './validations.js';
+
+export const STAGING_TABLE = '#staged_vendor_products';
+
+// A vendor_products row: a product, or one variant of a parent product
+export interface CatalogProduct extends Product {
+  parentSku?: string;
+  variantAttributes?: Record<string, string>;
+}
+
+export interface ExportDocument {
+  documentId: string;
+  vendorName: string;
+  documentName: string;
+}
+
+/**
+ * Build the bulk-load staging table (column types match vvocr.vendor_products)
+ */
+export function buildStagingTable(products: CatalogProduct[]): sql.Table {
+  const table = new sql.Table(STAGING_TABLE);
+  table.create = true;
+
+  table.columns.add('product_name', sql.NVarChar(500), { nullable: true });
+  table.columns.add('sku', sql.NVarChar(200), { nullable: true });
+  table.columns.add('price', sql.Decimal(18, 4), { nullable: true });
+  table.columns.add('unit', sql.NVarChar(100), { nullable: true });
+  table.columns.add('description', sql.NVarChar(sql.MAX), { nullable: true });
+  table.columns.add('cost', sql.Decimal(18, 4), { nullable: true });
+  table.columns.add('map_price', sql.Decimal(18, 4), { nullable: true });
+  table.columns.add('msrp', sql.Decimal(18, 4), { nullable: true });
+  table.columns.add('upc', sql.NVarChar(14), { nullable: true });
+  table.columns.add('moq', sql.Int, { nullable: true });
+  table.columns.add('category', sql.NVarChar(200), { nullable: true });
+  table.columns.add('sub_category', sql.NVarChar(200), { nullable: true });
+  table.columns.add('pack_size', sql.NVarChar(100), { nullable: true });
+  table.columns.add('parent_sku', sql.NVarChar(200), { nullable: true });
+  table.columns.add('variant_attributes', sql.NVarChar(sql.MAX), { nullable: true });
+  table.columns.add('source_provenance', sql.NVarChar(sql.MAX), { nullable: true });
+
+  for (const product of products) {
+    table.rows.add(
+      product.name,
+      product.sku,
+      product.price,
+      product.unit || null,
+      product.description || null,
+      product.cost ?? null,
+      product.map ?? null,
+      product.msrp ?? null,
+      product.upc || null,
+      product.moq ?? null,
+      product.category || null,
+      product.subCategory || null,
+      product.packSize || null,
+      product.parentSku || null,
+      product.variantAttributes ? JSON.stringify(product.variantAttributes) : null,
+      product.source ? JSON.stringify(product.source) : null
+    );
+  }
+
+  return table;
+}
+
+export interface ExportSummary {
+  productsExported: number;
+  newProducts: number;
+  updatedProducts: number;
+  priceChanges: number;
+  discontinued: number;
+  duplicateSkusSkipped: number;
+}
+
+/**
+ * Expand parents into their own row followed by one row per variant. Variants take the
+ * parent's name, description, classification and provenance; cost, MAP, MSRP and UPC are
+ * the parent's and are not copied.
+ */
+export function flattenVariants(products: Product[]): CatalogProduct[] {
+  return products.flatMap((product) => {
+    const { variants, ...parent } = product;
+    if (!variants || variants.length === 0) return [parent];
+
+    const {
+      cost: _cost,
+      map: _map,
+      msrp: _msrp,
+      upc: _upc,
+      priceDetails: _price,
+      ...shared
+    } = parent;
+    return [
+      parent,
+      ...variants.map((variant) => {
+        const row: CatalogProduct = {
+          ...shared,
+          sku: variant.sku,
+          price: variant.price,
+          parentSku: parent.sku,
+          variantAttributes: variant.attributes,
+        };
+        if (variant.priceDetails) row.priceDetails = variant.priceDetails;
+        return row;
+      }),
+    ];
+  });
+}
+
+/**
+ * Keep the first occurrence of each SKU (a list repeating a SKU would otherwise
+ * upsert the same catalog row twice). SKUs are compared trimmed and case-insensitively -
+ * "w001" and "W001 " are the same catalog SKU.
+ */
+export function dedupeBySku<T extends Product>(products: T[]): T[] {
+  const seen = new Set<string>();
+  return products.filter((product) => {
+    const key = product.sku.trim().toUpperCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Effective month of a price list from its vendor name (BETTER_LIVING_11_25 → 2025-11-01)
+ */
+export function getEffectiveMonth(vendorName: string): Date | null {
+  const parsed = parseVendorName(vendorName);
+  if (!parsed) return null;
+  return new Date(Date.UTC(2000 + parseInt(parsed.year, 10), parseInt(parsed.month, 10) - 1, 1));
+}
+
+/**
+ * Export products for a document inside an open transaction.
+ *
+ * The catalog is keyed by (vendor base name, SKU), so each month's list updates
+ * the rows from the previous month instead of appending duplicates:
+ * Variants are flattened first, so each variant SKU has its own history and lifecycle.
+ * 1. Record new SKUs, price changes and reactivations in vendor_product_price_history
+ * 2. Record SKUs missing from this list as discontinued and flag them (never deleted)
+ * 3. MERGE staged rows into vendor_products
+ */
+export async function exportProducts(
+  transaction: sql.Transaction,
+  products: Product[],
+  document: ExportDocument
+): Promise<ExportSummary> {
+  // Trimmed once here so the staged rows, MERGE and price history all use the SKU dedupe compared
+  const catalogProducts = flattenVariants(products).map((product) => ({
+    ...product,
+    sku: product.sku.trim(),
+    ...(product.parentSku && { parentSku: product.parentSku.trim() }),
+  }));
+  const uniqueProducts = dedupeBySku(catalogProducts);
+  const vendorBaseName = parseVendorName(document.vendorName)?.baseName || document.vendorName;
+  const effectiveMonth = getEffectiveMonth(document.vendorName);
+
+  await transaction.request().bulk(buildStagingTable(uniqueProducts));
+
+  const request = () =>
+    transaction
+      .request()
+      .input('vendorBaseName', sql.NVarChar, vendorBaseName)
+      .input('vendorName', sql.NVarChar, document.vendorName)
+      .input('sourceDocId', sql.UniqueIdentifier, document.documentId)
+      .input('sourceDocName', sql.NVarChar, document.documentName)
+      .input('effectiveMonth', sql.Date, effectiveMonth);
+
+  // 1. Price history for new, re-priced and reactivated SKUs
+  const historyResult = await request().query(`
+    INSERT INTO vvocr.vendor_product_price_history
+    (vendor_base_name, sku, change_type, old_price, new_price,
+     source_document_id, source_document_name, effective_month)
+    SELECT
+      @vendorBaseName,
+      s.sku,
+      CASE
+        WHEN p.id IS NULL THEN 'new'
+        WHEN p.is_discontinued = 1 THEN 'reactivated'
+        ELSE 'price_change'
+      END,
+      p.price,
+      s.price,
+      @sourceDocId, @sourceDocName, @effectiveMonth
+    FROM ${STAGING_TABLE} s
+    LEFT JOIN vvocr.vendor_products p
+      ON p.vendor_base_name = @vendorBaseName AND p.sku = s.sku
+    WHERE p.id IS NULL
+       OR p.is_discontinued = 1
+       OR p.price <> s.price
+       OR (p.price IS NULL AND s.price IS NOT NULL)
+       OR (p.price IS NOT NULL AND s.price IS NULL);
+
+    SELECT change_type, COUNT(*) AS change_count
+    FROM vvocr.vendor_product_price_history
+    WHERE source_document_id = @sourceDocId AND change_type <> 'discontinued'
+    GROUP BY change_type;
+  `);
+
+  // 2. Discontinue SKUs that are no longer on the vendor's list
+  const discontinuedResult = await request().query(`
+    INSERT INTO vvocr.vendor_product_price_history
+    (vendor_base_name, sku, change_type, old_price, new_price,
+     source_document_id, source_document_name, effective_month)
+    SELECT @vendorBaseName, p.sku, 'discontinued', p.price, NULL,
+           @sourceDocId, @sourceDocName, @effectiveMonth
+    FROM vvocr.vendor_products p
+    WHERE p.vendor_base_name = @vendorBaseName
+      AND p.is_discontinued = 0
+      AND NOT EXISTS (SELECT 1 FROM ${STAGING_TABLE} s WHERE s.sku = p.sku);
+
+    UPDATE p
+    SET is_discontinued = 1,
+        discontinued_at = GETUTCDATE(),
+        updated_at = GETUTCDATE()
+    FROM vvocr.vendor_products p
+    WHERE p.vendor_base_name = @vendorBaseName
+      AND p.is_discontinued = 0
+      AND NOT EXISTS (SELECT 1 FROM ${STAGING_TABLE} s WHERE s.sku = p.sku);
+  `);
+
+  // 3. Upsert by (vendor base name, SKU)
+  await request().query(`
+    MERGE vvocr.vendor_products AS target
+    USING ${STAGING_TABLE} AS source
+    ON target.vendor_base_name = @vendorBaseName AND target.sku = source.sku
+    WHEN MATCHED THEN
+      UPDATE SET
+        vendor_id = @vendorName,
+        vendor_name = @vendorName,
+        product_name = source.product_name,
+        price = source.price,
+        unit = source.unit,
+        description = source.description,
+        cost = source.cost,
+        map_price = source.map_price,
+        msrp = source.msrp,
+        upc = source.upc,
+        moq = source.moq,
+        category = source.category,
+        sub_category = source.sub_category,
+        pack_size = source.pack_size,
+        parent_sku = source.parent_sku,
+        variant_attributes = source.variant_attributes,
+        source_provenance = source.source_provenance,
+        is_discontinued = 0,
+        discontinued_at = NULL,
+        effective_month = @effectiveMonth,
+        source_document_id = @sourceDocId,
+        source_document_name = @sourceDocName,
+        updated_at = GETUTCDATE()
+    WHEN NOT MATCHED BY TARGET THEN
+      INSERT (vendor_id, vendor_name, vendor_base_name, product_name, sku, price, unit,
+              description, cost, map_price, msrp, upc, moq, category, sub_category, pack_size,
+              parent_sku, variant_attributes, source_provenance, effective_month,
+              source_document_id, source_document_name)
+      VALUES (@vendorName, @vendorName, @vendorBaseName, source.product_name, source.sku,
+              source.price, source.unit, source.description, source.cost, source.map_price,
+              source.msrp, source.upc, source.moq, source.category, source.sub_category,
+              source.pack_size, source.parent_sku, source.variant_attributes,
+              source.source_provenance, @effectiveMonth, @sourceDocId, @sourceDocName);
+
+    DROP TABLE ${STAGING_TABLE};
+  `);
+
+  const changeCounts: Record<string, number> = {};
+  for (const row of historyResult.recordset || []) {
+    changeCounts[row.change_type] = row.change_count;
+  }
+  const newProducts = changeCounts.new || 0;
+
+  return {
+    productsExported: uniqueProducts.length,
+    newProducts,
+    updatedProducts: uniqueProducts.length - newProducts,
+    priceChanges: changeCounts.price_change || 0,
+    discontinued: discontinuedResult.rowsAffected?.[1] || 0,
+    duplicateSkusSkipped: catalogProducts.length - uniqueProducts.length,
+  };
+}
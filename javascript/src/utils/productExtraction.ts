@@ -0,0 +1,245 @@
+/**
+ * Product Extraction
+ *
+ * The column-mapping core of the AI product mapper, without database, blob or LLM access,
+ * so the same code runs in the mapper and offline (golden-set evaluation, see evaluation.ts):
+ * - prepareTables: stitch continuation tables and rebuild grids from a stored OCR result
+ * - mappingMaxTokens / mappingsFromLlmResponse: the Phase 1 LLM call's output budget and
+ *   the per-layout column mappings from its answer
+ * - extractProducts: walk each table's data rows with its layout's column mapping
+ */
+
+import { RejectedRow, rejectReason } from './fallbackExtraction.js';
+import { applyFieldRules, MappingTemplate } from './mappingTemplates.js';
+import { parsePriceText } from './priceParser.js';
+import {
+  applyPriceColumns,
+  isValidGtin,
+  MappableField,
+  normalizeUpc,
+  parsePrice,
+  Product,
+} from './productSchema.js';
+import { buildRowSource } from './provenance.js';
+import {
+  createSectionTracker,
+  headingBeforeTable,
+  ProductSection,
+  SectionHeading,
+  sectionRowText,
+} from './sectionHeaders.js';
+import { GridReport, reconstructGrid } from './tableGrid.js';
+import { ColumnMapping, resolveLayoutMappings, TableLayout } from './tableLayouts.js';
+import { firstDataRow, normalizeTables, TableStitching } from './tableNormalizer.js';
+import {
+  buildVariants,
+  detectVariantColumns,
+  lowestVariantPrice,
+  VariantColumn,
+} from './variantMatrix.js';
+
+export interface TableCell {
+  kind: string;
+  content?: string;
+  rowIndex: number;
+  columnIndex: number;
+}
+
+export interface Table {
+  cells: TableCell[];
+  spans?: Array<{ offset: number }>;
+}
+
+// doc_intel_structured_data / bronze ocr/{id}.json
+export interface OcrData {
+  content?: string; // Only in the bronze JSON - the database keeps it in doc_intel_extracted_text
+  tables?: Table[];
+  headings?: SectionHeading[];
+  stitching?: TableStitching;
+}
+
+export interface SectionRow {
+  tableIndex: number;
+  rowIndex: number;
+  text: string;
+}
+
+export interface ExtractionResult {
+  products: Product[];
+  rejectedRows: RejectedRow[];
+  sectionRows: SectionRow[];
+  rowSections: Map<string, ProductSection>; // `${tableIdx}:${rowIdx}` → section in effect
+  invalidUpcCount: number;
+  tableLayoutIds: number[];
+  layoutProductCounts: number[];
+  layoutVariantColumns: VariantColumn[][];
+}
+
+/**
+ * Tables ready for mapping. OCR results saved before table stitching existed are
+ * stitched here.
+ */
+export function prepareTables(ocrData: OcrData): {
+  tables: Table[];
+  grids: Array<{ table: Table; report: GridReport }>;
+} {
+  const stitchedTables: Table[] = ocrData.stitching
+    ? ocrData.tables || []
+    : normalizeTables<Table>(ocrData.tables || []).tables;
+  const grids = stitchedTables.map((table) => reconstructGrid(table));
+  return { tables: grids.map((grid) => grid.table), grids };
+}
+
+// Output budget for the column-mapping answer, growing with the number of layouts
+export function mappingMaxTokens(layoutCount: number): number {
+  return Math.min(4000, 500 + layoutCount * 150);
+}
+
+/**
+ * Column mappings from the LLM's column-mapping answer, with cost/MAP/MSRP columns the
+ * LLM left unmapped picked up from the headers
+ */
+export function mappingsFromLlmResponse(
+  response: Parameters<typeof resolveLayoutMappings>[0],
+  layouts: TableLayout[]
+): ColumnMapping[] {
+  return resolveLayoutMappings(response, layouts.length).map((mapping, idx) =>
+    applyPriceColumns(mapping, layouts[idx].headers)
+  );
+}
+
+/**
+ * Extract products from every table using its layout's column mapping. template is the
+ * vendor mapping template when it supplied the mappings (its field rules are applied).
+ */
+export function extractProducts(
+  tables: Table[],
+  layouts: TableLayout[],
+  layoutMappings: ColumnMapping[],
+  options: { headings?: SectionHeading[]; template?: MappingTemplate | null } = {}
+): ExtractionResult {
+  const { headings = [], template = null } = options;
+  const products: Product[] = [];
+  const rejectedRows: RejectedRow[] = [];
+  const sectionRows: SectionRow[] = [];
+  const rowSections = new Map<string, ProductSection>();
+  const sections = createSectionTracker();
+  let invalidUpcCount = 0;
+
+  const tableLayoutIds: number[] = [];
+  layouts.forEach((layout) => {
+    layout.tableIndexes.forEach((tableIdx) => (tableLayoutIds[tableIdx] = layout.layoutId));
+  });
+  const layoutProductCounts = layouts.map(() => 0);
+  const layoutVariantColumns = layouts.map((layout) =>
+    detectVariantColumns(layout.headers, layoutMappings[layout.layoutId] || {})
+  );
+
+  tables.forEach((table: Table, tableIdx: number) => {
+    const layoutId = tableLayoutIds[tableIdx];
+    const colMap = layoutMappings[layoutId] || {};
+    const variantColumns = layoutVariantColumns[layoutId] || [];
+    const contentCells = table.cells.filter((c: TableCell) => c.kind === 'content');
+    if (contentCells.length === 0) return;
+
+    const rowCount = Math.max(...contentCells.map((c: TableCell) => c.rowIndex)) + 1;
+    const columnCount = Math.max(...table.cells.map((c: TableCell) => c.columnIndex)) + 1;
+    sections.enterTable(headingBeforeTable(headings, table));
+
+    for (let rowIdx = firstDataRow(table); rowIdx < rowCount; rowIdx++) {
+      const rowCells = contentCells.filter((c: TableCell) => c.rowIndex === rowIdx);
+
+      const cellValue = (field: MappableField) => {
+        const value = rowCells
+          .find((c: TableCell) => c.columnIndex === colMap[field])
+          ?.content?.trim();
+        return template ? applyFieldRules(template, field, value) : value;
+      };
+
+      const sku = cellValue('sku');
+      const name = cellValue('name');
+      const priceStr = cellValue('price');
+      const unit = cellValue('unit');
+      const description = cellValue('description');
+
+      // Category headings between products (a spanning heading can fill sku and name too)
+      const sectionText = sectionRowText(rowCells, columnCount);
+      if (sectionText) {
+        sections.sectionRow(sectionText);
+        sectionRows.push({ tableIndex: tableIdx, rowIndex: rowIdx, text: sectionText });
+        continue;
+      }
+      const section = sections.current();
+      rowSections.set(`${tableIdx}:${rowIdx}`, section);
+
+      // Validate required fields
+      if (sku && name) {
+        sections.productRow();
+        const variants = buildVariants(sku, rowCells, variantColumns);
+        const priceInMatrix = variantColumns.some((column) => column.columnIndex === colMap.price);
+        const parsedPrice = priceStr && !priceInMatrix ? parsePriceText(priceStr) : null;
+        const product: Product = {
+          name,
+          sku,
+          price: parsedPrice?.amount ?? lowestVariantPrice(variants),
+          extractionMethod: 'column_mapping',
+        };
+        if (parsedPrice) product.priceDetails = parsedPrice;
+        if (variants.length > 0) product.variants = variants;
+
+        if (unit) product.unit = unit;
+        if (description) product.description = description;
+
+        const cost = parsePrice(cellValue('cost'));
+        const map = parsePrice(cellValue('map'));
+        const msrp = parsePrice(cellValue('msrp'));
+        if (cost !== undefined) product.cost = cost;
+        if (map !== undefined) product.map = map;
+        if (msrp !== undefined) product.msrp = msrp;
+
+        // Only keep UPCs with a valid GS1 check digit
+        const upc = cellValue('upc');
+        if (upc) {
+          const normalizedUpc = normalizeUpc(upc);
+          if (isValidGtin(normalizedUpc)) product.upc = normalizedUpc;
+          else invalidUpcCount++;
+        }
+
+        const moqMatch = cellValue('moq')?.match(/\d[\d,]*/);
+        if (moqMatch) product.moq = parseInt(moqMatch[0].replace(/,/g, ''), 10);
+
+        // A mapped category column wins over the section heading
+        const category = cellValue('category');
+        const packSize = cellValue('packSize');
+        if (category) product.category = category;
+        else Object.assign(product, section);
+        if (packSize) product.packSize = packSize;
+
+        product.source = buildRowSource(table, tableIdx, rowIdx, colMap);
+
+        products.push(product);
+        layoutProductCounts[layoutId]++;
+      } else if (rowCells.some((c: TableCell) => c.content?.trim())) {
+        rejectedRows.push({
+          tableIndex: tableIdx,
+          rowIndex: rowIdx,
+          reason: rejectReason(sku, name)!,
+          cells: [...rowCells]
+            .sort((a, b) => a.columnIndex - b.columnIndex)
+            .map((c: TableCell) => c.content?.trim() || ''),
+        });
+      }
+    }
+  });
+
+  return {
+    products,
+    rejectedRows,
+    sectionRows,
+    rowSections,
+    invalidUpcCount,
+    tableLayoutIds,
+    layoutProductCounts,
+    layoutVariantColumns,
+  };
+}
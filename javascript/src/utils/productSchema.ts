@@ -0,0 +1,169 @@
+/**
+ * Product Schema Utilities
+ *
+ * Fields extracted from vendor price lists (client mapping template spec):
+ * - Required: sku, name, price (null when the cell holds no parseable price, e.g. "CALL";
+ *   priceDetails keeps currency, per-unit, tiers and parse confidence - see priceParser.ts)
+ * - Pricing: cost (dealer cost), map (minimum advertised price), msrp
+ * - Identification: upc (UPC-A / EAN-13 / GTIN-14, check digit validated)
+ * - Ordering: moq, packSize, unit
+ * - Classification: category, subCategory (from section headings, see sectionHeaders.ts),
+ *   description
+ * - extractionMethod: how the product was found (see fallbackExtraction.ts)
+ * - source: where in the document it was found (see provenance.ts)
+ * - variants: per-size/option SKUs and prices of a matrix row (see variantMatrix.ts)
+ */
+
+import { ParsedPrice, parsePriceText } from './priceParser.js';
+
+export const EXTRACTION_METHODS = ['column_mapping', 'llm_fallback'] as const;
+export type ExtractionMethod = (typeof EXTRACTION_METHODS)[number];
+
+// Document Intelligence region; polygon is flat [x1, y1, x2, y2, ...] (inches for PDFs)
+export interface BoundingRegion {
+  pageNumber: number;
+  polygon: number[];
+}
+
+export interface ProductSource {
+  tableIndex: number;
+  rowIndex: number;
+  pageNumber: number | null; // Sheet number for spreadsheets
+  boundingRegions: BoundingRegion[]; // Row outline per page; empty when OCR gave no geometry
+  cells: Array<{ columnIndex: number; content: string; fields: MappableField[] }>; // Raw strings
+}
+
+export interface ProductVariant {
+  sku: string;
+  attributes: Record<string, string>; // e.g. { size: '8"' }, { color: 'Cobalt' }
+  price: number | null;
+  priceDetails?: ParsedPrice;
+}
+
+export interface Product {
+  name: string;
+  sku: string;
+  price: number | null;
+  priceDetails?: ParsedPrice;
+  unit?: string;
+  description?: string;
+  cost?: number;
+  map?: number;
+  msrp?: number;
+  upc?: string;
+  moq?: number;
+  category?: string;
+  subCategory?: string;
+  packSize?: string;
+  extractionMethod?: ExtractionMethod;
+  source?: ProductSource;
+  variants?: ProductVariant[];
+}
+
+// Fields the column mapping can point at (order = prompt/template order)
+export const MAPPABLE_FIELDS = [
+  'sku',
+  'name',
+  'price',
+  'unit',
+  'description',
+  'cost',
+  'map',
+  'msrp',
+  'upc',
+  'moq',
+  'category',
+  'packSize',
+] as const;
+export type MappableField = (typeof MAPPABLE_FIELDS)[number];
+
+export const PRICE_FIELDS = ['cost', 'map', 'msrp'] as const;
+export type PriceField = (typeof PRICE_FIELDS)[number];
+
+// Header keywords for each price type (checked in order, first match wins)
+const PRICE_HEADER_PATTERNS: Array<{ field: PriceField; pattern: RegExp }> = [
+  { field: 'map', pattern: /\bm\.?a\.?p\.?\b|min(imum)?\.? advertised/i },
+  { field: 'msrp', pattern: /\bmsrp\b|\bs\.?r\.?p\b|retail|suggested|\blist\b/i },
+  { field: 'cost', pattern: /\bcost\b|dealer|wholesale|\bnet\b|distributor|\bwhsl\b/i },
+];
+
+/**
+ * Amount of a price cell ("$1,299.00" → 1299, "€1.234,50" → 1234.5, "CALL" → undefined)
+ */
+export function parsePrice(value: string | undefined): number | undefined {
+  return parsePriceText(value).amount ?? undefined;
+}
+
+/**
+ * Validate a UPC/EAN/GTIN (8, 12, 13 or 14 digits) using the GS1 mod-10 check digit
+ */
+export function isValidGtin(code: string): boolean {
+  if (!/^(\d{8}|\d{12,14})$/.test(code)) return false;
+
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop()!;
+
+  // Weights alternate 3,1,3,... starting from the digit next to the check digit
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, idx) => total + digit * (idx % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Strip spaces/dashes from a UPC cell ("0 12345 67890 5" → "012345678905")
+ */
+export function normalizeUpc(value: string): string {
+  return value.replace(/[\s-]/g, '');
+}
+
+/**
+ * Classify price columns by header text. Lets the mapper pick up cost/MAP/MSRP
+ * columns the LLM left unmapped when a price list has several price columns.
+ */
+export function detectPriceColumns(
+  headers: Array<{ columnIndex: number; header: string }>
+): Partial<Record<PriceField, number>> {
+  const detected: Partial<Record<PriceField, number>> = {};
+
+  for (const { columnIndex, header } of headers) {
+    const match = PRICE_HEADER_PATTERNS.find(({ pattern }) => pattern.test(header));
+    if (match && detected[match.field] === undefined) {
+      detected[match.field] = columnIndex;
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * Fill unmapped price fields from detected price columns, and default `price`
+ * to the dealer cost (then MSRP, then MAP) when no single price column was mapped.
+ */
+export function applyPriceColumns(
+  columnMapping: Record<string, number | null>,
+  headers: Array<{ columnIndex: number; header: string }>
+): Record<string, number | null> {
+  // `price` may legitimately share its column with a typed price field (e.g. MSRP)
+  const mapped = new Set(
+    Object.entries(columnMapping)
+      .filter(([field, idx]) => field !== 'price' && typeof idx === 'number')
+      .map(([, idx]) => idx)
+  );
+  const result = { ...columnMapping };
+
+  const detected = detectPriceColumns(headers);
+  for (const field of PRICE_FIELDS) {
+    const colIdx = detected[field];
+    if (result[field] == null && colIdx !== undefined && !mapped.has(colIdx)) {
+      result[field] = colIdx;
+    }
+  }
+
+  if (result.price == null) {
+    result.price = result.cost ?? result.msrp ?? result.map ?? null;
+  }
+
+  return result;
+}
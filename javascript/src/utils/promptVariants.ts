@@ -0,0 +1,104 @@
+/**
+ * Column Mapping Prompt Variants
+ *
+ * Named variants of the column mapping prompt, selectable per reprocess
+ * (reprocessMapping `promptVariant`). Variants share the schema, layout listing
+ * and response format and differ only in their mapping instructions:
+ * - default: map by header text, skip category/separator rows
+ * - strict-headers: only map a field when a header clearly names it (fewer false mappings)
+ * - sample-rows: decide from sample row values (missing, merged or OCR-garbled headers)
+ */
+
+import { formatLayoutForPrompt, TableLayout } from './tableLayouts.js';
+
+export const PROMPT_VARIANTS = ['default', 'strict-headers', 'sample-rows'] as const;
+export type PromptVariant = (typeof PROMPT_VARIANTS)[number];
+
+// Characters of extracted text sent as context
+const CONTEXT_CHARS = 2000;
+
+const VARIANT_INSTRUCTIONS: Record<PromptVariant, string> = {
+  default: `IMPORTANT: 
+- Category headers (e.g., "QUILTED HAMMOCKS") are NOT column headers for product names
+- The actual product name is in the first data column with descriptive text
+- Ignore header-only rows or separator rows
+- Layouts without headers are usually continuations of a previous layout - use the sample rows
+- Use null for every field of a layout that does not contain products`,
+  'strict-headers': `IMPORTANT: 
+- Only map a field when a column header clearly names it (e.g., "Item #" → sku, "MAP" → map)
+- Do NOT guess from position or sample values - use null when no header matches
+- Category headers (e.g., "QUILTED HAMMOCKS") are NOT column headers for product names
+- Ignore header-only rows or separator rows
+- Use null for every field of a layout that does not contain products`,
+  'sample-rows': `IMPORTANT: 
+- Column headers may be missing, merged or garbled by OCR - decide from the sample row VALUES
+- SKUs are short codes (letters/digits/dashes), names are descriptive text, prices contain
+  currency amounts, UPCs are 8-14 digit numbers
+- Category headers (e.g., "QUILTED HAMMOCKS") are NOT product rows
+- Layouts without headers are usually continuations of a previous layout
+- Use null for every field of a layout that does not contain products`,
+};
+
+/**
+ * Build the column mapping prompt for a variant
+ */
+export function buildColumnMappingPrompt(
+  variant: PromptVariant,
+  layouts: TableLayout[],
+  fullText: string
+): string {
+  return `You are analyzing product catalog tables. Extract products with the following SCHEMA:
+- name (product name/description) - REQUIRED
+- SKU (item code/product code) - REQUIRED  
+- price (MSRP/cost) - REQUIRED
+- unit (dimensions/size/packaging) - OPTIONAL
+- description (additional details) - OPTIONAL
+- cost (dealer/wholesale/net cost) - OPTIONAL
+- map (minimum advertised price) - OPTIONAL
+- msrp (MSRP/retail/list price) - OPTIONAL
+- upc (UPC/EAN/GTIN barcode number) - OPTIONAL
+- moq (minimum order quantity) - OPTIONAL
+- category (product category column, NOT category header rows) - OPTIONAL
+- packSize (case pack/inner pack/pack quantity) - OPTIONAL
+
+Tables with identical column headers have been grouped into layouts. Here are ALL the layouts found:
+${layouts.map(formatLayoutForPrompt).join('\n\n')}
+
+Layouts can differ (different column order, extra or missing columns). Identify the column pattern for EACH layout:
+- Which column index is SKU? (look for "SKU", "Item Code", "Item #", etc.)
+- Which column index is Product Name? (look for product descriptions, NOT category headers)
+- Which column index is Price? (look for "MSRP", "Price", "Cost", "List Price", etc.)
+- Which column index is Unit/Dimensions? (look for "Dimensions", "Size", "Unit", "Pack", etc.)
+- Which column index is Description? (look for additional product details)
+- Which columns are Cost, MAP and MSRP? Many price lists have SEVERAL price columns - map each one
+  (e.g., "Dealer" → cost, "MAP" → map, "Retail" → msrp) and set price to the dealer cost column if present
+- Which column index is UPC, MOQ, Category and Pack Size?
+
+${VARIANT_INSTRUCTIONS[variant]}
+
+Return JSON with one entry per layout:
+{
+  "vendor": "detected vendor name",
+  "layouts": [
+    {
+      "layoutId": layout_id_number,
+      "columnMapping": {
+        "sku": column_index_number or null,
+        "name": column_index_number,
+        "price": column_index_number or null,
+        "unit": column_index_number or null,
+        "description": column_index_number or null,
+        "cost": column_index_number or null,
+        "map": column_index_number or null,
+        "msrp": column_index_number or null,
+        "upc": column_index_number or null,
+        "moq": column_index_number or null,
+        "category": column_index_number or null,
+        "packSize": column_index_number or null
+      }
+    }
+  ]
+}
+
+Context: ${fullText.substring(0, CONTEXT_CHARS)}`;
+}
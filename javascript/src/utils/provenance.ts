@@ -0,0 +1,109 @@
+/**
+ * Product Provenance
+ *
+ * Traces each extracted product back to the table row it came from: table and row
+ * index, page, the row's outline on the page and the raw cell strings it was parsed
+ * from. Stored on the product (source) in ai_mapping_result and exported to
+ * vendor_products.source_provenance so a review UI can highlight the spot in the PDF.
+ *
+ * Document Intelligence returns boundingRegions on tables and cells; the SDK gives
+ * polygons as {x, y} points, the REST API as flat number arrays - both are accepted.
+ * Spreadsheet tables only carry their sheet number.
+ */
+
+import { BoundingRegion, MappableField, ProductSource } from './productSchema.js';
+
+type Polygon = number[] | Array<{ x: number; y: number }>;
+
+export interface RegionLike {
+  pageNumber: number;
+  polygon?: Polygon;
+}
+
+export interface SourceCell {
+  rowIndex: number;
+  columnIndex: number;
+  content?: string;
+  boundingRegions?: RegionLike[];
+}
+
+export interface SourceTable {
+  cells: SourceCell[];
+  boundingRegions?: RegionLike[];
+}
+
+function toPoints(polygon: Polygon | undefined): Array<{ x: number; y: number }> {
+  if (!polygon || polygon.length === 0) return [];
+  if (typeof polygon[0] === 'number') {
+    const flat = polygon as number[];
+    const points: Array<{ x: number; y: number }> = [];
+    for (let i = 0; i + 1 < flat.length; i += 2) points.push({ x: flat[i], y: flat[i + 1] });
+    return points;
+  }
+  return polygon as Array<{ x: number; y: number }>;
+}
+
+/**
+ * Rectangle around all regions on each page, as flat clockwise polygons
+ */
+export function mergeRegions(regions: RegionLike[]): BoundingRegion[] {
+  const pages = new Map<number, Array<{ x: number; y: number }>>();
+  regions.forEach((region) => {
+    const points = toPoints(region.polygon);
+    if (points.length === 0) return;
+    pages.set(region.pageNumber, [...(pages.get(region.pageNumber) || []), ...points]);
+  });
+
+  return [...pages.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([pageNumber, points]) => {
+      const xs = points.map((p) => p.x);
+      const ys = points.map((p) => p.y);
+      const [minX, maxX, minY, maxY] = [
+        Math.min(...xs),
+        Math.max(...xs),
+        Math.min(...ys),
+        Math.max(...ys),
+      ];
+      return { pageNumber, polygon: [minX, minY, maxX, minY, maxX, maxY, minX, maxY] };
+    });
+}
+
+/**
+ * Provenance of a table row. With a column mapping, cells are the mapped cells (tagged with
+ * the fields they fed); without one, every non-empty cell of the row.
+ */
+export function buildRowSource(
+  table: SourceTable,
+  tableIndex: number,
+  rowIndex: number,
+  columnMapping: Partial<Record<MappableField, number | null>> = {}
+): ProductSource {
+  const rowCells = table.cells
+    .filter((cell) => cell.rowIndex === rowIndex)
+    .sort((a, b) => a.columnIndex - b.columnIndex);
+
+  const fieldsByColumn = new Map<number, MappableField[]>();
+  (Object.entries(columnMapping) as Array<[MappableField, number | null]>).forEach(
+    ([field, columnIndex]) => {
+      if (typeof columnIndex !== 'number') return;
+      fieldsByColumn.set(columnIndex, [...(fieldsByColumn.get(columnIndex) || []), field]);
+    }
+  );
+
+  const cells = rowCells
+    .filter((cell) =>
+      fieldsByColumn.size > 0 ? fieldsByColumn.has(cell.columnIndex) : cell.content?.trim()
+    )
+    .map((cell) => ({
+      columnIndex: cell.columnIndex,
+      content: cell.content ?? '',
+      fields: fieldsByColumn.get(cell.columnIndex) || [],
+    }));
+
+  const boundingRegions = mergeRegions(rowCells.flatMap((cell) => cell.boundingRegions || []));
+  const pageNumber =
+    boundingRegions[0]?.pageNumber ?? table.boundingRegions?.[0]?.pageNumber ?? null;
+
+  return { tableIndex, rowIndex, pageNumber, boundingRegions, cells };
+}
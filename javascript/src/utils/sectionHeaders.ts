@@ -0,0 +1,142 @@
+/**
+ * Section Headers
+ *
+ * Price lists group products under category headings - rows like "QUILTED HAMMOCKS"
+ * inside a table, or headings printed above a table. The column mapping skips them, so
+ * the mapper detects them here and carries them onto the following products as
+ * category / subCategory (a category column, when mapped, takes precedence).
+ *
+ * - Section rows: a table row whose non-empty cells all hold the same short text that is
+ *   neither a code nor a price (Document Intelligence repeats spanning cells per column)
+ * - Page headings: Document Intelligence paragraphs with role 'sectionHeading', stored
+ *   by documentProcessor next to the tables; the last heading before a table applies to it
+ *
+ * Levels: a page heading is the category and section rows inside its tables are
+ * sub-categories. Without a page heading a section row starts a new category, and a
+ * section row directly below another one is its sub-category. Sections carry over to
+ * the next table until a new page heading appears.
+ */
+
+export interface SectionHeading {
+  content: string;
+  offset: number; // Position in doc_intel_extracted_text, to order against tables
+  pageNumber: number | null;
+}
+
+export interface ProductSection {
+  category?: string;
+  subCategory?: string;
+}
+
+export interface SectionTracker {
+  enterTable(pageHeading?: string): void;
+  sectionRow(text: string): void;
+  productRow(): void;
+  current(): ProductSection;
+}
+
+interface HeadingParagraph {
+  role?: string;
+  content: string;
+  spans?: Array<{ offset: number }>;
+  boundingRegions?: Array<{ pageNumber: number }>;
+}
+
+interface SpannedTable {
+  spans?: Array<{ offset: number }>;
+}
+
+interface SectionCell {
+  content?: string;
+}
+
+// Longer single-cell rows are notes or disclaimers, not headings
+const MAX_SECTION_CHARS = 80;
+
+/**
+ * Section headings from Document Intelligence paragraphs (titles, page headers and
+ * footers are not categories)
+ */
+export function extractSectionHeadings(paragraphs: HeadingParagraph[] = []): SectionHeading[] {
+  return paragraphs
+    .filter((paragraph) => paragraph.role === 'sectionHeading' && paragraph.content?.trim())
+    .map((paragraph) => ({
+      content: paragraph.content.trim(),
+      offset: paragraph.spans?.[0]?.offset ?? 0,
+      pageNumber: paragraph.boundingRegions?.[0]?.pageNumber ?? null,
+    }));
+}
+
+/**
+ * The last heading that precedes the table in the document text
+ */
+export function headingBeforeTable(
+  headings: SectionHeading[],
+  table: SpannedTable
+): string | undefined {
+  const tableOffset = table.spans?.[0]?.offset;
+  if (tableOffset === undefined) return undefined;
+
+  let last: SectionHeading | undefined;
+  headings.forEach((heading) => {
+    if (heading.offset < tableOffset && (!last || heading.offset > last.offset)) last = heading;
+  });
+  return last?.content;
+}
+
+/**
+ * Heading text when the row is a section row, otherwise null
+ */
+export function sectionRowText(rowCells: SectionCell[], columnCount: number): string | null {
+  if (columnCount < 2) return null;
+
+  const contents = [
+    ...new Set(rowCells.map((cell) => cell.content?.trim()).filter((content) => !!content)),
+  ];
+  if (contents.length !== 1) return null;
+
+  const text = contents[0]!;
+  if (text.length > MAX_SECTION_CHARS || !/[a-z]/i.test(text)) return null;
+  if (/\d/.test(text) && !/\s/.test(text)) return null; // Single code-like token, e.g. a SKU
+  if (/[$€£]\s*\d/.test(text)) return null;
+  return text;
+}
+
+/**
+ * Tracks the category and sub-category in effect while the mapper walks tables in order
+ */
+export function createSectionTracker(): SectionTracker {
+  let heading: string | undefined;
+  let category: string | undefined;
+  let subCategory: string | undefined;
+  let afterSectionRow = false;
+
+  return {
+    enterTable(pageHeading) {
+      if (pageHeading && pageHeading !== heading) {
+        heading = pageHeading;
+        category = pageHeading;
+        subCategory = undefined;
+      }
+      afterSectionRow = false;
+    },
+    sectionRow(text) {
+      if (heading || (afterSectionRow && category)) {
+        subCategory = text;
+      } else {
+        category = text;
+        subCategory = undefined;
+      }
+      afterSectionRow = true;
+    },
+    productRow() {
+      afterSectionRow = false;
+    },
+    current() {
+      const section: ProductSection = {};
+      if (category) section.category = category;
+      if (subCategory) section.subCategory = subCategory;
+      return section;
+    },
+  };
+}
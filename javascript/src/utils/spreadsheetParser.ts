@@ -0,0 +1,131 @@
+/**
+ * Spreadsheet Parsing Utilities
+ *
+ * Converts XLSX/XLS price lists into the same table/cell structure that
+ * Azure Document Intelligence returns for PDFs, so the AI mapper can treat
+ * both upload types identically without paying for OCR on spreadsheets.
+ */
+
+import * as xlsx from 'xlsx';
+
+export const SPREADSHEET_EXTENSIONS = ['xlsx', 'xls'];
+
+// Minimum share of a sheet's widest row a row must fill to count as the header row
+const HEADER_FILL_RATIO = 0.5;
+// Only the top of a sheet is scanned for the header row (titles/logos sit above it)
+const HEADER_SCAN_ROWS = 30;
+
+export interface SpreadsheetCell {
+  kind: 'columnHeader' | 'content';
+  rowIndex: number;
+  columnIndex: number;
+  content: string;
+}
+
+export interface SpreadsheetTable {
+  sheetName: string;
+  rowCount: number;
+  columnCount: number;
+  cells: SpreadsheetCell[];
+  boundingRegions: Array<{ pageNumber: number; polygon: number[] }>;
+}
+
+export interface SpreadsheetExtraction {
+  content: string;
+  tables: SpreadsheetTable[];
+  pageCount: number;
+  tableCount: number;
+}
+
+/**
+ * Check whether a file name/path refers to a spreadsheet we can parse natively
+ */
+export function isSpreadsheetFile(fileName: string): boolean {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return SPREADSHEET_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Find the header row: the first row (near the top) that fills at least half of
+ * the widest row in the sheet. Skips title rows like "2025 Wholesale Price List".
+ */
+function findHeaderRow(rows: string[][]): number {
+  const filledCounts = rows.map((row) => row.filter((value) => value !== '').length);
+  const widest = Math.max(0, ...filledCounts);
+  const threshold = Math.max(2, Math.ceil(widest * HEADER_FILL_RATIO));
+
+  const scanLimit = Math.min(rows.length, HEADER_SCAN_ROWS);
+  for (let i = 0; i < scanLimit; i++) {
+    if (filledCounts[i] >= threshold) return i;
+  }
+  return -1;
+}
+
+/**
+ * Parse a workbook buffer into Document Intelligence-shaped tables.
+ *
+ * - One table per visible, non-empty sheet (hidden "OLD" revision sheets are skipped)
+ * - Rows above the detected header row are kept in `content` only
+ * - Columns that are empty for the whole table are dropped and indexes compacted
+ * - Cell text uses the formatted value so prices keep their "$19.20" display form
+ */
+export function parseSpreadsheet(buffer: Buffer): SpreadsheetExtraction {
+  const workbook = xlsx.read(buffer, { type: 'buffer' });
+  const sheetMeta = workbook.Workbook?.Sheets || [];
+
+  const tables: SpreadsheetTable[] = [];
+  const contentBlocks: string[] = [];
+
+  workbook.SheetNames.forEach((sheetName, sheetIdx) => {
+    if (sheetMeta[sheetIdx]?.Hidden) return;
+
+    const worksheet = workbook.Sheets[sheetName];
+    const rows = xlsx.utils
+      .sheet_to_json<unknown[]>(worksheet, { header: 1, raw: false, defval: '', blankrows: false })
+      .map((row) => row.map((value) => String(value ?? '').trim()));
+
+    const nonEmptyRows = rows.filter((row) => row.some((value) => value !== ''));
+    if (nonEmptyRows.length === 0) return;
+
+    contentBlocks.push(
+      nonEmptyRows.map((row) => row.filter((value) => value !== '').join(' | ')).join('\n')
+    );
+
+    const headerRowIdx = findHeaderRow(nonEmptyRows);
+    if (headerRowIdx === -1) return;
+
+    const tableRows = nonEmptyRows.slice(headerRowIdx);
+    const width = Math.max(...tableRows.map((row) => row.length));
+    const usedColumns: number[] = [];
+    for (let col = 0; col < width; col++) {
+      if (tableRows.some((row) => (row[col] || '') !== '')) usedColumns.push(col);
+    }
+
+    const cells: SpreadsheetCell[] = [];
+    tableRows.forEach((row, rowIndex) => {
+      usedColumns.forEach((col, columnIndex) => {
+        cells.push({
+          kind: rowIndex === 0 ? 'columnHeader' : 'content',
+          rowIndex,
+          columnIndex,
+          content: row[col] || '',
+        });
+      });
+    });
+
+    tables.push({
+      sheetName,
+      rowCount: tableRows.length,
+      columnCount: usedColumns.length,
+      cells,
+      boundingRegions: [{ pageNumber: sheetIdx + 1, polygon: [] }],
+    });
+  });
+
+  return {
+    content: contentBlocks.join('\n\n'),
+    tables,
+    pageCount: contentBlocks.length,
+    tableCount: tables.length,
+  };
+}
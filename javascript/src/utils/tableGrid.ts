@@ -0,0 +1,225 @@
+/**
+ * Table Grid Reconstruction
+ *
+ * Document Intelligence reports merged cells once, with rowSpan/columnSpan, and splits
+ * stacked headers and wrapped product text over several rows. Before column mapping,
+ * each table is rebuilt into a plain grid with one logical row per product:
+ * - Spans are expanded: a merged cell is repeated at every row/column it covers
+ *   (a SKU spanning two variant rows, a "Price" header over "Each | Case")
+ * - Multi-row headers are composed top-down into one label per column ("Price Each"),
+ *   kept on the last header row
+ * - Wrapped rows are joined into the product row above: a row is a continuation when
+ *   its key column is empty, it only fills columns the row above fills, it holds no price
+ *   and does not look like a section heading - all caps ("CLEARANCE") or several words in
+ *   Title Case ("Rope Hammocks"); wrapped text rarely capitalizes every word. The key
+ *   column is the one filled in most rows with several cells, preferring code-like values
+ *   without spaces - usually the SKU
+ *
+ * Row indexes are kept (joined rows just become empty) so provenance still points at the
+ * original rows; a joined cell's bounding regions cover both rows.
+ */
+
+import { RegionLike } from './provenance.js';
+
+export interface GridCell {
+  kind?: string;
+  rowIndex: number;
+  columnIndex: number;
+  rowSpan?: number;
+  columnSpan?: number;
+  content?: string;
+  boundingRegions?: RegionLike[];
+}
+
+export interface GridTable {
+  cells: GridCell[];
+}
+
+export interface JoinedRow {
+  rowIndex: number;
+  intoRowIndex: number;
+}
+
+export interface GridReport {
+  expandedCells: number; // Cells added by expanding spans
+  headerRows: number;
+  joinedRows: JoinedRow[];
+}
+
+const PRICE_LIKE = /[$€£¥]\s*\d|\d[.,]\d{2}(?!\d)/;
+
+function isContent(cell: GridCell): boolean {
+  return (cell.kind ?? 'content') === 'content';
+}
+
+function text(cell: GridCell | undefined): string {
+  return cell?.content?.trim() || '';
+}
+
+// Short words a Title Case heading may leave lowercase ("Hammocks and Stands")
+const HEADING_JOINERS = new Set(['a', 'an', 'and', 'for', 'in', 'of', 'or', 'the', 'to', 'with']);
+
+/**
+ * A row of category-heading text rather than wrapped product text: no lowercase letters,
+ * or at least two words that all start with a capital (joiners aside)
+ */
+function looksLikeHeading(cells: GridCell[]): boolean {
+  const words = cells.flatMap((cell) => text(cell).split(/\s+/));
+  if (!words.some((word) => /[a-z]/.test(word))) return true;
+  const capitalized = words.filter((word) => /^[^a-z]*[A-Z]/.test(word));
+  return (
+    capitalized.length >= 2 &&
+    words.every(
+      (word) => capitalized.includes(word) || HEADING_JOINERS.has(word) || !/[a-z]/i.test(word)
+    )
+  );
+}
+
+/**
+ * Repeat each merged cell at every position it covers (spans are dropped)
+ */
+export function expandSpans<T extends GridTable>(table: T): T {
+  const occupied = new Set(table.cells.map((cell) => `${cell.rowIndex}:${cell.columnIndex}`));
+  const cells = table.cells.flatMap((cell) => {
+    const { rowSpan = 1, columnSpan = 1, ...base } = cell;
+    const copies: GridCell[] = [{ ...base }];
+    for (let r = 0; r < rowSpan; r++) {
+      for (let c = 0; c < columnSpan; c++) {
+        const position = { rowIndex: cell.rowIndex + r, columnIndex: cell.columnIndex + c };
+        if ((r === 0 && c === 0) || occupied.has(`${position.rowIndex}:${position.columnIndex}`)) {
+          continue;
+        }
+        occupied.add(`${position.rowIndex}:${position.columnIndex}`);
+        copies.push({ ...base, ...position });
+      }
+    }
+    return copies;
+  });
+  return { ...table, cells };
+}
+
+/**
+ * Compose stacked header rows into one label per column on the last header row
+ */
+export function composeHeaders<T extends GridTable>(table: T): T {
+  const headerCells = table.cells.filter((cell) => cell.kind === 'columnHeader');
+  const headerRows = [...new Set(headerCells.map((cell) => cell.rowIndex))].sort((a, b) => a - b);
+  if (headerRows.length < 2) return table;
+
+  const lastHeaderRow = headerRows[headerRows.length - 1];
+  const columns = [...new Set(headerCells.map((cell) => cell.columnIndex))].sort((a, b) => a - b);
+  const composed = columns.map((columnIndex) => {
+    const stack = headerCells
+      .filter((cell) => cell.columnIndex === columnIndex)
+      .sort((a, b) => a.rowIndex - b.rowIndex);
+    // A header spanning several rows was expanded into each - keep it once
+    const parts = stack.map(text).filter((part, idx, all) => part && part !== all[idx - 1]);
+    return {
+      ...stack[stack.length - 1],
+      rowIndex: lastHeaderRow,
+      content: parts.join(' '),
+      boundingRegions: stack.flatMap((cell) => cell.boundingRegions || []),
+    };
+  });
+
+  return {
+    ...table,
+    cells: [...composed, ...table.cells.filter((cell) => cell.kind !== 'columnHeader')],
+  };
+}
+
+/**
+ * Join wrapped continuation rows into the product row above them
+ */
+export function joinWrappedRows<T extends GridTable>(
+  table: T
+): { table: T; joinedRows: JoinedRow[] } {
+  const rows = new Map<number, GridCell[]>();
+  table.cells
+    .filter((cell) => isContent(cell) && text(cell))
+    .forEach((cell) => rows.set(cell.rowIndex, [...(rows.get(cell.rowIndex) || []), cell]));
+  const rowIndexes = [...rows.keys()].sort((a, b) => a - b);
+
+  const columnStats = new Map<number, { filled: number; spaced: number }>();
+  rows.forEach((cells) => {
+    if (cells.length < 2) return;
+    cells.forEach((cell) => {
+      const stats = columnStats.get(cell.columnIndex) || { filled: 0, spaced: 0 };
+      stats.filled++;
+      if (/\s/.test(text(cell))) stats.spaced++;
+      columnStats.set(cell.columnIndex, stats);
+    });
+  });
+  if (rowIndexes.length < 2 || columnStats.size === 0) return { table, joinedRows: [] };
+
+  const [keyColumn] = [...columnStats.entries()].sort(
+    ([colA, a], [colB, b]) => b.filled - a.filled || a.spaced - b.spaced || colA - colB
+  )[0];
+
+  const joinedRows: JoinedRow[] = [];
+  const replaced = new Map<GridCell, GridCell>();
+  const dropped = new Set<GridCell>();
+  let productRow: number | null = null;
+  let previousRow: number | null = null;
+
+  rowIndexes.forEach((rowIndex) => {
+    const cells = rows.get(rowIndex)!;
+    const productCells = productRow === null ? [] : rows.get(productRow)!;
+    const isContinuation =
+      productRow !== null &&
+      previousRow === productRow &&
+      !cells.some((cell) => cell.columnIndex === keyColumn) &&
+      cells.every((cell) => productCells.some((p) => p.columnIndex === cell.columnIndex)) &&
+      !cells.some((cell) => PRICE_LIKE.test(text(cell))) &&
+      !looksLikeHeading(cells);
+
+    if (isContinuation) {
+      cells.forEach((cell) => {
+        const original = productCells.find((p) => p.columnIndex === cell.columnIndex)!;
+        const target = replaced.get(original) || original;
+        replaced.set(original, {
+          ...target,
+          content: `${text(target)} ${text(cell)}`,
+          boundingRegions: [...(target.boundingRegions || []), ...(cell.boundingRegions || [])],
+        });
+        dropped.add(cell);
+      });
+      joinedRows.push({ rowIndex, intoRowIndex: productRow! });
+    } else if (cells.some((cell) => cell.columnIndex === keyColumn)) {
+      productRow = rowIndex;
+    } else {
+      productRow = null;
+    }
+    previousRow = isContinuation ? productRow : rowIndex;
+  });
+
+  if (joinedRows.length === 0) return { table, joinedRows };
+  return {
+    table: {
+      ...table,
+      cells: table.cells
+        .filter((cell) => !dropped.has(cell))
+        .map((cell) => replaced.get(cell) || cell),
+    },
+    joinedRows,
+  };
+}
+
+/**
+ * Expand spans, compose headers and join wrapped rows
+ */
+export function reconstructGrid<T extends GridTable>(table: T): { table: T; report: GridReport } {
+  const expanded = expandSpans(table);
+  const composed = composeHeaders(expanded);
+  const { table: joined, joinedRows } = joinWrappedRows(composed);
+  return {
+    table: joined,
+    report: {
+      expandedCells: expanded.cells.length - table.cells.length,
+      headerRows: new Set(
+        expanded.cells.filter((cell) => cell.kind === 'columnHeader').map((cell) => cell.rowIndex)
+      ).size,
+      joinedRows,
+    },
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Table Layout Clustering Utilities
+ *
+ * Catalogs often mix table layouts across pages (e.g. a 4-column accessories
+ * table after 6-column furniture tables). Tables are grouped into layouts by
+ * their header signature so each layout gets its own column mapping, instead of
+ * one mapping being applied to every table.
+ */
+
+import { normalizeHeader } from './mappingTemplates.js';
+
+// Data rows sent to the LLM per layout, so header-less layouts can still be mapped
+const SAMPLE_ROWS_PER_LAYOUT = 2;
+
+interface LayoutTableCell {
+  kind: string;
+  content?: string;
+  rowIndex: number;
+  columnIndex: number;
+}
+
+interface LayoutTable {
+  columnCount?: number;
+  cells: LayoutTableCell[];
+}
+
+export type ColumnMapping = Record<string, number | null>;
+
+export interface TableLayout {
+  layoutId: number;
+  signature: string;
+  headers: Array<{ columnIndex: number; header: string }>;
+  tableIndexes: number[];
+  sampleRows: string[][];
+}
+
+/**
+ * Header signature: normalized header texts in column order.
+ * Tables without header cells (continuations) are keyed by column count.
+ */
+export function headerSignature(table: LayoutTable): string {
+  const headerCells = table.cells
+    .filter((c) => c.kind === 'columnHeader')
+    .sort((a, b) => a.rowIndex - b.rowIndex || a.columnIndex - b.columnIndex);
+
+  if (headerCells.length === 0) {
+    const columnCount =
+      table.columnCount ?? Math.max(0, ...table.cells.map((c) => c.columnIndex + 1));
+    return `no-header:${columnCount}`;
+  }
+
+  return headerCells.map((c) => `${c.columnIndex}=${normalizeHeader(c.content || '')}`).join('|');
+}
+
+/**
+ * Group tables with identical header signatures into layouts (in order of first appearance)
+ */
+export function clusterTableLayouts(tables: LayoutTable[]): TableLayout[] {
+  const layouts: TableLayout[] = [];
+  const bySignature = new Map<string, TableLayout>();
+
+  tables.forEach((table, tableIdx) => {
+    const signature = headerSignature(table);
+    let layout = bySignature.get(signature);
+
+    if (!layout) {
+      layout = {
+        layoutId: layouts.length,
+        signature,
+        headers: table.cells
+          .filter((c) => c.kind === 'columnHeader')
+          .map((c) => ({ columnIndex: c.columnIndex, header: c.content || '' })),
+        tableIndexes: [],
+        sampleRows: [],
+      };
+      layouts.push(layout);
+      bySignature.set(signature, layout);
+    }
+
+    layout.tableIndexes.push(tableIdx);
+
+    const contentCells = table.cells.filter((c) => c.kind === 'content');
+    const rowIndexes = [...new Set(contentCells.map((c) => c.rowIndex))].sort((a, b) => a - b);
+    for (const rowIdx of rowIndexes) {
+      if (layout.sampleRows.length >= SAMPLE_ROWS_PER_LAYOUT) break;
+      // Positional so sample values line up with column indexes
+      const row: string[] = [];
+      contentCells
+        .filter((c) => c.rowIndex === rowIdx)
+        .forEach((c) => (row[c.columnIndex] = c.content || ''));
+      const filled = Array.from(row, (value) => value ?? '');
+      if (filled.some((value) => value.trim())) layout.sampleRows.push(filled);
+    }
+  });
+
+  return layouts;
+}
+
+/**
+ * Describe a layout for the column mapping prompt: headers plus sample rows
+ */
+export function formatLayoutForPrompt(layout: TableLayout): string {
+  const lines = [`Layout ${layout.layoutId} (tables ${layout.tableIndexes.join(', ')}):`];
+
+  if (layout.headers.length === 0) {
+    lines.push('  (no column headers)');
+  }
+  layout.headers.forEach((h) => lines.push(`  Column ${h.columnIndex}: "${h.header}"`));
+  layout.sampleRows.forEach((row) => {
+    const values = row.map((value, colIdx) => `${colIdx}="${value}"`).join(', ');
+    lines.push(`  Sample row: ${values}`);
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Read per-layout mappings from the LLM response.
+ * Accepts the legacy single `columnMapping` shape, which then applies to every layout;
+ * layouts missing from a `layouts` response fall back to `columnMapping` (or nothing).
+ */
+export function resolveLayoutMappings(
+  response: {
+    columnMapping?: ColumnMapping;
+    layouts?: Array<{ layoutId: number; columnMapping?: ColumnMapping }>;
+  },
+  layoutCount: number
+): ColumnMapping[] {
+  const fallback = response.columnMapping || {};
+  const mappings: ColumnMapping[] = Array.from({ length: layoutCount }, () => fallback);
+
+  if (Array.isArray(response.layouts)) {
+    for (const entry of response.layouts) {
+      const layoutId = Number(entry.layoutId);
+      if (Number.isInteger(layoutId) && layoutId >= 0 && layoutId < layoutCount) {
+        mappings[layoutId] = entry.columnMapping || {};
+      }
+    }
+  }
+
+  return mappings;
+}
@@ -0,0 +1,190 @@
+/**
+ * Table Normalization
+ *
+ * Document Intelligence returns a new table each time a price list table continues on
+ * the next page, usually without the header row. Before mapping, such continuation tables
+ * are stitched onto the table they continue so they share its header and layout:
+ * - the continuation has no columnHeader cells
+ * - it has the same column count as the previous table
+ * - it starts on the page after the previous table ends
+ * - its column left edges line up with the previous table's (within COLUMN_EDGE_TOLERANCE)
+ *
+ * Rows are appended with shifted rowIndex; cells keep their own bounding regions so
+ * provenance still points at the right page. Every header-less table gets a decision
+ * (stitched or not, and why) in the OCR JSON's `stitching`.
+ */
+
+import { mergeRegions, RegionLike } from './provenance.js';
+
+// Inches for PDFs - how far column edges may drift between pages
+export const COLUMN_EDGE_TOLERANCE = 0.25;
+
+export interface StitchDecision {
+  tableIndex: number; // Original Document Intelligence table index
+  stitched: boolean;
+  intoTableIndex: number | null; // Normalized table it was appended to
+  rowOffset: number | null; // rowIndex of its first row in that table
+  reason: string;
+}
+
+export interface TableStitching {
+  originalTableCount: number;
+  tableCount: number;
+  sourceTables: number[][]; // Original table indexes making up each normalized table
+  decisions: StitchDecision[];
+}
+
+interface NormalizerCell {
+  kind?: string;
+  rowIndex: number;
+  columnIndex: number;
+  columnSpan?: number;
+  boundingRegions?: RegionLike[];
+}
+
+interface NormalizerTable {
+  rowCount?: number;
+  columnCount?: number;
+  cells: NormalizerCell[];
+  boundingRegions?: RegionLike[];
+  spans?: unknown[];
+}
+
+function hasHeader(table: NormalizerTable): boolean {
+  return table.cells.some((cell) => cell.kind === 'columnHeader');
+}
+
+function rowCountOf(table: NormalizerTable): number {
+  return table.rowCount ?? Math.max(0, ...table.cells.map((cell) => cell.rowIndex + 1));
+}
+
+function columnCountOf(table: NormalizerTable): number {
+  return table.columnCount ?? Math.max(0, ...table.cells.map((cell) => cell.columnIndex + 1));
+}
+
+function pagesOf(table: NormalizerTable): number[] {
+  return (table.boundingRegions || []).map((region) => region.pageNumber);
+}
+
+/**
+ * Left edge of each column from single-column cells; undefined where there is no geometry
+ */
+function columnEdges(table: NormalizerTable): Array<number | undefined> {
+  const edges: Array<number | undefined> = Array.from({ length: columnCountOf(table) });
+  table.cells
+    .filter((cell) => (cell.columnSpan ?? 1) === 1)
+    .forEach((cell) => {
+      const left = mergeRegions(cell.boundingRegions || [])[0]?.polygon[0];
+      const current = edges[cell.columnIndex];
+      if (left !== undefined && (current === undefined || left < current)) {
+        edges[cell.columnIndex] = left;
+      }
+    });
+  return edges;
+}
+
+/**
+ * Why `next` does not continue `previous`, or null when it does
+ */
+function continuationMismatch(previous: NormalizerTable, next: NormalizerTable): string | null {
+  const [previousColumns, nextColumns] = [columnCountOf(previous), columnCountOf(next)];
+  if (previousColumns !== nextColumns) {
+    return `column count differs (${nextColumns} vs ${previousColumns})`;
+  }
+
+  const previousPages = pagesOf(previous);
+  const nextPages = pagesOf(next);
+  if (previousPages.length === 0 || nextPages.length === 0) return 'page unknown';
+  if (Math.min(...nextPages) !== Math.max(...previousPages) + 1) {
+    return 'not on the following page';
+  }
+
+  const previousEdges = columnEdges(previous);
+  const drift = columnEdges(next).map((edge, idx) =>
+    edge === undefined || previousEdges[idx] === undefined
+      ? 0
+      : Math.abs(edge - previousEdges[idx]!)
+  );
+  if (Math.max(0, ...drift) > COLUMN_EDGE_TOLERANCE) return 'column positions differ';
+
+  return null;
+}
+
+function appendTable<T extends NormalizerTable>(target: T, continuation: T, rowOffset: number): T {
+  return {
+    ...target,
+    rowCount: rowOffset + rowCountOf(continuation),
+    cells: [
+      ...target.cells,
+      ...continuation.cells.map((cell) => ({ ...cell, rowIndex: cell.rowIndex + rowOffset })),
+    ],
+    boundingRegions: [...(target.boundingRegions || []), ...(continuation.boundingRegions || [])],
+    spans: [...(target.spans || []), ...(continuation.spans || [])],
+  };
+}
+
+/**
+ * Stitch continuation tables onto the table they continue. Input tables are not modified.
+ */
+export function normalizeTables<T extends NormalizerTable>(
+  tables: T[]
+): { tables: T[]; stitching: TableStitching } {
+  const normalized: T[] = [];
+  const sourceTables: number[][] = [];
+  const decisions: StitchDecision[] = [];
+
+  tables.forEach((table, tableIdx) => {
+    const previousIdx = normalized.length - 1;
+    if (hasHeader(table)) {
+      normalized.push(table);
+      sourceTables.push([tableIdx]);
+      return;
+    }
+
+    const mismatch =
+      previousIdx < 0 ? 'first table' : continuationMismatch(normalized[previousIdx], table);
+    if (mismatch) {
+      normalized.push(table);
+      sourceTables.push([tableIdx]);
+      decisions.push({
+        tableIndex: tableIdx,
+        stitched: false,
+        intoTableIndex: null,
+        rowOffset: null,
+        reason: mismatch,
+      });
+      return;
+    }
+
+    const rowOffset = rowCountOf(normalized[previousIdx]);
+    normalized[previousIdx] = appendTable(normalized[previousIdx], table, rowOffset);
+    sourceTables[previousIdx].push(tableIdx);
+    decisions.push({
+      tableIndex: tableIdx,
+      stitched: true,
+      intoTableIndex: previousIdx,
+      rowOffset,
+      reason: 'continues on the following page with matching columns',
+    });
+  });
+
+  return {
+    tables: normalized,
+    stitching: {
+      originalTableCount: tables.length,
+      tableCount: normalized.length,
+      sourceTables,
+      decisions,
+    },
+  };
+}
+
+/**
+ * First row after the header rows (0 for tables without header cells)
+ */
+export function firstDataRow(table: NormalizerTable): number {
+  const headerRows = table.cells
+    .filter((cell) => cell.kind === 'columnHeader')
+    .map((cell) => cell.rowIndex);
+  return headerRows.length > 0 ? Math.max(...headerRows) + 1 : 0;
+}
@@ -75,11 +75,12 @@ export function parseVendorName(vendorName: string): VendorNameParts | null {
 
 /**
  * Get standardized file name for vendor
+ * @param extension - File extension without dot (default: pdf)
  */
-export function getVendorFileName(vendorName: string): string {
+export function getVendorFileName(vendorName: string, extension: string = 'pdf'): string {
   const parsed = parseVendorName(vendorName);
   if (!parsed) {
     throw new Error(`Invalid vendor name: ${vendorName}`);
   }
-  return parsed.fileName;
+  return parsed.fileName.replace(/\.pdf$/, `.${extension}`);
 }
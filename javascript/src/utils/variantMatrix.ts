@@ -0,0 +1,156 @@
+/**
+ * Variant Matrix
+ *
+ * Some catalogs list an item once with its sizes or options across the row, each with
+ * its own price and sometimes its own SKU:
+ *
+ *   Item #  | Description | 6"     | 8"     | 10"          Item # | Description | -S  | -M
+ *   BV-100  | Bud vase    | $18.00 | $24.00 | $32.00       TS-1   | T-shirt     | $12 | $14
+ *
+ * Variant columns are found in the layout headers, among columns the column mapping left
+ * unmapped (or mapped to price):
+ * - sizes: 6", 8 in, 12 oz, 30 cm, S / M / XL, Small / Large → { size: '6"' }
+ * - SKU suffixes: -S, /BLU, .06 → variant SKU is the parent SKU plus the suffix, { option: 'S' }
+ * - labelled options, e.g. composed from stacked headers: "Size 6\"", "Color Cobalt"
+ *   → { color: 'Cobalt' }
+ * A layout is a matrix when at least MIN_VARIANT_COLUMNS columns qualify.
+ *
+ * Each matrix row becomes a parent product with one variant per offered cell ("-" and
+ * "N/A" mean not offered). A cell holds a price, its own SKU, or both ("BV-100-6 $18.00");
+ * variants without a SKU of their own get `<parent SKU>-<value>` (BV-100-6IN).
+ */
+
+import { parsePriceText } from './priceParser.js';
+import { ProductVariant } from './productSchema.js';
+
+export const MIN_VARIANT_COLUMNS = 2;
+
+export interface VariantColumn {
+  columnIndex: number;
+  header: string;
+  attribute: string; // 'size', 'option', or the header label ('color', 'finish')
+  value: string;
+  skuSuffix: string | null; // Appended to the parent SKU as written ("-S")
+}
+
+interface VariantCell {
+  columnIndex: number;
+  content?: string;
+}
+
+const SIZE =
+  /^(?:\d+(?:[./]\d+)?\s*(?:"|''|in\.?|inch(?:es)?|oz|cm|mm|ft|qt|gal|lbs?|l|ml)|x{0,3}s|m|x{0,3}l|\dxl|small|medium|large|x-large)$/i;
+const SKU_SUFFIX = /^[-/.][a-z0-9]{1,6}$/i;
+const OPTION_LABEL = /^(size|colou?r|finish|style|option)\s+(.{1,20})$/i;
+const NOT_OFFERED = /^(?:[-–—]+|n\/?a|x)$/i;
+const CELL_SKU = /^([a-z0-9][\w./-]*)\s+(.*\d.*)$/i;
+
+function variantColumn(columnIndex: number, header: string): VariantColumn | null {
+  const text = header.trim();
+  const labelled = text.match(OPTION_LABEL);
+  if (labelled) {
+    const value = labelled[2].trim();
+    return {
+      columnIndex,
+      header: text,
+      attribute: labelled[1].toLowerCase().replace('colour', 'color'),
+      value: SKU_SUFFIX.test(value) ? value.slice(1) : value,
+      skuSuffix: SKU_SUFFIX.test(value) ? value : null,
+    };
+  }
+  if (SKU_SUFFIX.test(text)) {
+    return {
+      columnIndex,
+      header: text,
+      attribute: 'option',
+      value: text.slice(1),
+      skuSuffix: text,
+    };
+  }
+  if (SIZE.test(text)) {
+    return { columnIndex, header: text, attribute: 'size', value: text, skuSuffix: null };
+  }
+  return null;
+}
+
+function isCode(token: string): boolean {
+  return /\d/.test(token) && /[a-z-]/i.test(token) && !/[$€£¥]/.test(token);
+}
+
+/**
+ * Variant columns of a layout, or [] when it is not a matrix
+ */
+export function detectVariantColumns(
+  headers: Array<{ columnIndex: number; header: string }>,
+  columnMapping: Record<string, number | null>
+): VariantColumn[] {
+  const mapped = new Set(
+    Object.entries(columnMapping)
+      .filter(([field, idx]) => field !== 'price' && typeof idx === 'number')
+      .map(([, idx]) => idx)
+  );
+  const columns = headers
+    .filter((header) => !mapped.has(header.columnIndex))
+    .map((header) => variantColumn(header.columnIndex, header.header))
+    .filter((column): column is VariantColumn => column !== null)
+    .sort((a, b) => a.columnIndex - b.columnIndex);
+  return columns.length >= MIN_VARIANT_COLUMNS ? columns : [];
+}
+
+/**
+ * Variant SKU for a value without a SKU of its own (8" → 8IN, Small → SMALL)
+ */
+export function variantSku(parentSku: string, column: VariantColumn): string {
+  if (column.skuSuffix) return `${parentSku}${column.skuSuffix}`;
+  const value = column.value
+    .replace(/"|''/g, 'IN')
+    .replace(/[^a-z0-9]/gi, '')
+    .toUpperCase();
+  return `${parentSku}-${value}`;
+}
+
+/**
+ * Variants of one matrix row, in column order
+ */
+export function buildVariants(
+  parentSku: string,
+  rowCells: VariantCell[],
+  columns: VariantColumn[]
+): ProductVariant[] {
+  const variants: ProductVariant[] = [];
+
+  columns.forEach((column) => {
+    const content = rowCells.find((cell) => cell.columnIndex === column.columnIndex)?.content;
+    const text = content?.trim() || '';
+    if (!text || NOT_OFFERED.test(text)) return;
+
+    let cellSku: string | null = null;
+    let priceText = text;
+    const withSku = text.match(CELL_SKU);
+    if (withSku && isCode(withSku[1])) [cellSku, priceText] = [withSku[1], withSku[2]];
+    else if (!/\s/.test(text) && isCode(text)) [cellSku, priceText] = [text, ''];
+
+    const parsed = parsePriceText(priceText);
+    if (!cellSku && parsed.amount === null && !parsed.placeholder) return;
+
+    const variant: ProductVariant = {
+      sku: cellSku || variantSku(parentSku, column),
+      attributes: { [column.attribute]: column.value },
+      price: parsed.amount,
+    };
+    if (priceText) variant.priceDetails = parsed;
+    variants.push(variant);
+  });
+
+  return variants;
+}
+
+/**
+ * The parent's "from" price when no price column was mapped outside the matrix
+ */
+export function lowestVariantPrice(variants: ProductVariant[]): number | null {
+  const prices = variants
+    .map((variant) => variant.price)
+    .filter((price): price is number => price !== null);
+  return prices.length > 0 ? Math.min(...prices) : null;
+}
@@ -72,6 +72,79 @@ describe('Integration: Export/Confirm Mapping API', () => {
     expect(afterExport.export_status).toBe('confirmed');
   });
 
+  it('should upsert by SKU and record price history across monthly price lists', async () => {
+    // Arrange - November list, confirmed
+    const novemberId = await insertTestDocument({
+      vendorName: 'TEST_UPSERT_11_25',
+      documentName: 'TEST_UPSERT_11_25.pdf',
+      processingStatus: 'completed',
+      productCount: 2,
+      aiMappingResult: {
+        products: [
+          { name: 'Product 1', sku: 'A001', price: 10.0 },
+          { name: 'Product 2', sku: 'A002', price: 20.0 },
+        ],
+      },
+    });
+    await fetch(`${FUNCTION_BASE_URL}/api/confirmMapping`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ documentId: novemberId }),
+    });
+
+    // December list: A001 re-priced, A002 dropped, A003 added
+    const decemberId = await insertTestDocument({
+      vendorName: 'TEST_UPSERT_12_25',
+      documentName: 'TEST_UPSERT_12_25.pdf',
+      processingStatus: 'completed',
+      productCount: 2,
+      aiMappingResult: {
+        products: [
+          { name: 'Product 1', sku: 'A001', price: 12.5 },
+          { name: 'Product 3', sku: 'A003', price: 5.0 },
+        ],
+      },
+    });
+
+    // Act
+    const response = await fetch(`${FUNCTION_BASE_URL}/api/confirmMapping`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ documentId: decemberId }),
+    });
+
+    // Assert
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result.newProducts).toBe(1);
+    expect(result.priceChanges).toBe(1);
+    expect(result.discontinued).toBe(1);
+
+    const db = await getTestDbPool();
+    const productsResult = await db
+      .request()
+      .query(
+        "SELECT * FROM vvocr.vendor_products WHERE vendor_base_name = 'TEST_UPSERT' ORDER BY sku ASC"
+      );
+    expect(productsResult.recordset).toHaveLength(3);
+    expect(Number(productsResult.recordset[0].price)).toBe(12.5);
+    expect(productsResult.recordset[1].is_discontinued).toBe(true);
+    expect(productsResult.recordset[2].is_discontinued).toBe(false);
+
+    const historyResult = await db
+      .request()
+      .input('sourceDocId', sql.UniqueIdentifier, decemberId)
+      .query(
+        'SELECT sku, change_type, old_price, new_price FROM vvocr.vendor_product_price_history WHERE source_document_id = @sourceDocId ORDER BY sku ASC'
+      );
+    expect(historyResult.recordset.map((row) => row.change_type)).toEqual([
+      'price_change',
+      'discontinued',
+      'new',
+    ]);
+    expect(Number(historyResult.recordset[0].old_price)).toBe(10);
+  });
+
   it('should reject confirmation with invalid UUID', async () => {
     // Act
     const response = await fetch(`${FUNCTION_BASE_URL}/api/confirmMapping`, {
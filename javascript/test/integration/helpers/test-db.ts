@@ -60,6 +60,8 @@ export async function cleanTestDatabase(): Promise<void> {
   // Delete in correct order (respect foreign keys)
   await db.request().query('DELETE FROM vvocr.vendor_products');
   await db.request().query('DELETE FROM vvocr.document_processing_results');
+  await db.request().query('DELETE FROM vvocr.vendor_mapping_templates');
+  await db.request().query('DELETE FROM vvocr.vendor_product_price_history');
 }
 
 /**
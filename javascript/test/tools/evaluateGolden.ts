@@ -0,0 +1,311 @@
+#!/usr/bin/env tsx
+/**
+ * Golden Dataset Evaluation (offline)
+ *
+ * Runs the mapper's column-mapping logic on saved OCR results and scores the products
+ * against the benchmark XLSX files in test/e2e/docs - no Azure services needed.
+ *
+ * Usage:
+ *   tsx test/tools/evaluateGolden.ts [VENDOR ...]
+ *       Every vendor folder in test/e2e/docs (or the ones named) that has an ocr.json
+ *   tsx test/tools/evaluateGolden.ts --ocr <ocr.json> --benchmark <benchmark.xlsx>
+ *       A single document
+ *
+ * Options:
+ *   --llm-response <file>  Recorded column-mapping answer (JSON) to use as the LLM response
+ *   --prompt-variant <v>   Column mapping prompt variant (default 'default')
+ *   --min-f1 <percent>     Exit with code 1 when any vendor scores below this F1
+ *   --json                 Print the results as JSON
+ *
+ * Storing runs and drift (needs SQL_CONNECTION_STRING, see src/utils/drift.ts):
+ *   --save                 Store the run and compare each vendor with the baseline
+ *   --baseline             Store the run as the new baseline (implies --save)
+ *   --model <name>         Model recorded for the run (default: the LLM provider's model)
+ *   --triggered-by <who>   Recorded with the run (default: USER)
+ *   --fail-on <severity>   Exit with code 1 when a vendor's accuracy dropped with at least
+ *                          this drift severity (default Critical)
+ *   --document-id <uuid>   Source document of --ocr (its validation_results is updated)
+ *
+ * Vendor folder files:
+ *   ocr.json               The document's bronze-layer ocr/{document_id}.json, either
+ *                          renamed or kept as {document_id}.json (then its
+ *                          validation_results is updated on --save)
+ *   llm-response.json      Recorded column-mapping answer (optional, --llm-response wins)
+ *   *.xlsx                 Benchmark (the first .xlsx in the folder)
+ *
+ * Without a recorded response the LLM comes from LLM_PROVIDER, which defaults to 'fake'
+ * here (answers with LLM_FAKE_RESPONSE), so nothing calls a live model unless asked to.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  DRIFT_SEVERITIES,
+  DriftSeverity,
+  saveEvaluationRun,
+  SavedEvaluationRun,
+  severityAtLeast,
+} from '../../src/utils/drift';
+import {
+  EvaluationMetrics,
+  evaluateProducts,
+  mapOffline,
+  parseBenchmarkWorkbook,
+} from '../../src/utils/evaluation';
+import { createFakeLlmProvider, createLlmProvider, LlmProvider } from '../../src/utils/llmProvider';
+import { PROMPT_VARIANTS, PromptVariant } from '../../src/utils/promptVariants';
+
+// ES module equivalent of __dirname
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DOCS_DIR = join(__dirname, '../e2e/docs');
+const DOCUMENT_OCR_FILE = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.json$/i;
+
+interface EvaluationTarget {
+  vendor: string;
+  ocrPath: string;
+  benchmarkPath: string;
+  llmResponsePath?: string;
+  documentId?: string | null;
+}
+
+interface VendorResult {
+  vendor: string;
+  documentId?: string | null;
+  model?: string;
+  metrics?: EvaluationMetrics;
+  layoutMappings?: unknown;
+  rejectedRows?: number;
+  error?: string;
+}
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string | boolean> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json' || arg === '--save' || arg === '--baseline') options[arg.slice(2)] = true;
+    else if (arg.startsWith('--')) options[arg.slice(2)] = argv[++i];
+    else positional.push(arg);
+  }
+  return { options, positional };
+}
+
+function vendorTargets(vendors: string[]): EvaluationTarget[] {
+  const folders = vendors.length > 0 ? vendors : readdirSync(DOCS_DIR);
+  return folders
+    .map((vendor) => ({ vendor, dir: join(DOCS_DIR, vendor) }))
+    .filter(({ dir }) => existsSync(dir) && statSync(dir).isDirectory())
+    .map(({ vendor, dir }) => {
+      const files = readdirSync(dir);
+      const ocrFile = files.includes('ocr.json')
+        ? 'ocr.json'
+        : files.find((file) => DOCUMENT_OCR_FILE.test(file));
+      return { vendor, dir, files, ocrFile };
+    })
+    .filter(({ ocrFile }) => ocrFile)
+    .map(({ vendor, dir, files, ocrFile }) => {
+      const benchmark = files.find((file) => file.endsWith('.xlsx'));
+      return {
+        vendor,
+        ocrPath: join(dir, ocrFile!),
+        benchmarkPath: benchmark ? join(dir, benchmark) : '',
+        llmResponsePath: existsSync(join(dir, 'llm-response.json'))
+          ? join(dir, 'llm-response.json')
+          : undefined,
+        documentId: ocrFile!.match(DOCUMENT_OCR_FILE)?.[1] ?? null,
+      };
+    });
+}
+
+function llmFor(responsePath: string | undefined): LlmProvider {
+  if (responsePath) {
+    const recorded = JSON.parse(readFileSync(responsePath, 'utf-8'));
+    return createFakeLlmProvider(() => recorded, 'recorded');
+  }
+  return createLlmProvider(
+    {},
+    { ...process.env, LLM_PROVIDER: process.env.LLM_PROVIDER || 'fake' }
+  );
+}
+
+async function evaluateTarget(
+  target: EvaluationTarget,
+  promptVariant: PromptVariant,
+  responsePath?: string
+): Promise<VendorResult> {
+  const { vendor, documentId } = target;
+  try {
+    if (!target.benchmarkPath) throw new Error('No benchmark XLSX found');
+    const ocrData = JSON.parse(readFileSync(target.ocrPath, 'utf-8'));
+    const benchmark = parseBenchmarkWorkbook(readFileSync(target.benchmarkPath));
+    const llm = llmFor(responsePath || target.llmResponsePath);
+    const mapping = await mapOffline(ocrData, llm, promptVariant);
+    return {
+      vendor,
+      documentId,
+      model: llm.model,
+      metrics: evaluateProducts(mapping.products, benchmark),
+      layoutMappings: mapping.layoutMappings,
+      rejectedRows: mapping.rejectedRows,
+    };
+  } catch (err: unknown) {
+    return { vendor, documentId, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Store the run with each vendor's drift against the baseline. The database module needs
+ * SQL_CONNECTION_STRING when it loads, so it is only imported here.
+ */
+async function saveRun(
+  results: VendorResult[],
+  options: Record<string, string | boolean>,
+  promptVariant: PromptVariant
+): Promise<SavedEvaluationRun> {
+  const { closeConnectionPool, withDatabase } = await import('../../src/utils/database');
+  const models = [...new Set(results.map((result) => result.model).filter(Boolean))];
+  try {
+    return await withDatabase((pool) =>
+      saveEvaluationRun(pool, {
+        model: options.model ? String(options.model) : models.join(', ') || 'unknown',
+        promptVariant,
+        triggeredBy: options['triggered-by']
+          ? String(options['triggered-by'])
+          : process.env.USER || null,
+        isBaseline: Boolean(options.baseline),
+        vendors: results.map(({ vendor, documentId, metrics, error }) => ({
+          vendor,
+          documentId,
+          metrics,
+          error,
+        })),
+      })
+    );
+  } finally {
+    await closeConnectionPool();
+  }
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '  n/a' : `${value.toFixed(1)}%`;
+}
+
+function printResult(result: VendorResult) {
+  console.log(`\n📋 ${result.vendor}`);
+  if (!result.metrics) {
+    console.log(`  ❌ ${result.error}`);
+    return;
+  }
+
+  const { metrics } = result;
+  console.log(
+    `  Benchmark: ${metrics.totalBenchmark} | Extracted: ${metrics.totalExtracted} | Matched: ${metrics.matchedProducts} | Rejected rows: ${result.rejectedRows}`
+  );
+  console.log(
+    `  P: ${formatPercent(metrics.precision)} | R: ${formatPercent(metrics.recall)} | F1: ${formatPercent(metrics.f1Score)}`
+  );
+  Object.entries(metrics.fieldAccuracy).forEach(([field, accuracy]) => {
+    console.log(`  ${field.padEnd(12)} ${formatPercent(accuracy)}`);
+  });
+  if (metrics.missedSkus.length > 0) {
+    console.log(`  Missed: ${metrics.missedSkus.slice(0, 10).join(', ')}`);
+  }
+  if (metrics.unexpectedSkus.length > 0) {
+    console.log(`  Unexpected: ${metrics.unexpectedSkus.slice(0, 10).join(', ')}`);
+  }
+}
+
+function printDrift(saved: SavedEvaluationRun, isBaseline: boolean) {
+  console.log(
+    `\n💾 Saved evaluation run ${saved.runId}${isBaseline ? ' as the baseline' : ''} (average F1: ${formatPercent(saved.averageF1)})`
+  );
+  saved.vendors.forEach(({ vendor, drift }) => {
+    if (!drift) {
+      console.log(`  ${vendor.padEnd(16)} no baseline`);
+      return;
+    }
+    const changed = drift.metrics
+      .filter((metric) => metric.severity !== 'None')
+      .map((metric) => `${metric.metric} ${metric.delta > 0 ? '+' : ''}${metric.delta}`);
+    console.log(
+      `  ${vendor.padEnd(16)} ${drift.severity}${drift.regressed ? ' ⚠️ regressed' : ''}${changed.length > 0 ? ` (${changed.join(', ')})` : ''}`
+    );
+  });
+  console.log(`  Run drift: ${saved.severity ?? 'no baseline'}`);
+}
+
+async function main() {
+  const { options, positional } = parseArgs(process.argv.slice(2));
+  const responsePath = options['llm-response'] as string | undefined;
+  const promptVariant = String(options['prompt-variant'] || 'default') as PromptVariant;
+  const failOn = String(options['fail-on'] || 'Critical') as DriftSeverity;
+  const save = Boolean(options.save || options.baseline);
+
+  if (!PROMPT_VARIANTS.includes(promptVariant)) {
+    console.error(`❌ Unknown prompt variant '${promptVariant}': ${PROMPT_VARIANTS.join(', ')}`);
+    process.exit(1);
+  }
+  if (!DRIFT_SEVERITIES.includes(failOn)) {
+    console.error(`❌ Unknown drift severity '${failOn}': ${DRIFT_SEVERITIES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const targets: EvaluationTarget[] = options.ocr
+    ? [
+        {
+          vendor: String(options.ocr),
+          ocrPath: String(options.ocr),
+          benchmarkPath: String(options.benchmark || ''),
+          documentId: options['document-id']
+            ? String(options['document-id'])
+            : (basename(String(options.ocr)).match(DOCUMENT_OCR_FILE)?.[1] ?? null),
+        },
+      ]
+    : vendorTargets(positional);
+
+  if (targets.length === 0) {
+    console.log(`📭 No vendor folders with an ocr.json in ${DOCS_DIR}`);
+    process.exit(1);
+  }
+
+  const results: VendorResult[] = [];
+  for (const target of targets) {
+    results.push(await evaluateTarget(target, promptVariant, responsePath));
+  }
+
+  const saved = save ? await saveRun(results, options, promptVariant) : null;
+
+  if (options.json) {
+    console.log(JSON.stringify(saved ? { ...saved, results } : results, null, 2));
+  } else {
+    results.forEach(printResult);
+    if (saved) printDrift(saved, Boolean(options.baseline));
+  }
+
+  const minF1 = options['min-f1'] !== undefined ? parseFloat(String(options['min-f1'])) : null;
+  const failed = results.filter(
+    (result) => !result.metrics || (minF1 !== null && result.metrics.f1Score < minF1)
+  );
+  if (failed.length > 0) {
+    console.error(
+      `\n❌ ${failed.length} vendor(s) failed: ${failed.map((r) => r.vendor).join(', ')}`
+    );
+    process.exit(1);
+  }
+
+  // Accuracy drops at the --fail-on severity block the change, as in the client plan
+  const drifted = (saved?.vendors || []).filter(
+    ({ drift }) =>
+      drift?.regressed &&
+      drift.metrics.some((metric) => metric.delta < 0 && severityAtLeast(metric.severity, failOn))
+  );
+  if (drifted.length > 0) {
+    console.error(
+      `\n❌ Accuracy dropped by ${failOn} drift or more: ${drifted.map((v) => v.vendor).join(', ')}`
+    );
+    process.exit(1);
+  }
+}
+
+main();
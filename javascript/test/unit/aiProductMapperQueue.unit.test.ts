@@ -94,6 +94,22 @@ describe('AI Product Mapper Queue - Unit Tests', () => {
     expect(context.error).toHaveBeenCalledWith(expect.stringContaining('Queue processing failed'));
   });
 
+  it('should not retry when mapping is parked by a budget cap', async () => {
+    vi.mocked(aiProductMapperHandler).mockResolvedValue({
+      status: 402,
+      body: JSON.stringify({ error: 'Blocked by global daily budget of $5.00' }),
+    } as any);
+
+    const context = mockInvocationContext();
+
+    await expect(
+      aiProductMapperQueueTrigger({ documentId: 'test-uuid-1234' }, context as any)
+    ).resolves.toBeUndefined();
+
+    expect(context.warn).toHaveBeenCalledWith(expect.stringContaining('parked'));
+    expect(context.error).not.toHaveBeenCalled();
+  });
+
   it('should throw error when aiProductMapperHandler throws', async () => {
     vi.mocked(aiProductMapperHandler).mockRejectedValue(new Error('OpenAI timeout'));
 
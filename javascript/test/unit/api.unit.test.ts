@@ -2,14 +2,20 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 // Mock Azure SDK modules BEFORE importing the handler
 vi.mock('@azure/storage-blob');
+vi.mock('@azure/storage-queue');
 vi.mock('mssql');
 
 import { BlobServiceClient } from '@azure/storage-blob';
+import { QueueServiceClient } from '@azure/storage-queue';
 import sql from 'mssql';
 import {
+  compareVersionsHandler,
   confirmMappingHandler,
   deleteVendorHandler,
+  pinVersionHandler,
+  processingStatusHandler,
   reprocessMappingHandler,
+  uploadCsvTemplateHandler,
   uploadHandler,
 } from '../../src/functions/api';
 import {
@@ -17,6 +23,8 @@ import {
   mockHttpRequest,
   mockInvocationContext,
   mockSqlConnection,
+  mockSqlTable,
+  mockSqlTransaction,
   resetMockState,
 } from './setup/mocks';
 
@@ -229,7 +237,7 @@ describe('Upload Handler - Unit Tests', () => {
     expect(response.jsonBody.error).toContain('Database error');
   });
 
-  it('should reject Excel files (PDF-only validation)', async () => {
+  it('should accept Excel files and store them with the .xlsx extension', async () => {
     const request = mockHttpRequest({
       formData: vi.fn().mockResolvedValue(
         new Map<string, any>([
@@ -249,11 +257,12 @@ describe('Upload Handler - Unit Tests', () => {
 
     const response = await uploadHandler(request as any, context as any);
 
-    expect(response.status).toBe(400);
-    expect(response.jsonBody.error).toContain('Only PDF files are allowed');
+    expect(response.status).toBe(201);
+    expect(response.jsonBody.documentName).toBe('BETTER_LIVING_11_25.xlsx');
+    expect(response.jsonBody.filePath).toBe('BETTER_LIVING_11_25/BETTER_LIVING_11_25.xlsx');
   });
 
-  it('should reject image files (PDF-only validation)', async () => {
+  it('should reject image files (PDF/Excel-only validation)', async () => {
     const request = mockHttpRequest({
       formData: vi.fn().mockResolvedValue(
         new Map<string, any>([
@@ -274,7 +283,7 @@ describe('Upload Handler - Unit Tests', () => {
     const response = await uploadHandler(request as any, context as any);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody.error).toContain('Only PDF files are allowed');
+    expect(response.jsonBody.error).toContain('Only PDF and Excel (XLSX/XLS) files are allowed');
   });
 
   it('should use standardized file naming without random UUID', async () => {
@@ -288,15 +297,15 @@ describe('Upload Handler - Unit Tests', () => {
     expect(response.jsonBody.documentName).toBe('BETTER_LIVING_11_25.pdf');
   });
 
-  it('should only accept PDF files after POC enhancement', async () => {
-    const xlsxRequest = mockHttpRequest({
+  it('should accept legacy XLS files sent as application/octet-stream', async () => {
+    const xlsRequest = mockHttpRequest({
       formData: vi.fn().mockResolvedValue(
         new Map<string, any>([
           [
             'file',
             {
-              name: 'products.xlsx',
-              type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+              name: 'products.xls',
+              type: 'application/octet-stream',
               arrayBuffer: vi.fn().mockResolvedValue(Buffer.from('excel data')),
             },
           ],
@@ -306,10 +315,10 @@ describe('Upload Handler - Unit Tests', () => {
     });
     const context = mockInvocationContext();
 
-    const response = await uploadHandler(xlsxRequest as any, context as any);
+    const response = await uploadHandler(xlsRequest as any, context as any);
 
-    expect(response.status).toBe(400);
-    expect(response.jsonBody.error).toContain('Only PDF files are allowed');
+    expect(response.status).toBe(201);
+    expect(response.jsonBody.documentName).toBe('BETTER_LIVING_11_25.xls');
   });
 
   it('should store vendor_name in database on upload', async () => {
@@ -457,12 +466,22 @@ describe('Delete Vendor Handler - Unit Tests', () => {
 });
 
 describe('Reprocess Mapping Handler - Unit Tests', () => {
+  let mockQueueClient: { createIfNotExists: any; sendMessage: any };
+
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(sql.ConnectionPool).mockImplementation(() => mockSqlConnection() as any);
+
+    mockQueueClient = {
+      createIfNotExists: vi.fn().mockResolvedValue({}),
+      sendMessage: vi.fn().mockResolvedValue({ messageId: 'mock-message-id' }),
+    };
+    vi.mocked(QueueServiceClient.fromConnectionString).mockReturnValue({
+      getQueueClient: vi.fn().mockReturnValue(mockQueueClient),
+    } as any);
   });
 
-  it('should reset document status to ocr_complete', async () => {
+  it('should create a new version and queue it for AI mapping', async () => {
     const mockRequest = {
       input: vi.fn().mockReturnThis(),
       query: vi
@@ -513,6 +532,152 @@ describe('Reprocess Mapping Handler - Unit Tests', () => {
     const body = JSON.parse(response.body as string);
     expect(body.newResultId).toBe('test-uuid-5678');
     expect(body.nextStep).toContain('AI mapping');
+    expect(body.queued).toBe(true);
+    expect(body.queueMessageId).toBe('mock-message-id');
+    expect(body.processingStatus).toBe('mapping_queued');
+    expect(body.statusUrl).toBe('/api/processingStatus?documentId=test-uuid-5678');
+
+    expect(mockRequest.query.mock.calls[1][0]).toContain("'mapping_queued'");
+    const message = mockQueueClient.sendMessage.mock.calls[0][0];
+    expect(JSON.parse(Buffer.from(message, 'base64').toString())).toEqual({
+      documentId: 'test-uuid-5678',
+    });
+  });
+
+  it('should fall back to ocr_complete when the mapping cannot be queued', async () => {
+    mockQueueClient.sendMessage.mockRejectedValue(new Error('Queue unavailable'));
+    const mockRequest = {
+      input: vi.fn().mockReturnThis(),
+      query: vi
+        .fn()
+        .mockResolvedValueOnce({
+          recordset: [
+            { document_name: 'test.pdf', doc_intel_structured_data: '{}', reprocessing_count: 0 },
+          ],
+        })
+        .mockResolvedValueOnce({ recordset: [{ result_id: 'test-uuid-5678' }] })
+        .mockResolvedValue({ rowsAffected: [1] }),
+    };
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () =>
+        ({
+          connect: vi.fn().mockResolvedValue(undefined),
+          request: vi.fn().mockReturnValue(mockRequest),
+          close: vi.fn().mockResolvedValue(undefined),
+        }) as any
+    );
+    const context = mockInvocationContext();
+
+    const response = await reprocessMappingHandler(
+      { json: vi.fn().mockResolvedValue({ documentId: 'test-uuid-1234' }) } as any,
+      context as any
+    );
+
+    expect(response.status).toBe(200);
+    const body = JSON.parse(response.body as string);
+    expect(body.queued).toBe(false);
+    expect(body.processingStatus).toBe('ocr_complete');
+    expect(body.nextStep).toContain('/api/aiProductMapper');
+    expect(mockRequest.query.mock.calls[2][0]).toContain("processing_status = 'ocr_complete'");
+    expect(context.warn).toHaveBeenCalled();
+  });
+
+  it('should store model, prompt variant and column mapping overrides on the new version', async () => {
+    const mockRequest = {
+      input: vi.fn().mockReturnThis(),
+      query: vi
+        .fn()
+        .mockResolvedValueOnce({
+          recordset: [
+            {
+              document_name: 'test.pdf',
+              vendor_name: 'ACME_01_26',
+              doc_intel_structured_data: '{}',
+              reprocessing_count: 2,
+              parent_document_id: 'root-uuid-0000',
+            },
+          ],
+        })
+        .mockResolvedValueOnce({ recordset: [{ result_id: 'test-uuid-5678' }] }),
+    };
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () =>
+        ({
+          connect: vi.fn().mockResolvedValue(undefined),
+          request: vi.fn().mockReturnValue(mockRequest),
+          close: vi.fn().mockResolvedValue(undefined),
+        }) as any
+    );
+
+    const request = {
+      json: vi.fn().mockResolvedValue({
+        documentId: 'test-uuid-1234',
+        model: 'gpt-4o-mini',
+        promptVariant: 'strict-headers',
+        temperature: 0.2,
+        columnMapping: { sku: 0, name: 1, price: 3 },
+      }),
+    };
+
+    const response = await reprocessMappingHandler(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(200);
+    const storedOverrides = mockRequest.input.mock.calls.find(
+      (call: any) => call[0] === 'mappingOverrides'
+    )[2];
+    expect(JSON.parse(storedOverrides)).toEqual({
+      model: 'gpt-4o-mini',
+      promptVariant: 'strict-headers',
+      temperature: 0.2,
+      columnMapping: { sku: 0, name: 1, price: 3 },
+    });
+    expect(JSON.parse(response.body as string).version).toBe(3);
+  });
+
+  it('should return 400 without creating a version when the document has no OCR results', async () => {
+    const mockRequest = {
+      input: vi.fn().mockReturnThis(),
+      query: vi.fn().mockResolvedValueOnce({
+        recordset: [
+          {
+            document_name: 'test.pdf',
+            doc_intel_structured_data: null,
+            processing_status: 'budget_blocked',
+            reprocessing_count: 0,
+          },
+        ],
+      }),
+    };
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () =>
+        ({
+          connect: vi.fn().mockResolvedValue(undefined),
+          request: vi.fn().mockReturnValue(mockRequest),
+          close: vi.fn().mockResolvedValue(undefined),
+        }) as any
+    );
+
+    const response = await reprocessMappingHandler(
+      { json: vi.fn().mockResolvedValue({ documentId: 'test-uuid-1234' }) } as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body).toContain('/api/resumeDocument');
+    expect(mockRequest.query).toHaveBeenCalledTimes(1);
+    expect(mockQueueClient.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for an unknown prompt variant', async () => {
+    const request = {
+      json: vi.fn().mockResolvedValue({ documentId: 'test-uuid-1234', promptVariant: 'creative' }),
+    };
+
+    const response = await reprocessMappingHandler(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(400);
+    expect(response.body).toContain("Unknown promptVariant 'creative'");
+    expect(sql.ConnectionPool).not.toHaveBeenCalled();
   });
 
   it('should return 400 when documentId is missing', async () => {
@@ -549,10 +714,280 @@ describe('Reprocess Mapping Handler - Unit Tests', () => {
   });
 });
 
+describe('Processing Status Handler - Unit Tests', () => {
+  const mockStatusPool = (recordset: unknown[]) => {
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () =>
+        ({
+          connect: vi.fn().mockResolvedValue(undefined),
+          request: vi.fn().mockReturnValue({
+            input: vi.fn().mockReturnThis(),
+            query: vi.fn().mockResolvedValue({ recordset }),
+          }),
+          close: vi.fn().mockResolvedValue(undefined),
+        }) as any
+    );
+  };
+
+  const statusRequest = (documentId: string | null = null) =>
+    ({
+      query: { get: vi.fn((key: string) => (key === 'documentId' ? documentId : null)) },
+    }) as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report a queued version as not terminal', async () => {
+    mockStatusPool([
+      {
+        result_id: 'test-uuid-5678',
+        parent_document_id: 'test-uuid-1234',
+        reprocessing_count: 1,
+        processing_status: 'mapping_queued',
+        export_status: 'pending',
+        product_count: null,
+        error_message: null,
+      },
+    ]);
+
+    const response = await processingStatusHandler(
+      statusRequest('test-uuid-5678'),
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(200);
+    const body = JSON.parse(response.body as string);
+    expect(body.processingStatus).toBe('mapping_queued');
+    expect(body.isTerminal).toBe(false);
+    expect(body.version).toBe(1);
+    expect(body.parentDocumentId).toBe('test-uuid-1234');
+  });
+
+  it('should return the error message of a failed run', async () => {
+    mockStatusPool([
+      {
+        result_id: 'test-uuid-5678',
+        reprocessing_count: 1,
+        processing_status: 'failed',
+        error_message: 'Missing AI project configuration',
+      },
+    ]);
+
+    const response = await processingStatusHandler(
+      statusRequest('test-uuid-5678'),
+      mockInvocationContext() as any
+    );
+
+    const body = JSON.parse(response.body as string);
+    expect(body.isTerminal).toBe(true);
+    expect(body.error).toBe('Missing AI project configuration');
+  });
+
+  it('should return 404 when the document does not exist', async () => {
+    mockStatusPool([]);
+
+    const response = await processingStatusHandler(
+      statusRequest('test-uuid-0000'),
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 when documentId is missing', async () => {
+    const response = await processingStatusHandler(statusRequest(), mockInvocationContext() as any);
+
+    expect(response.status).toBe(400);
+    expect(sql.ConnectionPool).not.toHaveBeenCalled();
+  });
+});
+
 describe('Confirm Mapping Handler - Unit Tests', () => {
+  let mockTransaction: ReturnType<typeof mockSqlTransaction>;
+  let stagingTable: ReturnType<typeof mockSqlTable>;
+
+  // Pool whose first query returns a completed, not yet exported document
+  const completedDocumentPool = (products: any[], chain: Record<string, unknown> = {}) => ({
+    connect: vi.fn().mockResolvedValue(undefined),
+    request: vi.fn().mockReturnValue({
+      input: vi.fn().mockReturnThis(),
+      query: vi
+        .fn()
+        .mockResolvedValueOnce({
+          recordset: [
+            {
+              result_id: 'test-uuid-1234',
+              document_name: 'catalog.pdf',
+              vendor_name: 'ACME',
+              ai_mapping_result: JSON.stringify({ vendor: 'ACME', products }),
+              processing_status: 'completed',
+              export_status: 'not_exported',
+              ...chain,
+            },
+          ],
+        })
+        .mockResolvedValue({ rowsAffected: [1] }),
+    }),
+    close: vi.fn().mockResolvedValue(undefined),
+  });
+
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(sql.ConnectionPool).mockImplementation(() => mockSqlConnection() as any);
+
+    mockTransaction = mockSqlTransaction();
+    stagingTable = mockSqlTable();
+    vi.mocked(sql.Transaction).mockImplementation(() => mockTransaction as any);
+    vi.mocked(sql.Table).mockImplementation(() => stagingTable as any);
+  });
+
+  it('should bulk insert products and flip export_status in one transaction', async () => {
+    const source = { tableIndex: 0, rowIndex: 1, pageNumber: 2, boundingRegions: [], cells: [] };
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () =>
+        completedDocumentPool([
+          { name: 'Widget A', sku: 'W001', price: 19.99, cost: 12.5, upc: '012345678905', source },
+          { name: 'Widget B', sku: 'W002', price: 29.99 },
+        ]) as any
+    );
+    const request = {
+      json: vi.fn().mockResolvedValue({ documentId: 'test-uuid-1234' }),
+    };
+    const context = mockInvocationContext();
+
+    const response = await confirmMappingHandler(request as any, context as any);
+
+    expect(response.status).toBe(200);
+    expect(mockTransaction.begin).toHaveBeenCalledTimes(1);
+    expect(mockTransaction.commit).toHaveBeenCalledTimes(1);
+    expect(mockTransaction.rollback).not.toHaveBeenCalled();
+
+    const txRequest = mockTransaction.request();
+    expect(txRequest.bulk).toHaveBeenCalledTimes(1);
+    expect(stagingTable.rows).toHaveLength(2);
+    expect(stagingTable.rows[0]).toEqual([
+      'Widget A',
+      'W001',
+      19.99,
+      null,
+      null,
+      12.5,
+      null,
+      null,
+      '012345678905',
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      JSON.stringify(source),
+    ]);
+    expect(stagingTable.rows[1].at(-1)).toBeNull(); // No provenance
+
+    const queries = txRequest.query.mock.calls.map((call: any) => call[0]);
+    expect(queries.some((q: string) => q.includes('MERGE vvocr.vendor_products'))).toBe(true);
+    expect(
+      queries.some((q: string) => q.includes('INSERT INTO vvocr.vendor_product_price_history'))
+    ).toBe(true);
+    expect(queries.some((q: string) => q.includes("export_status = 'confirmed'"))).toBe(true);
+    expect(queries.some((q: string) => q.includes('SET pinned_result_id = @documentId'))).toBe(
+      true
+    );
+  });
+
+  it('should return 409 when another version of the chain is pinned', async () => {
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () =>
+        completedDocumentPool([{ name: 'Widget A', sku: 'W001', price: 19.99 }], {
+          pinned_result_id: 'pinned-uuid-0002',
+        }) as any
+    );
+    const request = {
+      json: vi.fn().mockResolvedValue({ documentId: 'test-uuid-1234' }),
+    };
+
+    const response = await confirmMappingHandler(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(409);
+    expect(response.body).toContain('pinned-uuid-0002');
+    expect(mockTransaction.begin).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when an unpinned chain already has an exported version', async () => {
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () =>
+        completedDocumentPool([{ name: 'Widget A', sku: 'W001', price: 19.99 }], {
+          exported_version: 0,
+        }) as any
+    );
+    const request = {
+      json: vi.fn().mockResolvedValue({ documentId: 'test-uuid-1234' }),
+    };
+
+    const response = await confirmMappingHandler(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(409);
+    expect(response.body).toContain('Version 0 of this document has already been exported');
+    expect(mockTransaction.begin).not.toHaveBeenCalled();
+  });
+
+  it('should export the pinned version even when another version was exported', async () => {
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () =>
+        completedDocumentPool([{ name: 'Widget A', sku: 'W001', price: 19.99 }], {
+          pinned_result_id: 'TEST-UUID-1234',
+          exported_version: 0,
+        }) as any
+    );
+    const request = {
+      json: vi.fn().mockResolvedValue({ documentId: 'test-uuid-1234' }),
+    };
+
+    const response = await confirmMappingHandler(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(200);
+    expect(mockTransaction.commit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should roll back and leave the document unconfirmed when the export fails', async () => {
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () => completedDocumentPool([{ name: 'Widget A', sku: 'W001', price: 19.99 }]) as any
+    );
+    mockTransaction.request().bulk.mockRejectedValueOnce(new Error('Bulk load failed'));
+    const request = {
+      json: vi.fn().mockResolvedValue({ documentId: 'test-uuid-1234' }),
+    };
+    const context = mockInvocationContext();
+
+    const response = await confirmMappingHandler(request as any, context as any);
+
+    expect(response.status).toBe(500);
+    expect(response.body).toContain('Bulk load failed');
+    expect(mockTransaction.rollback).toHaveBeenCalledTimes(1);
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+    const queries = mockTransaction.request().query.mock.calls.map((call: any) => call[0]);
+    expect(queries.some((q: string) => q.includes("export_status = 'confirmed'"))).toBe(false);
+  });
+
+  it('should not export twice when a concurrent confirm already committed', async () => {
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () => completedDocumentPool([{ name: 'Widget A', sku: 'W001', price: 19.99 }]) as any
+    );
+    mockTransaction = mockSqlTransaction('confirmed');
+    vi.mocked(sql.Transaction).mockImplementation(() => mockTransaction as any);
+    const request = {
+      json: vi.fn().mockResolvedValue({ documentId: 'test-uuid-1234' }),
+    };
+    const context = mockInvocationContext();
+
+    const response = await confirmMappingHandler(request as any, context as any);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toContain('already exported');
+    expect(mockTransaction.request().bulk).not.toHaveBeenCalled();
+    expect(mockTransaction.rollback).toHaveBeenCalledTimes(1);
   });
 
   it('should export products to vendor_products table', async () => {
@@ -602,6 +1037,77 @@ describe('Confirm Mapping Handler - Unit Tests', () => {
     expect(body.vendor).toBe('ACME');
   });
 
+  it('should save a vendor mapping template after export', async () => {
+    const mockMappingResult = {
+      vendor: 'BETTER_LIVING_11_25',
+      products: [{ name: 'Widget A', sku: 'W001', price: 19.99 }],
+      columnHeaders: { sku: 'Item #', name: 'Description', price: 'Wholesale' },
+    };
+
+    const mockRequest = {
+      input: vi.fn().mockReturnThis(),
+      query: vi
+        .fn()
+        .mockResolvedValueOnce({
+          recordset: [
+            {
+              result_id: 'test-uuid-1234',
+              document_name: 'BETTER_LIVING_11_25.pdf',
+              vendor_name: 'BETTER_LIVING_11_25',
+              ai_mapping_result: JSON.stringify(mockMappingResult),
+              processing_status: 'completed',
+              export_status: 'not_exported',
+            },
+          ],
+        })
+        .mockResolvedValue({ rowsAffected: [1] }),
+    };
+    const mockPool = {
+      connect: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue(mockRequest),
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    vi.mocked(sql.ConnectionPool).mockImplementation(() => mockPool as any);
+
+    const request = {
+      json: vi.fn().mockResolvedValue({
+        documentId: 'test-uuid-1234',
+        transforms: { sku: ['uppercase'] },
+        defaultValues: { unit: 'EA' },
+      }),
+    };
+    const context = mockInvocationContext();
+
+    const response = await confirmMappingHandler(request as any, context as any);
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body as string).templateSaved).toBe(true);
+
+    const mergeQuery = mockRequest.query.mock.calls
+      .map((call: any) => call[0])
+      .find((query: string) => query.includes('vendor_mapping_templates'));
+    expect(mergeQuery).toContain('MERGE');
+    const inputs = Object.fromEntries(mockRequest.input.mock.calls.map((c: any) => [c[0], c[2]]));
+    expect(inputs.vendorBaseName).toBe('BETTER_LIVING');
+    expect(JSON.parse(inputs.headerMapping)).toEqual(mockMappingResult.columnHeaders);
+    expect(JSON.parse(inputs.transforms)).toEqual({ sku: ['uppercase'] });
+  });
+
+  it('should return 400 for unknown template transforms', async () => {
+    const request = {
+      json: vi.fn().mockResolvedValue({
+        documentId: 'test-uuid-1234',
+        transforms: { sku: ['reverse'] },
+      }),
+    };
+    const context = mockInvocationContext();
+
+    const response = await confirmMappingHandler(request as any, context as any);
+
+    expect(response.status).toBe(400);
+    expect(response.body).toContain("Invalid transforms for field 'sku'");
+  });
+
   it('should return 400 when documentId is missing', async () => {
     const request = {
       json: vi.fn().mockResolvedValue({}),
@@ -733,3 +1239,325 @@ describe('Confirm Mapping Handler - Unit Tests', () => {
     expect(response.body).toContain('No products found');
   });
 });
+
+describe('CSV Template Upload Handler - Unit Tests', () => {
+  const csvRequest = (csv: string, name = 'template.csv', type = 'text/csv') =>
+    mockHttpRequest({
+      formData: vi.fn().mockResolvedValue(
+        new Map<string, any>([
+          ['vendorName', 'BETTER_LIVING_11_25'],
+          ['file', { name, type, arrayBuffer: vi.fn().mockResolvedValue(Buffer.from(csv)) }],
+        ])
+      ),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMockState();
+    vi.mocked(BlobServiceClient.fromConnectionString).mockReturnValue(
+      mockBlobServiceClient() as any
+    );
+    vi.mocked(sql.ConnectionPool).mockImplementation(() => mockSqlConnection() as any);
+  });
+
+  it('should store a valid CSV as a completed result without OCR or AI mapping', async () => {
+    const mockPool = mockSqlConnection();
+    vi.mocked(sql.ConnectionPool).mockImplementation(() => mockPool as any);
+    const request = csvRequest(
+      'SKU,Description,Cost,MAP,MSRP\nABC-1,Shower Caddy,19.20,24.99,29.99\nABC-2,Hose Keeper,24.70,,\n'
+    );
+    const context = mockInvocationContext();
+
+    const response = await uploadCsvTemplateHandler(request as any, context as any);
+
+    expect(response.status).toBe(201);
+    expect(response.jsonBody).toMatchObject({
+      documentName: 'BETTER_LIVING_11_25.csv',
+      productCount: 2,
+      status: 'completed',
+    });
+
+    const inputCalls = mockPool.request().input.mock.calls;
+    const mappingResult = JSON.parse(
+      inputCalls.find((call: any) => call[0] === 'mappingResult')[2]
+    );
+    expect(mappingResult.mappingSource).toBe('csv_template');
+    expect(mappingResult.products[0]).toMatchObject({ sku: 'ABC-1', price: 19.2, map: 24.99 });
+
+    const insertQuery = mockPool
+      .request()
+      .query.mock.calls.map((call: any) => call[0])
+      .find((query: string) => query.includes('INSERT'));
+    expect(insertQuery).toContain("'csv-template'");
+  });
+
+  it('should return 400 with row-level errors for invalid rows', async () => {
+    const request = csvRequest('SKU,Description,Cost,MAP\nABC 1,Shower Caddy,19.205,10.00\n');
+    const context = mockInvocationContext();
+
+    const response = await uploadCsvTemplateHandler(request as any, context as any);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody.error).toBe('CSV template validation failed');
+    expect(response.jsonBody.errors).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ row: 2, column: 'SKU' }),
+        expect.objectContaining({ row: 2, column: 'Cost' }),
+      ])
+    );
+    expect(sql.ConnectionPool).not.toHaveBeenCalled();
+  });
+
+  it('should reject non-CSV files', async () => {
+    const request = csvRequest('%PDF-1.4', 'catalog.pdf', 'application/pdf');
+    const context = mockInvocationContext();
+
+    const response = await uploadCsvTemplateHandler(request as any, context as any);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody.error).toContain('Only CSV files');
+  });
+});
+
+describe('Compare Versions Handler - Unit Tests', () => {
+  const ROOT_ID = '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a40';
+  const V3_ID = '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a43';
+
+  const versionRow = (resultId: string, version: number, mappingResult: unknown) => ({
+    result_id: resultId,
+    parent_document_id: version === 0 ? null : ROOT_ID,
+    reprocessing_count: version,
+    processing_status: 'completed',
+    export_status: 'not_exported',
+    product_count: (mappingResult as any)?.products.length ?? 0,
+    ai_model_used: 'gpt-4o',
+    ai_confidence_score: version === 0 ? 70 : 92.5,
+    ai_completeness_score: 80,
+    ai_model_cost_usd: 0.04,
+    ai_mapping_result: mappingResult ? JSON.stringify(mappingResult) : null,
+  });
+
+  const mockVersions = (rows: unknown[]) => {
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () =>
+        ({
+          connect: vi.fn().mockResolvedValue(undefined),
+          request: vi.fn().mockReturnValue({
+            input: vi.fn().mockReturnThis(),
+            query: vi.fn().mockResolvedValue({ recordset: rows }),
+          }),
+          close: vi.fn().mockResolvedValue(undefined),
+        }) as any
+    );
+  };
+
+  const compareRequest = (fromId: string | null, toId: string | null) => ({
+    query: { get: vi.fn((key: string) => (key === 'fromId' ? fromId : toId)) },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should diff products and column mappings between two versions', async () => {
+    mockVersions([
+      versionRow(ROOT_ID, 0, {
+        products: [
+          { name: 'Widget A', sku: 'W001', price: 19.99 },
+          { name: 'Widget B', sku: 'W002', price: 5 },
+        ],
+        layouts: [{ layoutId: 0, columnMapping: { sku: 0, name: 1, price: 2, unit: null } }],
+      }),
+      versionRow(V3_ID, 3, {
+        products: [
+          { name: 'Widget A', sku: 'W001', price: 19.99, unit: 'EA' },
+          { name: 'Widget C', sku: 'W003', price: 7 },
+        ],
+        layouts: [{ layoutId: 0, columnMapping: { sku: 0, name: 1, price: 2, unit: 3 } }],
+        mappingSource: 'llm',
+      }),
+    ]);
+
+    const response = await compareVersionsHandler(
+      compareRequest(ROOT_ID, V3_ID) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(200);
+    const body = JSON.parse(response.body as string);
+    expect(body.from.version).toBe(0);
+    expect(body.to.mappingSource).toBe('llm');
+    expect(body.deltas).toEqual({ productCount: 0, confidenceScore: 22.5, completenessScore: 0 });
+    expect(body.columnMappingChanges).toEqual([
+      { layoutId: 0, field: 'unit', oldColumn: null, newColumn: 3 },
+    ]);
+    expect(body.added.map((p: any) => p.sku)).toEqual(['W003']);
+    expect(body.removed.map((p: any) => p.sku)).toEqual(['W002']);
+    expect(body.changed).toEqual([
+      {
+        sku: 'W001',
+        name: 'Widget A',
+        changes: [{ field: 'unit', oldValue: null, newValue: 'EA' }],
+      },
+    ]);
+  });
+
+  it('should return 400 for versions of different documents', async () => {
+    mockVersions([
+      versionRow(ROOT_ID, 0, { products: [] }),
+      { ...versionRow(V3_ID, 3, { products: [] }), parent_document_id: 'other-root-uuid' },
+    ]);
+
+    const response = await compareVersionsHandler(
+      compareRequest(ROOT_ID, V3_ID) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body).toContain('different documents');
+  });
+
+  it('should return 400 when a version has no mapping result yet', async () => {
+    mockVersions([versionRow(ROOT_ID, 0, { products: [] }), versionRow(V3_ID, 3, null)]);
+
+    const response = await compareVersionsHandler(
+      compareRequest(ROOT_ID, V3_ID) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body).toContain('Version 3 has no mapping result');
+  });
+
+  it('should return 404 when a version does not exist', async () => {
+    mockVersions([versionRow(ROOT_ID, 0, { products: [] })]);
+
+    const response = await compareVersionsHandler(
+      compareRequest(ROOT_ID, V3_ID) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(404);
+    expect(response.headers).toMatchObject({
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    });
+  });
+
+  it('should return 400 when fromId or toId is missing', async () => {
+    const response = await compareVersionsHandler(
+      compareRequest(ROOT_ID, null) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 400 for malformed ids without querying the database', async () => {
+    const response = await compareVersionsHandler(
+      compareRequest(ROOT_ID, 'version-3') as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.headers).toMatchObject({ 'Access-Control-Allow-Origin': '*' });
+    expect(JSON.parse(response.body as string).error).toBe('fromId and toId must be valid UUIDs');
+    expect(sql.ConnectionPool).not.toHaveBeenCalled();
+  });
+});
+
+describe('Pin Version Handler - Unit Tests', () => {
+  const mockPinPool = (doc: Record<string, unknown> | null) => {
+    const mockRequest = {
+      input: vi.fn().mockReturnThis(),
+      query: vi
+        .fn()
+        .mockResolvedValueOnce({ recordset: doc ? [doc] : [] })
+        .mockResolvedValue({ rowsAffected: [1] }),
+    };
+    vi.mocked(sql.ConnectionPool).mockImplementation(
+      () =>
+        ({
+          connect: vi.fn().mockResolvedValue(undefined),
+          request: vi.fn().mockReturnValue(mockRequest),
+          close: vi.fn().mockResolvedValue(undefined),
+        }) as any
+    );
+    return mockRequest;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should pin a completed version on its root document', async () => {
+    const mockRequest = mockPinPool({
+      result_id: 'version-uuid-0002',
+      parent_document_id: 'root-uuid-0000',
+      reprocessing_count: 2,
+      processing_status: 'completed',
+    });
+    const request = { json: vi.fn().mockResolvedValue({ documentId: 'version-uuid-0002' }) };
+
+    const response = await pinVersionHandler(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(200);
+    const body = JSON.parse(response.body as string);
+    expect(body).toMatchObject({
+      rootDocumentId: 'root-uuid-0000',
+      pinnedResultId: 'version-uuid-0002',
+      version: 2,
+    });
+    expect(mockRequest.input).toHaveBeenCalledWith(
+      'rootDocumentId',
+      sql.UniqueIdentifier,
+      'root-uuid-0000'
+    );
+    expect(mockRequest.input).toHaveBeenCalledWith(
+      'pinnedResultId',
+      sql.UniqueIdentifier,
+      'version-uuid-0002'
+    );
+  });
+
+  it('should clear the pin when unpin is set', async () => {
+    const mockRequest = mockPinPool({
+      result_id: 'root-uuid-0000',
+      parent_document_id: null,
+      reprocessing_count: 0,
+      processing_status: 'failed',
+    });
+    const request = {
+      json: vi.fn().mockResolvedValue({ documentId: 'root-uuid-0000', unpin: true }),
+    };
+
+    const response = await pinVersionHandler(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(200);
+    expect(mockRequest.input).toHaveBeenCalledWith('pinnedResultId', sql.UniqueIdentifier, null);
+  });
+
+  it('should return 400 when pinning a version that has not completed', async () => {
+    mockPinPool({
+      result_id: 'version-uuid-0003',
+      parent_document_id: 'root-uuid-0000',
+      reprocessing_count: 3,
+      processing_status: 'ocr_complete',
+    });
+    const request = { json: vi.fn().mockResolvedValue({ documentId: 'version-uuid-0003' }) };
+
+    const response = await pinVersionHandler(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(400);
+    expect(response.body).toContain('Only completed versions can be pinned');
+  });
+
+  it('should return 404 when the version does not exist', async () => {
+    mockPinPool(null);
+    const request = { json: vi.fn().mockResolvedValue({ documentId: 'missing-uuid' }) };
+
+    const response = await pinVersionHandler(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('mssql');
+
+import {
+  checkBudget,
+  estimatePdfPageCount,
+  evaluateBudgets,
+  getBudgetCaps,
+  SpendSummary,
+} from '../../src/utils/budget';
+import { mockInvocationContext } from './setup/mocks';
+
+function mockPool(recordset: unknown[]) {
+  const mockRequest = {
+    input: vi.fn().mockReturnThis(),
+    query: vi.fn().mockResolvedValue({ recordset }),
+  };
+  return { request: vi.fn().mockReturnValue(mockRequest), mockRequest };
+}
+
+describe('Budget - Unit Tests', () => {
+  describe('getBudgetCaps', () => {
+    it('should read global and per-vendor caps, ignoring unset and zero limits', () => {
+      const caps = getBudgetCaps({
+        BUDGET_DAILY_USD: '5',
+        BUDGET_MONTHLY_USD: '0',
+        BUDGET_VENDOR_CAPS: JSON.stringify({ BETTER_LIVING: { monthly: 20 }, BLENKO: {} }),
+      });
+
+      expect(caps).toEqual([
+        { scope: 'global', vendor: null, period: 'daily', limitUsd: 5 },
+        { scope: 'vendor', vendor: 'BETTER_LIVING', period: 'monthly', limitUsd: 20 },
+      ]);
+      expect(getBudgetCaps({})).toEqual([]);
+    });
+
+    it('should reject malformed vendor caps', () => {
+      expect(() => getBudgetCaps({ BUDGET_VENDOR_CAPS: 'BETTER_LIVING=20' })).toThrow(
+        'BUDGET_VENDOR_CAPS must be JSON'
+      );
+    });
+  });
+
+  describe('evaluateBudgets', () => {
+    const spend: SpendSummary = {
+      global: { daily: 4.1, monthly: 12 },
+      vendors: { BETTER_LIVING: { daily: 1, monthly: 16.5 } },
+    };
+
+    it('should report spend, remaining budget and the highest threshold reached', () => {
+      const [daily, vendorMonthly] = evaluateBudgets(
+        [
+          { scope: 'global', vendor: null, period: 'daily', limitUsd: 5 },
+          { scope: 'vendor', vendor: 'BETTER_LIVING', period: 'monthly', limitUsd: 20 },
+        ],
+        spend
+      );
+
+      expect(daily).toMatchObject({ spentUsd: 4.1, remainingUsd: 0.9, percentUsed: 82 });
+      expect(daily.thresholdReached).toBe(80);
+      expect(vendorMonthly).toMatchObject({ spentUsd: 16.5, percentUsed: 82.5 });
+    });
+
+    it('should include the additional cost and treat vendors without spend as zero', () => {
+      const [status] = evaluateBudgets(
+        [{ scope: 'vendor', vendor: 'BLENKO', period: 'daily', limitUsd: 2 }],
+        spend,
+        0.8
+      );
+
+      expect(status).toMatchObject({ spentUsd: 0.8, percentUsed: 40, thresholdReached: null });
+    });
+  });
+
+  describe('checkBudget', () => {
+    it('should allow without querying when no caps apply to the vendor', async () => {
+      const { request } = mockPool([]);
+
+      const check = await checkBudget(
+        { request } as any,
+        'BLENKO_01_26',
+        1,
+        mockInvocationContext() as any,
+        { BUDGET_VENDOR_CAPS: JSON.stringify({ BETTER_LIVING: { daily: 1 } }) }
+      );
+
+      expect(check.allowed).toBe(true);
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should block a run that would exceed the vendor cap', async () => {
+      const { request } = mockPool([{ vendor: 'BETTER_LIVING', daily_usd: 1.9, monthly_usd: 3 }]);
+      const context = mockInvocationContext();
+
+      const check = await checkBudget(
+        { request } as any,
+        'BETTER_LIVING_01_26',
+        0.2,
+        context as any,
+        {
+          BUDGET_VENDOR_CAPS: JSON.stringify({ BETTER_LIVING: { daily: 2 } }),
+        }
+      );
+
+      expect(check.allowed).toBe(false);
+      expect(check.blockedBy).toMatchObject({ vendor: 'BETTER_LIVING', period: 'daily' });
+      expect(check.reason).toBe(
+        'Blocked by vendor BETTER_LIVING daily budget of $2.00: $1.9000 spent, this run estimated at $0.2000'
+      );
+    });
+
+    it('should warn when a run crosses a threshold but still fits', async () => {
+      const { request } = mockPool([{ vendor: 'BETTER_LIVING', daily_usd: 2.4, monthly_usd: 40 }]);
+      const context = mockInvocationContext();
+
+      const check = await checkBudget(
+        { request } as any,
+        'BETTER_LIVING_01_26',
+        0.2,
+        context as any,
+        {
+          BUDGET_DAILY_USD: '5',
+          BUDGET_MONTHLY_USD: '100',
+        }
+      );
+
+      expect(check.allowed).toBe(true);
+      expect(context.warn).toHaveBeenCalledTimes(1);
+      expect(context.warn).toHaveBeenCalledWith(
+        expect.stringContaining('global daily budget of $5.00 at 52%')
+      );
+    });
+  });
+
+  describe('estimatePdfPageCount', () => {
+    it('should count page objects but not the page tree', () => {
+      const pdf = Buffer.from(
+        '1 0 obj << /Type /Pages /Count 2 >> 2 0 obj << /Type /Page >> 3 0 obj << /Type/Page >>'
+      );
+
+      expect(estimatePdfPageCount(pdf)).toBe(2);
+      expect(estimatePdfPageCount(Buffer.from('mock PDF content'))).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock mssql before importing the handler
+vi.mock('mssql');
+vi.mock('../../src/utils/database');
+
+import { budgetStatus } from '../../src/functions/budgetStatus';
+import { withDatabase } from '../../src/utils/database';
+import { mockInvocationContext, mockQueryParams } from './setup/mocks';
+
+describe('Budget Status API - Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('BUDGET_DAILY_USD', '5');
+    vi.stubEnv('BUDGET_VENDOR_CAPS', JSON.stringify({ BETTER_LIVING: { monthly: 20 } }));
+
+    vi.mocked(withDatabase).mockImplementation(async (callback) => {
+      const mockRequest = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn(async (query: string) =>
+          query.includes('daily_usd')
+            ? {
+                recordset: [
+                  { vendor: 'BETTER_LIVING', daily_usd: 2, monthly_usd: 17 },
+                  { vendor: 'BLENKO', daily_usd: 0.5, monthly_usd: 1 },
+                ],
+              }
+            : {
+                recordset: [
+                  {
+                    result_id: 'uuid-1',
+                    vendor_name: 'BETTER_LIVING_01_26',
+                    reprocessing_count: 1,
+                    error_message: 'Blocked by vendor BETTER_LIVING monthly budget of $20.00',
+                    updated_at: '2026-01-20T10:00:00Z',
+                  },
+                  { result_id: 'uuid-2', vendor_name: 'BLENKO_01_26', reprocessing_count: 0 },
+                ],
+              }
+        ),
+      };
+      return callback({ request: () => mockRequest } as any);
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should report burn against every configured cap and list parked documents', async () => {
+    const response = await budgetStatus(mockQueryParams({}) as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(200);
+    const body = JSON.parse(response.body as string);
+    expect(body.thresholds).toEqual([50, 80, 100]);
+    expect(body.spend.global).toEqual({ daily: 2.5, monthly: 18 });
+    expect(body.budgets).toEqual([
+      expect.objectContaining({ scope: 'global', period: 'daily', spentUsd: 2.5, percentUsed: 50 }),
+      expect.objectContaining({
+        vendor: 'BETTER_LIVING',
+        period: 'monthly',
+        remainingUsd: 3,
+        thresholdReached: 80,
+      }),
+    ]);
+    expect(body.blockedDocuments).toHaveLength(2);
+  });
+
+  it('should narrow caps, spend and parked documents to one vendor', async () => {
+    const response = await budgetStatus(
+      mockQueryParams({ vendor: 'BLENKO' }) as any,
+      mockInvocationContext() as any
+    );
+
+    const body = JSON.parse(response.body as string);
+    expect(body.budgets.map((budget: any) => budget.scope)).toEqual(['global']);
+    expect(body.spend.vendor).toEqual({ daily: 0.5, monthly: 1 });
+    expect(body.blockedDocuments.map((doc: any) => doc.documentId)).toEqual(['uuid-2']);
+  });
+
+  it('should return 500 on database errors', async () => {
+    vi.mocked(withDatabase).mockRejectedValue(new Error('Connection failed'));
+
+    const response = await budgetStatus(mockQueryParams({}) as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(500);
+  });
+});
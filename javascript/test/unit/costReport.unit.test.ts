@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock mssql before importing the handler
+vi.mock('mssql');
+vi.mock('../../src/utils/database');
+
+import { costReport } from '../../src/functions/costReport';
+import { withDatabase } from '../../src/utils/database';
+import { mockInvocationContext, mockQueryParams } from './setup/mocks';
+
+describe('Cost Report API - Unit Tests', () => {
+  let inputs: Array<[string, unknown]>;
+  let queries: string[];
+  let recordset: unknown[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    inputs = [];
+    queries = [];
+    recordset = [
+      {
+        vendor: 'BETTER_LIVING',
+        total_cost_usd: 0.13,
+        doc_intel_cost_usd: 0.1,
+        ai_model_cost_usd: 0.03,
+        pages: 10,
+        prompt_tokens: 8000,
+        completion_tokens: 1000,
+        documents: 1,
+        mapping_runs: 2,
+        products: 52,
+      },
+      {
+        vendor: 'BLENKO',
+        total_cost_usd: 0,
+        doc_intel_cost_usd: 0,
+        ai_model_cost_usd: 0,
+        pages: 0,
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        documents: 1,
+        mapping_runs: 0,
+        products: 0,
+      },
+    ];
+
+    vi.mocked(withDatabase).mockImplementation(async (callback) => {
+      const mockRequest = {
+        input: vi.fn((name: string, _type: unknown, value: unknown) => {
+          inputs.push([name, value]);
+          return mockRequest;
+        }),
+        query: vi.fn(async (query: string) => {
+          queries.push(query);
+          return { recordset };
+        }),
+      };
+      return callback({ request: () => mockRequest } as any);
+    });
+  });
+
+  it('should aggregate cost by vendor with cost per product and totals', async () => {
+    const response = await costReport(mockQueryParams({}) as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(200);
+    const body = JSON.parse(response.body as string);
+    expect(body.groupBy).toEqual(['vendor']);
+    expect(body.rows[0]).toEqual({
+      vendor: 'BETTER_LIVING',
+      totalCostUsd: 0.13,
+      docIntelCostUsd: 0.1,
+      aiModelCostUsd: 0.03,
+      pages: 10,
+      promptTokens: 8000,
+      completionTokens: 1000,
+      totalTokens: 9000,
+      documents: 1,
+      mappingRuns: 2,
+      products: 52,
+      costPerProduct: 0.0025,
+    });
+    expect(body.rows[1].costPerProduct).toBeNull();
+    expect(body.totals).toMatchObject({ totalCostUsd: 0.13, documents: 2, products: 52 });
+    expect(queries[0]).toContain('GROUP BY vendor');
+  });
+
+  it('should count OCR cost only on original uploads', async () => {
+    await costReport(mockQueryParams({}) as any, mockInvocationContext() as any);
+
+    // Reprocess versions copy doc_intel_cost_usd, so the OCR stage only reads root rows
+    expect(queries[0]).toMatch(/'ocr' AS stage[\s\S]*WHERE parent_document_id IS NULL/);
+  });
+
+  it('should group by several dimensions and filter by vendor and month range', async () => {
+    const response = await costReport(
+      mockQueryParams({
+        groupBy: 'month,model',
+        vendor: 'BETTER_LIVING',
+        from: '2025-11',
+        to: '2025-12',
+      }) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(200);
+    expect(queries[0]).toContain('GROUP BY month, model');
+    expect(queries[0]).toContain('WHERE vendor = @vendor AND run_date >= @fromDate');
+    expect(inputs).toEqual([
+      ['vendor', 'BETTER_LIVING'],
+      ['fromDate', '2025-11-01'],
+      ['toDate', '2026-01-01'], // "to" month is inclusive
+    ]);
+    const body = JSON.parse(response.body as string);
+    expect(body.rows[0]).toHaveProperty('month');
+    expect(body.rows[0]).toHaveProperty('model');
+    expect(body.filters).toEqual({ vendor: 'BETTER_LIVING', from: '2025-11', to: '2025-12' });
+  });
+
+  it('should reject unknown dimensions and malformed months', async () => {
+    const badGroup = await costReport(
+      mockQueryParams({ groupBy: 'vendor,customer' }) as any,
+      mockInvocationContext() as any
+    );
+    const badMonth = await costReport(
+      mockQueryParams({ from: '11_25' }) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(badGroup.status).toBe(400);
+    expect(badGroup.body).toContain("Invalid groupBy 'customer'");
+    expect(badMonth.status).toBe(400);
+    expect(withDatabase).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 on database errors', async () => {
+    vi.mocked(withDatabase).mockRejectedValue(new Error('Connection failed'));
+
+    const response = await costReport(mockQueryParams({}) as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(500);
+    expect(JSON.parse(response.body as string).error).toBe('Connection failed');
+  });
+});
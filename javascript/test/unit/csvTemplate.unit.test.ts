@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, validateCsvTemplate } from '../../src/utils/csvTemplate';
+
+describe('CSV Template - Unit Tests', () => {
+  it('should parse quoted fields, escaped quotes, CRLF and BOM', () => {
+    const rows = parseCsv('\uFEFFSKU,Description\r\nA-1,"Caddy, 12"" chrome"\r\n\r\n');
+
+    expect(rows).toEqual([
+      ['SKU', 'Description'],
+      ['A-1', 'Caddy, 12" chrome'],
+    ]);
+  });
+
+  it('should convert valid rows into mapper-shaped products', () => {
+    const result = validateCsvTemplate(
+      'sku,description,cost,MAP,MSRP,MOQ,UPC,PackSize\nA-1,Shower Caddy,19.20,24.99,29.99,,012345678905,6/cs\n'
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.products).toEqual([
+      {
+        sku: 'A-1',
+        name: 'Shower Caddy',
+        cost: 19.2,
+        price: 19.2,
+        map: 24.99,
+        msrp: 29.99,
+        moq: 1,
+        upc: '012345678905',
+        packSize: '6/cs',
+        unit: '6/cs',
+      },
+    ]);
+    expect(result.columnMapping).toMatchObject({ sku: 0, name: 1, price: 2, unit: 7 });
+  });
+
+  it('should report missing required columns and unknown columns', () => {
+    const result = validateCsvTemplate('SKU,Notes\nA-1,hello\n');
+
+    expect(result.errors.map((e) => e.message)).toEqual([
+      'Missing required column: Description',
+      'Missing required column: Cost',
+    ]);
+    expect(result.warnings).toEqual(['Ignoring unknown columns: Notes']);
+  });
+
+  it('should enforce field rules, price ordering and unique SKUs', () => {
+    const result = validateCsvTemplate(
+      [
+        'SKU,Description,Cost,MAP,MSRP,UPC,LeadTimeDays',
+        'A 1,Ok item,10.00,,,,',
+        'A-2,Ok item,10.001,,,,',
+        'A-3,Ok item,10.00,9.00,,,',
+        'A-4,Ok item,10.00,12.00,11.00,,',
+        'A-5,Ok item,10.00,,,12345,400',
+        'A-5,Ok item,10.00,,,,',
+      ].join('\n')
+    );
+
+    expect(result.products).toEqual([]);
+    expect(result.errors.map((e) => [e.row, e.column])).toEqual([
+      [2, 'SKU'],
+      [3, 'Cost'],
+      [4, 'MAP'],
+      [5, 'MSRP'],
+      [6, 'LeadTimeDays'],
+      [6, 'UPC'],
+      [7, 'SKU'],
+    ]);
+    expect(result.errors[6].message).toBe('Duplicate SKU (first seen on row 6)');
+  });
+});
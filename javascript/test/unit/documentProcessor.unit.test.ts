@@ -7,12 +7,20 @@ vi.mock('@azure/storage-queue');
 vi.mock('mssql');
 vi.mock('openai');
 
+// setup.unit.ts only sets the AZURE_-prefixed names; the processor reads these at import
+vi.hoisted(() => {
+  process.env.DOCUMENT_INTELLIGENCE_ENDPOINT =
+    'https://mock-doc-intel.cognitiveservices.azure.com/';
+  process.env.DOCUMENT_INTELLIGENCE_KEY = 'mock-doc-intel-key-12345';
+});
+
 import { AzureKeyCredential, DocumentAnalysisClient } from '@azure/ai-form-recognizer';
 import { BlobServiceClient } from '@azure/storage-blob';
 import { QueueServiceClient } from '@azure/storage-queue';
 import sql from 'mssql';
 import { OpenAI } from 'openai';
-import { processDocument } from '../../src/functions/documentProcessor';
+import * as xlsx from 'xlsx';
+import { processDocument, resumeDocumentHandler } from '../../src/functions/documentProcessor';
 import {
   mockDocumentAnalysisClient,
   mockInvocationContext,
@@ -20,6 +28,29 @@ import {
   mockSqlConnection,
 } from './setup/mocks';
 
+// Pool over one document row; UPDATEs of processing_status are applied to the row
+const poolForRow = (row: Record<string, unknown>) => {
+  const state = { ...row };
+  const queries: string[] = [];
+  const mockRequest = {
+    input: vi.fn().mockReturnThis(),
+    query: vi.fn(async (query: string) => {
+      queries.push(query);
+      const status = /UPDATE[\s\S]*processing_status = '(\w+)'/.exec(query);
+      if (status) state.processing_status = status[1];
+      if (query.includes('SELECT result_id')) return { recordset: [{ result_id: 'doc-1' }] };
+      if (query.includes('SELECT')) return { recordset: [{ ...state }] };
+      return { recordset: [], rowsAffected: [1] };
+    }),
+  };
+  const pool = {
+    connect: vi.fn().mockResolvedValue(undefined),
+    request: vi.fn().mockReturnValue(mockRequest),
+    close: vi.fn().mockResolvedValue(undefined),
+  };
+  return { pool, queries, state };
+};
+
 describe('Document Processor - Unit Tests', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -229,4 +260,151 @@ describe('Document Processor - Unit Tests', () => {
     // Database operations should be called
     expect(mockPool.connect).toHaveBeenCalled();
   });
+  it('should parse XLSX uploads natively without calling Document Intelligence', async () => {
+    const worksheet = xlsx.utils.aoa_to_sheet([
+      ['Wholesale Price List'],
+      ['Item #', 'Description', 'Price'],
+      ['ABC-1', 'Shower Caddy', '$19.20'],
+      ['ABC-2', 'Hose Keeper', '$24.70'],
+    ]);
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(workbook, worksheet, 'Price List');
+    const blob = xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+    const mockRequest = {
+      input: vi.fn().mockReturnThis(),
+      query: vi
+        .fn()
+        .mockImplementation(async (query: string) =>
+          query.includes('SELECT')
+            ? { recordset: [{ result_id: 'xlsx-uuid' }] }
+            : { rowsAffected: [1] }
+        ),
+    };
+    const mockPool = {
+      connect: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue(mockRequest),
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    vi.mocked(sql.ConnectionPool).mockImplementation(() => mockPool as any);
+
+    const context = mockInvocationContext();
+    context.triggerMetadata.blobTrigger = 'uploads/BLENKO_01_25/BLENKO_01_25.xlsx';
+
+    await processDocument(blob, context as any);
+
+    expect(DocumentAnalysisClient).not.toHaveBeenCalled();
+    expect(context.error).not.toHaveBeenCalled();
+
+    const inputCalls = mockRequest.input.mock.calls;
+    const structuredData = JSON.parse(
+      inputCalls.find((call: any) => call[0] === 'structuredData')[2]
+    );
+    expect(structuredData.tables).toHaveLength(1);
+    const headers = structuredData.tables[0].cells
+      .filter((c: any) => c.kind === 'columnHeader')
+      .map((c: any) => c.content);
+    expect(headers).toEqual(['Item #', 'Description', 'Price']);
+    expect(inputCalls.find((call: any) => call[0] === 'docIntelCost')[2]).toBe(0);
+    const updateQuery = mockRequest.query.mock.calls
+      .map((call: any) => call[0])
+      .find((query: string) => query.includes('doc_intel_cost_usd'));
+    expect(updateQuery).toContain('total_cost_usd = @docIntelCost');
+  });
+
+  it('should mark the row mapping_queued once AI mapping is queued', async () => {
+    const { pool, queries, state } = poolForRow({ processing_status: 'pending' });
+    vi.mocked(sql.ConnectionPool).mockImplementation(() => pool as any);
+
+    await processDocument(Buffer.from('mock PDF content'), mockInvocationContext() as any);
+
+    expect(state.processing_status).toBe('mapping_queued');
+    const queuedUpdate = queries.findIndex((q) => q.includes("'mapping_queued'"));
+    expect(queuedUpdate).toBeGreaterThan(queries.findIndex((q) => q.includes("'ocr_complete'")));
+    expect(QueueServiceClient.fromConnectionString).toHaveBeenCalled();
+  });
+
+  it('should leave the row at ocr_complete when queuing AI mapping fails', async () => {
+    const { pool, state } = poolForRow({ processing_status: 'pending' });
+    vi.mocked(sql.ConnectionPool).mockImplementation(() => pool as any);
+    vi.mocked(QueueServiceClient.fromConnectionString).mockImplementation(() => {
+      throw new Error('Queue unavailable');
+    });
+
+    const context = mockInvocationContext();
+    await processDocument(Buffer.from('mock PDF content'), context as any);
+
+    expect(state.processing_status).toBe('ocr_complete');
+    expect(context.warn).toHaveBeenCalledWith(expect.stringContaining('Queue unavailable'));
+    expect(context.error).not.toHaveBeenCalled();
+  });
+
+  describe('resumeDocument', () => {
+    const resumeRequest = (documentId: string) => ({
+      json: vi.fn().mockResolvedValue({ documentId }),
+    });
+
+    it('should run OCR on the stored upload of a row blocked before OCR', async () => {
+      const { pool, queries } = poolForRow({
+        document_path: 'BETTER_LIVING_11_25/BETTER_LIVING_11_25.pdf',
+        processing_status: 'budget_blocked',
+        doc_intel_structured_data: null,
+        error_message: 'Blocked by global daily budget',
+      });
+      vi.mocked(sql.ConnectionPool).mockImplementation(() => pool as any);
+
+      const blockBlobClient = {
+        upload: vi.fn().mockResolvedValue({}),
+        downloadToBuffer: vi.fn().mockResolvedValue(Buffer.from('mock PDF content')),
+      };
+      const containerClient = { getBlockBlobClient: vi.fn().mockReturnValue(blockBlobClient) };
+      vi.mocked(BlobServiceClient.fromConnectionString).mockReturnValue({
+        getContainerClient: vi.fn().mockReturnValue(containerClient),
+      } as any);
+
+      const context = mockInvocationContext();
+      const response = await resumeDocumentHandler(resumeRequest('doc-1') as any, context as any);
+
+      expect(response.status).toBe(200);
+      expect(JSON.parse(response.body as string)).toMatchObject({
+        documentId: 'doc-1',
+        resumed: true,
+        processingStatus: 'mapping_queued',
+      });
+      expect(containerClient.getBlockBlobClient).toHaveBeenCalledWith(
+        'BETTER_LIVING_11_25/BETTER_LIVING_11_25.pdf'
+      );
+      expect(DocumentAnalysisClient).toHaveBeenCalled();
+      expect(context.log).toHaveBeenCalledWith(
+        'Processing blob: uploads/BETTER_LIVING_11_25/BETTER_LIVING_11_25.pdf'
+      );
+      expect(queries.findIndex((q) => q.includes("'pending'"))).toBeLessThan(
+        queries.findIndex((q) => q.includes("'ocr_complete'"))
+      );
+    });
+
+    it('should only resume rows parked before OCR', async () => {
+      const mapped = poolForRow({
+        document_path: 'BLENKO_01_25/BLENKO_01_25.pdf',
+        processing_status: 'budget_blocked',
+        doc_intel_structured_data: '{"tables":[]}',
+      });
+      vi.mocked(sql.ConnectionPool).mockImplementation(() => mapped.pool as any);
+      const blockedAtMapping = await resumeDocumentHandler(
+        resumeRequest('doc-1') as any,
+        mockInvocationContext() as any
+      );
+      expect(blockedAtMapping.status).toBe(400);
+      expect(blockedAtMapping.body).toContain('/api/aiProductMapper');
+
+      const completed = poolForRow({ processing_status: 'completed' });
+      vi.mocked(sql.ConnectionPool).mockImplementation(() => completed.pool as any);
+      const notBlocked = await resumeDocumentHandler(
+        resumeRequest('doc-1') as any,
+        mockInvocationContext() as any
+      );
+      expect(notBlocked.status).toBe(400);
+      expect(DocumentAnalysisClient).not.toHaveBeenCalled();
+    });
+  });
 });
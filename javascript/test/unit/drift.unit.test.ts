@@ -0,0 +1,195 @@
+import sql from 'mssql';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('mssql');
+
+import {
+  compareToBaseline,
+  driftSeverity,
+  saveEvaluationRun,
+  worstSeverity,
+} from '../../src/utils/drift';
+import { EvaluationMetrics } from '../../src/utils/evaluation';
+
+const metrics = (
+  f1Score: number,
+  fieldAccuracy: Partial<EvaluationMetrics['fieldAccuracy']> = {}
+): EvaluationMetrics => ({
+  totalBenchmark: 100,
+  totalExtracted: 100,
+  matchedProducts: f1Score,
+  precision: f1Score,
+  recall: f1Score,
+  f1Score,
+  fieldAccuracy: {
+    sku: null,
+    name: null,
+    price: null,
+    unit: null,
+    description: null,
+    ...fieldAccuracy,
+  },
+  missedSkus: [],
+  unexpectedSkus: [],
+});
+
+describe('Drift Detection - Unit Tests', () => {
+  let queries: Array<{ query: string; inputs: Record<string, unknown> }>;
+  let transaction: {
+    begin: ReturnType<typeof vi.fn>;
+    commit: ReturnType<typeof vi.fn>;
+    rollback: ReturnType<typeof vi.fn>;
+    request: () => unknown;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queries = [];
+    transaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: () => {
+        const inputs: Record<string, unknown> = {};
+        const request = {
+          input: vi.fn((name: string, _type: unknown, value: unknown) => {
+            inputs[name] = value;
+            return request;
+          }),
+          query: vi.fn(async (query: string) => {
+            queries.push({ query, inputs });
+            return query.includes('OUTPUT INSERTED.run_id')
+              ? { recordset: [{ run_id: 'run-2', created_at: '2026-10-19T10:00:00Z' }] }
+              : { recordset: [], rowsAffected: [1] };
+          }),
+        };
+        return request;
+      },
+    };
+    vi.mocked(sql.Transaction).mockImplementation(() => transaction as any);
+  });
+
+  const poolWithBaselines = (rows: unknown[]) =>
+    ({ request: () => ({ query: vi.fn().mockResolvedValue({ recordset: rows }) }) }) as any;
+
+  it('should grade changes with the drift thresholds in either direction', () => {
+    expect([0, 1.99, 2, 4.99, 5, 9.99, 10, 14.99, 15].map(driftSeverity)).toEqual([
+      'None',
+      'None',
+      'Low',
+      'Low',
+      'Medium',
+      'Medium',
+      'High',
+      'High',
+      'Critical',
+    ]);
+    expect(driftSeverity(-12)).toBe('High');
+    expect(worstSeverity(['Low', null, 'High', 'Medium'])).toBe('High');
+    expect(worstSeverity([null])).toBeNull();
+  });
+
+  it('should compare F1, precision, recall and shared field accuracies with the baseline', () => {
+    const drift = compareToBaseline(metrics(84, { sku: 100, price: 70 }), {
+      runId: 'run-1',
+      metrics: metrics(90, { sku: 100, price: 92, unit: 80 }),
+    });
+
+    expect(drift.baselineRunId).toBe('run-1');
+    expect(drift.metrics).toEqual([
+      { metric: 'f1Score', baseline: 90, current: 84, delta: -6, severity: 'Medium' },
+      { metric: 'precision', baseline: 90, current: 84, delta: -6, severity: 'Medium' },
+      { metric: 'recall', baseline: 90, current: 84, delta: -6, severity: 'Medium' },
+      { metric: 'fieldAccuracy.sku', baseline: 100, current: 100, delta: 0, severity: 'None' },
+      {
+        metric: 'fieldAccuracy.price',
+        baseline: 92,
+        current: 70,
+        delta: -22,
+        severity: 'Critical',
+      },
+    ]);
+    expect(drift.severity).toBe('Critical');
+    expect(drift.regressed).toBe(true);
+
+    const improved = compareToBaseline(metrics(95), { runId: 'run-1', metrics: metrics(90) });
+    expect(improved).toMatchObject({ severity: 'Medium', regressed: false });
+  });
+
+  it('should store the run and vendor drift and write validation_results', async () => {
+    const pool = poolWithBaselines([
+      { vendor_name: 'BLENKO', run_id: 'run-1', metrics: JSON.stringify(metrics(90)) },
+    ]);
+
+    const saved = await saveEvaluationRun(pool, {
+      model: 'gpt-4o',
+      promptVariant: 'strict-headers',
+      triggeredBy: 'ci',
+      isBaseline: false,
+      vendors: [
+        { vendor: 'BLENKO', documentId: 'doc-1', metrics: metrics(78) },
+        { vendor: 'GCD', metrics: metrics(60) }, // No baseline yet
+        { vendor: 'JOKARI', error: 'No benchmark XLSX found' },
+      ],
+    });
+
+    expect(saved).toMatchObject({ runId: 'run-2', severity: 'High', averageF1: 69 });
+    expect(saved.vendors.map((vendor) => vendor.drift?.severity ?? null)).toEqual([
+      'High',
+      null,
+      null,
+    ]);
+
+    const [runInsert, ...rest] = queries;
+    expect(runInsert.inputs).toMatchObject({
+      model: 'gpt-4o',
+      promptVariant: 'strict-headers',
+      isBaseline: false,
+      vendorCount: 3,
+      vendorsFailed: 1,
+      averageF1: 69,
+      driftSeverity: 'High',
+    });
+
+    const results = rest.filter(({ query }) => query.includes('evaluation_results'));
+    expect(results.map(({ inputs }) => [inputs.vendorName, inputs.driftSeverity])).toEqual([
+      ['BLENKO', 'High'],
+      ['GCD', null],
+      ['JOKARI', null],
+    ]);
+    expect(results[0].inputs.baselineRunId).toBe('run-1');
+    expect(results[2].inputs.errorMessage).toBe('No benchmark XLSX found');
+
+    const validation = rest.find(({ query }) => query.includes('SET validation_results'))!;
+    expect(validation.inputs.documentId).toBe('doc-1');
+    expect(JSON.parse(validation.inputs.validation as string)).toMatchObject({
+      evaluationRunId: 'run-2',
+      model: 'gpt-4o',
+      promptVariant: 'strict-headers',
+      benchmark: 'BLENKO',
+      metrics: { f1Score: 78 },
+      drift: { baselineRunId: 'run-1', severity: 'High', regressed: true },
+    });
+    expect(transaction.commit).toHaveBeenCalled();
+  });
+
+  it('should roll back when storing the run fails', async () => {
+    const failing = transaction.request;
+    transaction.request = () => {
+      const request = failing() as { query: ReturnType<typeof vi.fn> };
+      request.query.mockRejectedValueOnce(new Error('Insert failed'));
+      return request;
+    };
+
+    await expect(
+      saveEvaluationRun(poolWithBaselines([]), {
+        model: 'fake',
+        promptVariant: 'default',
+        isBaseline: true,
+        vendors: [{ vendor: 'BLENKO', metrics: metrics(90) }],
+      })
+    ).rejects.toThrow('Insert failed');
+    expect(transaction.rollback).toHaveBeenCalled();
+    expect(transaction.commit).not.toHaveBeenCalled();
+  });
+});
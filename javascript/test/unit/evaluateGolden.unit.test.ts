@@ -0,0 +1,31 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { evaluateProducts, mapOffline, parseBenchmarkWorkbook } from '../../src/utils/evaluation';
+import { createFakeLlmProvider } from '../../src/utils/llmProvider';
+
+const BLENKO_DIR = join(__dirname, '../e2e/docs/BLENKO');
+
+function readJson(fileName: string) {
+  return JSON.parse(readFileSync(join(BLENKO_DIR, fileName), 'utf-8'));
+}
+
+describe('Golden Evaluation Fixture - Unit Tests', () => {
+  // Smoke test: the recorded ocr.json is built from the benchmark XLSX itself, so its score
+  // says nothing about OCR quality and is not asserted
+  it('should map the recorded BLENKO OCR result with the recorded LLM answer', async () => {
+    const recorded = readJson('llm-response.json');
+    const llm = createFakeLlmProvider(() => recorded, 'recorded');
+
+    const mapping = await mapOffline(readJson('ocr.json'), llm);
+    const benchmark = parseBenchmarkWorkbook(
+      readFileSync(join(BLENKO_DIR, 'BLENKO 2025 PRICE LIST.xlsx'))
+    );
+    const metrics = evaluateProducts(mapping.products, benchmark);
+
+    expect(mapping.rejectedRows).toBe(0);
+    expect(mapping.layoutMappings[0]).toMatchObject({ sku: 2, name: 0, price: 4, msrp: 3 });
+    expect(metrics.totalBenchmark).toBe(114);
+    expect(metrics.totalExtracted).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import * as xlsx from 'xlsx';
+import {
+  evaluateProducts,
+  levenshteinDistance,
+  mapOffline,
+  parseBenchmarkWorkbook,
+  stringSimilarity,
+} from '../../src/utils/evaluation';
+import { createFakeLlmProvider } from '../../src/utils/llmProvider';
+
+const benchmark = [
+  { sku: 'HM-1', name: 'Quilted Hammock', price: 99 },
+  { sku: 'HM-2', name: 'Hammock Stand', price: 50 },
+  { sku: 'HM-3', name: 'Hammock Pillow', price: 20 },
+];
+
+describe('Evaluation - Unit Tests', () => {
+  it('should measure string similarity with Levenshtein distance', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(stringSimilarity('Hammock', 'HAMMOCK')).toBe(1);
+    expect(stringSimilarity('', '')).toBe(1);
+    expect(stringSimilarity('Hammock', 'Hammocks')).toBeCloseTo(0.875);
+  });
+
+  it('should score precision, recall, F1 and field accuracy', () => {
+    const metrics = evaluateProducts(
+      [
+        { sku: 'HM-1', name: 'Quilted Hammock', price: 99 },
+        { sku: 'X-2', name: 'Hammock Stand', price: 55 }, // Matched by name, wrong SKU and price
+        { sku: 'HM-9', name: 'Gift Card', price: 25 },
+      ],
+      benchmark
+    );
+
+    expect(metrics).toMatchObject({
+      totalBenchmark: 3,
+      totalExtracted: 3,
+      matchedProducts: 2,
+      precision: 66.67,
+      recall: 66.67,
+      f1Score: 66.67,
+      missedSkus: ['HM-3'],
+      unexpectedSkus: ['HM-9'],
+    });
+    expect(metrics.fieldAccuracy).toEqual({
+      sku: 50,
+      name: 100,
+      price: 50,
+      unit: null,
+      description: null,
+    });
+  });
+
+  it('should match each extracted product once and compare variants as their own rows', () => {
+    const metrics = evaluateProducts(
+      [
+        {
+          sku: 'BV-100',
+          name: 'Bud vase',
+          price: 18,
+          variants: [
+            { sku: 'BV-106', attributes: { size: '6"' }, price: 18 },
+            { sku: 'BV-108', attributes: { size: '8"' }, price: 24 },
+          ],
+        },
+      ],
+      [
+        { sku: 'BV-106', name: 'Bud vase 6"', price: 18 },
+        { sku: 'BV-108', name: 'Bud vase 8"', price: 24 },
+        { sku: 'BV-110', name: 'Bud vase 10"', price: 32 },
+      ]
+    );
+
+    expect(metrics.totalExtracted).toBe(3);
+    expect(metrics.matchedProducts).toBe(2);
+    expect(metrics.missedSkus).toEqual(['BV-110']);
+    expect(metrics.unexpectedSkus).toEqual(['BV-100']);
+  });
+
+  it('should read benchmark rows with flexible column names', () => {
+    const sheet = xlsx.utils.json_to_sheet([
+      { 'Item #': 'HM-1', Description: 'Quilted Hammock', MSRP: '$99.00', Size: '11 ft' },
+      { 'Item #': '', Description: '' },
+    ]);
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(workbook, sheet, 'Prices');
+
+    expect(parseBenchmarkWorkbook(xlsx.write(workbook, { type: 'buffer' }))).toEqual([
+      {
+        sku: 'HM-1',
+        name: 'Quilted Hammock',
+        price: 99,
+        unit: '11 ft',
+        description: 'Quilted Hammock',
+      },
+    ]);
+  });
+
+  it('should skip title rows above the benchmark header row', () => {
+    const sheet = xlsx.utils.aoa_to_sheet([
+      ['Blenko Glass Company - 2025 Wholesale Price List'],
+      ['Item', 'Color', 'SKU', 'Retail (MSRP)', 'Wholesale'],
+      ['1223 Beaker Bud Vase', 'Cobalt', '1223000301', 78, 39],
+    ]);
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(workbook, sheet, 'Master');
+
+    expect(parseBenchmarkWorkbook(xlsx.write(workbook, { type: 'buffer' }))).toEqual([
+      {
+        sku: '1223000301',
+        name: '1223 Beaker Bud Vase',
+        price: 39,
+        unit: '',
+        description: '',
+      },
+    ]);
+  });
+
+  it('should map a saved OCR result offline with a recorded LLM response', async () => {
+    const row = (rowIndex: number, values: string[], kind = 'content') =>
+      values.map((content, columnIndex) => ({ kind, rowIndex, columnIndex, content }));
+    const prompts: string[] = [];
+    const llm = createFakeLlmProvider((request) => {
+      prompts.push(request.prompt);
+      return { layouts: [{ layoutId: 0, columnMapping: { sku: 0, name: 1, price: 2 } }] };
+    });
+
+    const result = await mapOffline(
+      {
+        content: 'ACME price list',
+        tables: [
+          {
+            cells: [
+              ...row(0, ['Item #', 'Description', 'Price'], 'columnHeader'),
+              ...row(1, ['HM-1', 'Quilted Hammock', '$99.00']),
+              ...row(2, ['', 'Gift wrap', '$5.00']), // No SKU - rejected
+            ],
+          },
+        ],
+      },
+      llm
+    );
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('ACME price list');
+    expect(result.layoutMappings).toEqual([{ sku: 0, name: 1, price: 2 }]);
+    expect(result.products.map((p) => [p.sku, p.price])).toEqual([['HM-1', 99]]);
+    expect(result.rejectedRows).toBe(1);
+    expect(evaluateProducts(result.products, benchmark).matchedProducts).toBe(1);
+  });
+});
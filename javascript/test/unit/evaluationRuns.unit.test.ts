@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock mssql before importing the handler
+vi.mock('mssql');
+vi.mock('../../src/utils/database');
+
+import { evaluationRuns } from '../../src/functions/evaluationRuns';
+import { withDatabase } from '../../src/utils/database';
+import { mockInvocationContext, mockQueryParams } from './setup/mocks';
+
+const RUN_ID = '3f2b8c1e-4d5a-4b6c-8e7f-9a0b1c2d3e4f';
+
+const runRow = (overrides: Record<string, unknown> = {}) => ({
+  run_id: RUN_ID,
+  model: 'gpt-4o',
+  prompt_variant: 'strict-headers',
+  triggered_by: 'ci',
+  is_baseline: false,
+  vendor_count: 2,
+  vendors_failed: 0,
+  average_f1: 81.5,
+  drift_severity: 'High',
+  created_at: '2026-10-19T10:00:00Z',
+  ...overrides,
+});
+
+describe('Evaluation Runs API - Unit Tests', () => {
+  let queries: string[];
+  let recordsets: unknown[][];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queries = [];
+    recordsets = [];
+
+    vi.mocked(withDatabase).mockImplementation(async (callback) => {
+      const mockRequest = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn(async (query: string) => {
+          queries.push(query);
+          return { recordset: recordsets.shift() || [] };
+        }),
+      };
+      return callback({ request: () => mockRequest } as any);
+    });
+  });
+
+  it('should list recent runs with the current baseline', async () => {
+    recordsets = [
+      [runRow(), runRow({ run_id: 'baseline-run', is_baseline: true, drift_severity: null })],
+      [runRow({ run_id: 'baseline-run', is_baseline: true, drift_severity: null })],
+    ];
+
+    const response = await evaluationRuns(
+      mockQueryParams({}) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(200);
+    const body = JSON.parse(response.body as string);
+    expect(body.thresholds).toEqual({ Low: 2, Medium: 5, High: 10, Critical: 15 });
+    expect(body.runs[0]).toEqual({
+      runId: RUN_ID,
+      model: 'gpt-4o',
+      promptVariant: 'strict-headers',
+      triggeredBy: 'ci',
+      isBaseline: false,
+      vendorCount: 2,
+      vendorsFailed: 0,
+      averageF1: 81.5,
+      driftSeverity: 'High',
+      createdAt: '2026-10-19T10:00:00Z',
+    });
+    expect(body.baseline).toMatchObject({ runId: 'baseline-run', isBaseline: true });
+    expect(queries[0]).toContain('ORDER BY created_at DESC');
+  });
+
+  it('should clamp limit to between 1 and 100 runs', async () => {
+    const limits: unknown[] = [];
+    vi.mocked(withDatabase).mockImplementation(async (callback) => {
+      const mockRequest = {
+        input: vi.fn((name: string, _type: unknown, value: unknown) => {
+          if (name === 'limit') limits.push(value);
+          return mockRequest;
+        }),
+        query: vi.fn().mockResolvedValue({ recordset: [] }),
+      };
+      return callback({ request: () => mockRequest } as any);
+    });
+
+    for (const limit of ['-5', '500', 'abc']) {
+      const response = await evaluationRuns(
+        mockQueryParams({ limit }) as any,
+        mockInvocationContext() as any
+      );
+      expect(response.status).toBe(200);
+    }
+
+    expect(limits).toEqual([1, 100, 20]);
+  });
+
+  it('should return one run with per-vendor metrics and drift', async () => {
+    const drift = { baselineRunId: 'baseline-run', severity: 'High', regressed: true, metrics: [] };
+    recordsets = [
+      [runRow()],
+      [
+        {
+          vendor_name: 'BLENKO',
+          document_id: null,
+          f1_score: 78,
+          precision_pct: 80,
+          recall_pct: 76,
+          metrics: JSON.stringify({ f1Score: 78 }),
+          baseline_run_id: 'baseline-run',
+          drift: JSON.stringify(drift),
+          drift_severity: 'High',
+          error_message: null,
+        },
+      ],
+    ];
+
+    const response = await evaluationRuns(
+      mockQueryParams({ runId: RUN_ID }) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(200);
+    const body = JSON.parse(response.body as string);
+    expect(body.run.runId).toBe(RUN_ID);
+    expect(body.vendors).toEqual([
+      {
+        vendor: 'BLENKO',
+        documentId: null,
+        f1Score: 78,
+        precision: 80,
+        recall: 76,
+        driftSeverity: 'High',
+        baselineRunId: 'baseline-run',
+        drift,
+        metrics: { f1Score: 78 },
+        error: null,
+      },
+    ]);
+  });
+
+  it('should reject malformed run ids and return 404 for unknown runs', async () => {
+    const invalid = await evaluationRuns(
+      mockQueryParams({ runId: 'latest' }) as any,
+      mockInvocationContext() as any
+    );
+    expect(invalid.status).toBe(400);
+    expect(withDatabase).not.toHaveBeenCalled();
+
+    const missing = await evaluationRuns(
+      mockQueryParams({ runId: RUN_ID }) as any,
+      mockInvocationContext() as any
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it('should return 500 on database errors', async () => {
+    vi.mocked(withDatabase).mockRejectedValue(new Error('Connection failed'));
+
+    const response = await evaluationRuns(
+      mockQueryParams({}) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(500);
+    expect(JSON.parse(response.body as string).error).toBe('Connection failed');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import * as xlsx from 'xlsx';
+import {
+  buildFallbackChunks,
+  collectNonTableText,
+  isFallbackEnabled,
+  parseFallbackProducts,
+  rejectReason,
+} from '../../src/utils/fallbackExtraction';
+import { parseSpreadsheet } from '../../src/utils/spreadsheetParser';
+
+describe('Fallback Extraction - Unit Tests', () => {
+  it('should only be enabled by LLM_FALLBACK_EXTRACTION=true', () => {
+    expect(isFallbackEnabled({ LLM_FALLBACK_EXTRACTION: 'true' })).toBe(true);
+    expect(isFallbackEnabled({ LLM_FALLBACK_EXTRACTION: '1' })).toBe(false);
+    expect(isFallbackEnabled({})).toBe(false);
+  });
+
+  it('should give the reason a row produced no product', () => {
+    expect(rejectReason(undefined, 'Chair')).toBe('missing_sku');
+    expect(rejectReason('CH-1', '')).toBe('missing_name');
+    expect(rejectReason(undefined, undefined)).toBe('missing_sku_and_name');
+    expect(rejectReason('CH-1', 'Chair')).toBeNull();
+  });
+
+  it('should keep only text lines that are not table cells', () => {
+    const tables = [{ cells: [{ content: 'SKU' }, { content: 'CH-1' }, { content: 'Chair' }] }];
+    const text = 'ACME Price List 2026\nSKU\nCH-1\nChair\n---\n  Lamp L-4 $20  \n';
+
+    expect(collectNonTableText(text, tables)).toEqual(['ACME Price List 2026', 'Lamp L-4 $20']);
+  });
+
+  it('should match the row lines of a spreadsheet-shaped OCR result', () => {
+    const worksheet = xlsx.utils.aoa_to_sheet([
+      ['Blenko Glass Company - 2025 Wholesale Price List'],
+      ['Item', 'Color', 'SKU', 'Wholesale'],
+      ['1223 Beaker Bud Vase', 'Cobalt', '1223000301', '$39.00'],
+      ['882 Apple', '', '8802001701', '$46.00'],
+    ]);
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(workbook, worksheet, 'Master');
+    const { content, tables } = parseSpreadsheet(
+      xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer
+    );
+
+    // Only the title row above the header is outside the table
+    expect(collectNonTableText(content, tables)).toEqual([
+      'Blenko Glass Company - 2025 Wholesale Price List',
+    ]);
+  });
+
+  it('should chunk rejected rows and text without splitting lines', () => {
+    const rejectedRows = [
+      { tableIndex: 0, rowIndex: 4, reason: 'missing_sku' as const, cells: ['Chair', '$10'] },
+      { tableIndex: 1, rowIndex: 2, reason: 'missing_name' as const, cells: ['L-4', '', '$20'] },
+    ];
+
+    const chunks = buildFallbackChunks(rejectedRows, ['Lamp L-5 $25'], 45);
+
+    expect(chunks).toEqual([
+      '[table 0 row 4] Chair | $10',
+      '[table 1 row 2] L-4 |  | $20\nLamp L-5 $25',
+    ]);
+    expect(buildFallbackChunks([], [])).toEqual([]);
+  });
+
+  it('should validate and tag fallback products', () => {
+    const products = parseFallbackProducts({
+      products: [
+        { sku: 'L-4', name: 'Lamp', price: '$1,020.00', upc: '012345678900', moq: '12' },
+        { sku: 'L-5', name: 'Lamp Shade', price: null, msrp: 30, category: ' Lighting ' },
+        { sku: '', name: 'Freight terms' },
+        { name: 'No SKU' },
+      ],
+    });
+
+    expect(products).toEqual([
+      { sku: 'L-4', name: 'Lamp', price: 1020, moq: 12, extractionMethod: 'llm_fallback' },
+      {
+        sku: 'L-5',
+        name: 'Lamp Shade',
+        price: null,
+        msrp: 30,
+        category: 'Lighting',
+        extractionMethod: 'llm_fallback',
+      },
+    ]);
+    expect(parseFallbackProducts({})).toEqual([]);
+  });
+});
@@ -292,6 +292,7 @@ describe('Get Results API - Unit Tests', () => {
       vendor_name: 'ACME',
       processing_status: 'completed',
       ai_mapping_result: JSON.stringify({ products: [{ sku: 'TEST-001', name: 'Test' }] }),
+      validation_results: JSON.stringify({ evaluationRunId: 'run-1', metrics: { f1Score: 95 } }),
     };
 
     vi.mocked(withDatabase).mockImplementation(async (callback) => {
@@ -317,6 +318,10 @@ describe('Get Results API - Unit Tests', () => {
     expect(response.status).toBe(200);
     const body = JSON.parse(response.body as string);
     expect(body[0].ai_mapping_result).toEqual({ products: [{ sku: 'TEST-001', name: 'Test' }] });
+    expect(body[0].validation_results).toEqual({
+      evaluationRunId: 'run-1',
+      metrics: { f1Score: 95 },
+    });
   });
 
   it('should handle database errors gracefully', async () => {
@@ -425,4 +430,31 @@ describe('Get Results API - Unit Tests', () => {
     const body = JSON.parse(response.body as string);
     expect(body).toEqual([]);
   });
+
+  it('should prefer the pinned version over the latest in the default view', async () => {
+    const query = vi.fn().mockResolvedValue({ recordset: [] });
+    vi.mocked(withDatabase).mockImplementation(async (callback) => {
+      return callback({
+        request: () => ({
+          input: vi.fn().mockReturnThis(),
+          query,
+        }),
+      } as any);
+    });
+
+    const request = {
+      query: {
+        get: vi.fn(() => null),
+      },
+    };
+    const context = mockInvocationContext();
+
+    await getResults(request as any, context as any);
+
+    const sqlText = query.mock.calls[0][0] as string;
+    expect(sqlText).toContain('d.result_id = pv.pinned_result_id');
+    expect(sqlText).toContain(
+      'pv.pinned_result_id IS NULL AND d.reprocessing_count = lv.max_version'
+    );
+  });
 });
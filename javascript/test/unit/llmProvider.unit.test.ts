@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('openai');
+
+import { OpenAI } from 'openai';
+import { createFakeLlmProvider, createLlmProvider } from '../../src/utils/llmProvider';
+import { mockOpenAI } from './setup/mocks';
+
+const AZURE_ENV = {
+  AI_PROJECT_ENDPOINT: 'https://mock-ai.openai.azure.com',
+  AI_PROJECT_KEY: 'mock-key',
+};
+
+describe('LLM Provider - Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(OpenAI).mockImplementation(() => mockOpenAI() as any);
+  });
+
+  it('should default to an Azure OpenAI gpt-4o deployment', () => {
+    const provider = createLlmProvider({}, AZURE_ENV);
+
+    expect(provider.name).toBe('azure-openai');
+    expect(provider.model).toBe('gpt-4o');
+    expect(provider.pricing).toMatchObject({ inputPer1K: 0.0025, outputPer1K: 0.01 });
+    const clientOptions = vi.mocked(OpenAI).mock.calls[0][0]!;
+    expect(clientOptions.baseURL).toBe(
+      'https://mock-ai.openai.azure.com/openai/deployments/gpt-4o'
+    );
+    expect(clientOptions.defaultQuery).toEqual({ 'api-version': '2024-08-01-preview' });
+  });
+
+  it('should use the requested deployment and configured API version', () => {
+    const provider = createLlmProvider(
+      { model: 'gpt-4o-mini' },
+      { ...AZURE_ENV, AZURE_OPENAI_API_VERSION: '2024-10-21' }
+    );
+
+    expect(provider.model).toBe('gpt-4o-mini');
+    expect(provider.pricing.inputPer1K).toBe(0.00015);
+    const clientOptions = vi.mocked(OpenAI).mock.calls[0][0]!;
+    expect(clientOptions.baseURL).toContain('/deployments/gpt-4o-mini');
+    expect(clientOptions.defaultQuery).toEqual({ 'api-version': '2024-10-21' });
+  });
+
+  it('should throw when Azure settings are missing', () => {
+    expect(() => createLlmProvider({}, {})).toThrow('Missing AI project configuration');
+  });
+
+  it('should point openai-compatible providers at LLM_BASE_URL with configured pricing', () => {
+    const provider = createLlmProvider(
+      {},
+      {
+        LLM_PROVIDER: 'openai-compatible',
+        LLM_BASE_URL: 'http://localhost:11434/v1',
+        AI_MODEL_NAME: 'llama-3-1-70b',
+        LLM_INPUT_COST_PER_1K: '0.0005',
+      }
+    );
+
+    expect(provider.name).toBe('openai-compatible');
+    expect(provider.model).toBe('llama-3-1-70b');
+    expect(provider.pricing).toEqual({ inputPer1K: 0.0005, outputPer1K: 0 });
+    expect(vi.mocked(OpenAI).mock.calls[0][0]!.baseURL).toBe('http://localhost:11434/v1');
+    expect(() => createLlmProvider({}, { LLM_PROVIDER: 'openai-compatible' })).toThrow(
+      'LLM_BASE_URL'
+    );
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createLlmProvider({}, { LLM_PROVIDER: 'bedrock' })).toThrow(
+      "Unknown LLM_PROVIDER 'bedrock'"
+    );
+  });
+
+  it('should request JSON mode, or a JSON schema when one is given', async () => {
+    const provider = createLlmProvider({}, AZURE_ENV);
+    const client = vi.mocked(OpenAI).mock.results[0].value;
+
+    const response = await provider.chatJson({ prompt: 'map', maxTokens: 500, temperature: 0 });
+    await provider.chatJson({
+      prompt: 'map',
+      maxTokens: 500,
+      temperature: 0,
+      schema: { name: 'column_mapping', schema: { type: 'object' } },
+    });
+
+    expect(response.usage).toEqual({
+      promptTokens: 1000,
+      completionTokens: 500,
+      cachedPromptTokens: 0,
+      totalTokens: 1500,
+    });
+    expect(response.json.products).toHaveLength(1);
+    const [jsonMode, schemaMode] = client.chat.completions.create.mock.calls.map(
+      (call: any) => call[0].response_format
+    );
+    expect(jsonMode).toEqual({ type: 'json_object' });
+    expect(schemaMode.type).toBe('json_schema');
+    expect(schemaMode.json_schema.name).toBe('column_mapping');
+  });
+
+  it('should answer deterministically from the fake provider without network calls', async () => {
+    const provider = createLlmProvider(
+      {},
+      { LLM_PROVIDER: 'fake', LLM_FAKE_RESPONSE: '{"columnMapping":{"sku":0}}' }
+    );
+
+    const first = await provider.chatJson({
+      prompt: 'x'.repeat(40),
+      maxTokens: 10,
+      temperature: 0,
+    });
+    const second = await provider.chatJson({
+      prompt: 'x'.repeat(40),
+      maxTokens: 10,
+      temperature: 0,
+    });
+
+    expect(OpenAI).not.toHaveBeenCalled();
+    expect(first).toEqual(second);
+    expect(first.json).toEqual({ columnMapping: { sku: 0 } });
+    expect(first.usage.promptTokens).toBe(10);
+    expect(provider.pricing).toEqual({ inputPer1K: 0, outputPer1K: 0 });
+  });
+
+  it('should pass requests to a custom fake responder', async () => {
+    const provider = createFakeLlmProvider((request) => ({ echoed: request.temperature }));
+
+    const response = await provider.chatJson({ prompt: 'p', maxTokens: 10, temperature: 0.3 });
+
+    expect(response.json).toEqual({ echoed: 0.3 });
+  });
+});
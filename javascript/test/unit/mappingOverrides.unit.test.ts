@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { hasManualMapping, parseMappingOverrides } from '../../src/utils/mappingOverrides';
+import { buildColumnMappingPrompt } from '../../src/utils/promptVariants';
+import { clusterTableLayouts } from '../../src/utils/tableLayouts';
+
+describe('Mapping Overrides - Unit Tests', () => {
+  it('should return null overrides when none are given', () => {
+    expect(parseMappingOverrides({ documentId: 'uuid' })).toEqual({ overrides: null });
+  });
+
+  it('should accept model, prompt variant, temperature and per-layout mappings', () => {
+    const { overrides, error } = parseMappingOverrides({
+      model: 'gpt-4o-mini',
+      promptVariant: 'sample-rows',
+      temperature: 0.7,
+      layouts: [{ layoutId: 1, columnMapping: { sku: 0, name: 2, price: null } }],
+    });
+
+    expect(error).toBeUndefined();
+    expect(overrides).toEqual({
+      model: 'gpt-4o-mini',
+      promptVariant: 'sample-rows',
+      temperature: 0.7,
+      layouts: [{ layoutId: 1, columnMapping: { sku: 0, name: 2, price: null } }],
+    });
+    expect(hasManualMapping(overrides)).toBe(true);
+    expect(hasManualMapping({ model: 'gpt-4o-mini' })).toBe(false);
+  });
+
+  it('should reject invalid values', () => {
+    expect(parseMappingOverrides({ model: '../evil' }).error).toContain('deployment name');
+    expect(parseMappingOverrides({ temperature: 3 }).error).toContain('between 0 and 2');
+    expect(parseMappingOverrides({ columnMapping: { sku: -1 } }).error).toContain(
+      'columnMapping.sku'
+    );
+    expect(parseMappingOverrides({ columnMapping: { barcode: 4 } }).error).toContain(
+      "unknown field 'barcode'"
+    );
+    expect(parseMappingOverrides({ layouts: [{ columnMapping: {} }] }).error).toContain('layoutId');
+  });
+
+  it('should build each prompt variant around the same layouts and response format', () => {
+    const layouts = clusterTableLayouts([
+      {
+        cells: [
+          { kind: 'columnHeader', rowIndex: 0, columnIndex: 0, content: 'Item #' },
+          { kind: 'content', rowIndex: 1, columnIndex: 0, content: 'A-1' },
+        ],
+      },
+    ]);
+
+    const defaultPrompt = buildColumnMappingPrompt('default', layouts, 'ACME price list');
+    const strictPrompt = buildColumnMappingPrompt('strict-headers', layouts, 'ACME price list');
+
+    for (const prompt of [defaultPrompt, strictPrompt]) {
+      expect(prompt).toContain('Column 0: "Item #"');
+      expect(prompt).toContain('"layouts": [');
+      expect(prompt).toContain('Context: ACME price list');
+    }
+    expect(defaultPrompt).toContain('first data column with descriptive text');
+    expect(strictPrompt).toContain('Do NOT guess');
+  });
+});
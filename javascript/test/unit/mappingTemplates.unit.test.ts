@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyFieldRules,
+  buildHeaderMapping,
+  MappingTemplate,
+  matchTemplate,
+} from '../../src/utils/mappingTemplates';
+
+const tables = [
+  {
+    cells: [
+      { kind: 'columnHeader', rowIndex: 0, columnIndex: 0, content: 'Item  #' },
+      { kind: 'columnHeader', rowIndex: 0, columnIndex: 1, content: 'Description' },
+      { kind: 'columnHeader', rowIndex: 0, columnIndex: 2, content: 'Wholesale' },
+      { kind: 'content', rowIndex: 1, columnIndex: 0, content: 'abc-1' },
+    ],
+  },
+];
+
+const template: MappingTemplate = {
+  vendorBaseName: 'BETTER_LIVING',
+  headerMapping: { sku: 'ITEM #', name: 'description', price: 'Wholesale' },
+  transforms: { sku: ['uppercase'] },
+  defaultValues: { unit: 'EA' },
+};
+
+describe('Mapping Templates - Unit Tests', () => {
+  it('should record header text for each mapped field', () => {
+    expect(buildHeaderMapping(tables, { sku: 0, name: 1, price: 2, unit: null })).toEqual({
+      sku: 'Item #',
+      name: 'Description',
+      price: 'Wholesale',
+    });
+  });
+
+  it('should resolve template headers to column indexes ignoring case and spacing', () => {
+    expect(matchTemplate(template, tables)).toEqual({
+      sku: 0,
+      name: 1,
+      price: 2,
+      unit: null,
+      description: null,
+      cost: null,
+      map: null,
+      msrp: null,
+      upc: null,
+      moq: null,
+      category: null,
+      packSize: null,
+    });
+  });
+
+  it('should not match when a template header is missing from the document', () => {
+    const renamed = { ...template, headerMapping: { ...template.headerMapping, price: 'MSRP' } };
+    expect(matchTemplate(renamed, tables)).toBeNull();
+  });
+
+  it('should apply transforms and default values', () => {
+    expect(applyFieldRules(template, 'sku', 'abc-1')).toBe('ABC-1');
+    expect(applyFieldRules(template, 'unit', undefined)).toBe('EA');
+    expect(applyFieldRules(template, 'name', 'Caddy')).toBe('Caddy');
+  });
+});
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock mssql before importing the handler
+vi.mock('mssql');
+vi.mock('../../src/utils/database');
+
+import { priceListDiff } from '../../src/functions/priceListDiff';
+import { withDatabase } from '../../src/utils/database';
+import { mockInvocationContext, mockQueryParams } from './setup/mocks';
+
+const FROM_ID = '550e8400-e29b-41d4-a716-446655440000';
+const TO_ID = '550e8400-e29b-41d4-a716-446655440001';
+
+function mockDocument(resultId: string, vendorName: string, products: unknown[]) {
+  return {
+    result_id: resultId,
+    document_name: `${vendorName}.pdf`,
+    vendor_name: vendorName,
+    reprocessing_count: 0,
+    export_status: 'not_exported',
+    ai_mapping_result: JSON.stringify({ products }),
+  };
+}
+
+describe('Price List Diff API - Unit Tests', () => {
+  let inputs: Array<[string, unknown]>;
+  let queries: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    inputs = [];
+    queries = [];
+
+    const documents: Record<string, unknown> = {
+      [FROM_ID]: mockDocument(FROM_ID, 'ACME_11_25', [
+        { name: 'Widget A', sku: 'W001', price: 10 },
+        { name: 'Widget B', sku: 'W002', price: 20 },
+      ]),
+      [TO_ID]: mockDocument(TO_ID, 'ACME_12_25', [
+        { name: 'Widget A', sku: 'W001', price: 12 },
+        { name: 'Widget C', sku: 'W003', price: 30 },
+      ]),
+    };
+    documents.ACME_11_25 = documents[FROM_ID];
+    documents.ACME_12_25 = documents[TO_ID];
+
+    vi.mocked(withDatabase).mockImplementation(async (callback) => {
+      return callback({
+        request: () => {
+          let key: string;
+          const mockRequest = {
+            input: vi.fn((name: string, _type: unknown, value: string) => {
+              inputs.push([name, value]);
+              key = value;
+              return mockRequest;
+            }),
+            query: vi.fn(async (query: string) => {
+              queries.push(query);
+              return { recordset: documents[key] ? [documents[key]] : [] };
+            }),
+          };
+          return mockRequest;
+        },
+      } as any);
+    });
+  });
+
+  it('should diff two documents by result id', async () => {
+    const request = mockQueryParams({ fromId: FROM_ID, toId: TO_ID });
+
+    const response = await priceListDiff(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(200);
+    const body = JSON.parse(response.body as string);
+    expect(body.from.vendorName).toBe('ACME_11_25');
+    expect(body.to.documentId).toBe(TO_ID);
+    expect(body.added.map((p: any) => p.sku)).toEqual(['W003']);
+    expect(body.removed.map((p: any) => p.sku)).toEqual(['W002']);
+    expect(body.priceIncreases[0]).toMatchObject({ sku: 'W001', percentChange: 20 });
+  });
+
+  it('should resolve documents from a vendor base name and two periods', async () => {
+    const request = mockQueryParams({ vendor: 'ACME', from: '11_25', to: '12_25' });
+
+    const response = await priceListDiff(request as any, mockInvocationContext() as any);
+
+    expect(response.status).toBe(200);
+    expect(inputs).toEqual([
+      ['vendorName', 'ACME_11_25'],
+      ['vendorName', 'ACME_12_25'],
+    ]);
+    expect(JSON.parse(response.body as string).summary.priceIncreases).toBe(1);
+  });
+
+  it('should prefer the pinned version over the latest when resolving by vendor name', async () => {
+    const request = mockQueryParams({ vendor: 'ACME', from: '11_25', to: '12_25' });
+
+    await priceListDiff(request as any, mockInvocationContext() as any);
+
+    expect(queries).toHaveLength(2);
+    for (const query of queries) {
+      expect(query).toContain('ON root.result_id = COALESCE(d.parent_document_id, d.result_id)');
+      expect(query).toMatch(
+        /ORDER BY\s+CASE WHEN d\.result_id = root\.pinned_result_id THEN 0 ELSE 1 END,\s+d\.reprocessing_count DESC/
+      );
+    }
+  });
+
+  it('should return 400 without a complete pair of documents', async () => {
+    const response = await priceListDiff(
+      mockQueryParams({ fromId: FROM_ID }) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(400);
+    expect(withDatabase).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for an invalid period', async () => {
+    const response = await priceListDiff(
+      mockQueryParams({ vendor: 'ACME', from: '13_25', to: '12_25' }) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body).toContain('Invalid month');
+  });
+
+  it('should return 404 when a price list does not exist', async () => {
+    const response = await priceListDiff(
+      mockQueryParams({ vendor: 'ACME', from: '11_25', to: '01_26' }) as any,
+      mockInvocationContext() as any
+    );
+
+    expect(response.status).toBe(404);
+    expect(response.body).toContain('ACME_01_26');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocaleNumber, parsePriceText } from '../../src/utils/priceParser';
+
+describe('Price Parser - Unit Tests', () => {
+  it('should parse a plain price with its currency', () => {
+    expect(parsePriceText('$1,299.50')).toEqual({
+      amount: 1299.5,
+      currency: 'USD',
+      perUnit: null,
+      tiers: [],
+      range: null,
+      placeholder: null,
+      confidence: 1,
+      raw: '$1,299.50',
+    });
+    expect(parsePriceText('12.50 USD')).toMatchObject({ amount: 12.5, currency: 'USD' });
+    expect(parsePriceText('£8')).toMatchObject({ amount: 8, currency: 'GBP' });
+    expect(parsePriceText('C$15.00')).toMatchObject({ amount: 15, currency: 'CAD' });
+    expect(parsePriceText(42)).toMatchObject({ amount: 42, confidence: 1 });
+  });
+
+  it('should read European and other locale separators', () => {
+    expect(parsePriceText('€1.234,50')).toMatchObject({ amount: 1234.5, currency: 'EUR' });
+    expect(parsePriceText('€1.234')).toMatchObject({ amount: 1234, confidence: 1 });
+    expect(parsePriceText('12,50 EUR').amount).toBe(12.5);
+    expect(parsePriceText("CHF 1'234.50").amount).toBe(1234.5);
+    expect(parsePriceText('1\u00a0234,50').amount).toBe(1234.5);
+    expect(parsePriceText('1.234', { decimalComma: true })).toMatchObject({
+      amount: 1234,
+      confidence: 1,
+    });
+  });
+
+  it('should lower confidence for a guessed thousands separator', () => {
+    expect(parsePriceText('1,234')).toMatchObject({ amount: 1234, confidence: 0.6 });
+    expect(parseLocaleNumber('1,234', true)).toEqual({ value: 1.234, ambiguous: true });
+    expect(parseLocaleNumber('1.234.567')).toEqual({ value: 1234567, ambiguous: false });
+  });
+
+  it('should keep per-unit suffixes', () => {
+    expect(parsePriceText('$12.50/dz')).toMatchObject({
+      amount: 12.5,
+      perUnit: 'dz',
+      confidence: 1,
+    });
+    expect(parsePriceText('$3 per case')).toMatchObject({ amount: 3, perUnit: 'case' });
+    expect(parsePriceText('$0.45 per 100')).toMatchObject({ amount: 0.45, perUnit: '100' });
+    expect(parsePriceText('$4.00 ea.')).toMatchObject({ amount: 4, perUnit: 'ea' });
+  });
+
+  it('should parse quantity break tiers', () => {
+    const price = parsePriceText('1-11: $5.00 12+: $4.50');
+
+    expect(price.tiers).toEqual([
+      { minQuantity: 1, maxQuantity: 11, amount: 5 },
+      { minQuantity: 12, maxQuantity: null, amount: 4.5 },
+    ]);
+    expect(price).toMatchObject({ amount: 5, currency: 'USD', confidence: 0.9 });
+  });
+
+  it('should parse ranges as their low end', () => {
+    expect(parsePriceText('$15 - $10')).toMatchObject({
+      amount: 10,
+      range: { min: 10, max: 15 },
+      confidence: 0.7,
+    });
+  });
+
+  it('should not read plain ranges or pack sizes as quantity tiers', () => {
+    expect(parsePriceText('10-15')).toMatchObject({
+      amount: 10,
+      tiers: [],
+      range: { min: 10, max: 15 },
+    });
+    expect(parsePriceText('10 - 15')).toMatchObject({
+      amount: 10,
+      tiers: [],
+      range: { min: 10, max: 15 },
+    });
+    expect(parsePriceText('Case of 12 - $30.00')).toMatchObject({
+      amount: 30,
+      tiers: [],
+      range: null,
+    });
+  });
+
+  it('should never turn placeholders or text into 0', () => {
+    expect(parsePriceText('CALL')).toMatchObject({
+      amount: null,
+      placeholder: 'CALL',
+      confidence: 1,
+    });
+    expect(parsePriceText('n/a').placeholder).toBe('N/A');
+    expect(parsePriceText('Call for pricing').amount).toBeNull();
+    expect(parsePriceText('see catalog')).toMatchObject({ amount: null, confidence: 0 });
+    expect(parsePriceText(undefined)).toMatchObject({ amount: null, raw: '' });
+  });
+
+  it('should flag cells with extra text or several numbers', () => {
+    expect(parsePriceText('Net $12.00')).toMatchObject({ amount: 12, confidence: 0.7 });
+    expect(parsePriceText('Set of 2 $12.00')).toMatchObject({ amount: 12, confidence: 0.5 });
+  });
+});
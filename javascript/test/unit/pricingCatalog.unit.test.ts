@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateDocIntelCost,
+  calculateLlmCost,
+  getDocIntelPrice,
+  getLlmPrice,
+} from '../../src/utils/pricingCatalog';
+
+describe('Pricing Catalog - Unit Tests', () => {
+  it('should return the price in effect on a given date', () => {
+    expect(getLlmPrice('gpt-4o', new Date('2024-06-01'))).toMatchObject({
+      inputPer1K: 0.005,
+      outputPer1K: 0.015,
+    });
+    expect(getLlmPrice('gpt-4o', new Date('2025-01-15'))).toMatchObject({
+      inputPer1K: 0.0025,
+      cachedInputPer1K: 0.00125,
+      outputPer1K: 0.01,
+    });
+  });
+
+  it('should return null for unknown models and dates before the first price', () => {
+    expect(getLlmPrice('llama-3-1-405b')).toBeNull();
+    expect(getLlmPrice('gpt-4.1', new Date('2024-12-31'))).toBeNull();
+    expect(getDocIntelPrice('prebuilt-invoice')).toBeNull();
+  });
+
+  it('should price token usage per 1K tokens', () => {
+    const price = getLlmPrice('gpt-4o', new Date('2025-01-15'))!;
+
+    expect(calculateLlmCost(price, { promptTokens: 1000, completionTokens: 500 })).toBeCloseTo(
+      0.0075
+    );
+  });
+
+  it('should bill cached prompt tokens at the cached rate', () => {
+    const price = getLlmPrice('gpt-4o', new Date('2025-01-15'))!;
+
+    // 600 uncached * 0.0025 + 400 cached * 0.00125 + 500 output * 0.01
+    expect(
+      calculateLlmCost(price, {
+        promptTokens: 1000,
+        cachedPromptTokens: 400,
+        completionTokens: 500,
+      })
+    ).toBeCloseTo(0.007);
+    // Models without a cached rate bill cached tokens as regular input
+    expect(
+      calculateLlmCost(
+        { inputPer1K: 0.001, outputPer1K: 0 },
+        { promptTokens: 1000, cachedPromptTokens: 400, completionTokens: 0 }
+      )
+    ).toBeCloseTo(0.001);
+  });
+
+  it('should apply the batch discount', () => {
+    const price = getLlmPrice('gpt-4o', new Date('2025-01-15'))!;
+    const usage = { promptTokens: 1000, completionTokens: 500 };
+
+    expect(calculateLlmCost(price, usage, { batch: true })).toBeCloseTo(0.00375);
+  });
+
+  it('should price Document Intelligence pages per model', () => {
+    expect(calculateDocIntelCost('prebuilt-layout', 10)).toBeCloseTo(0.1);
+    expect(calculateDocIntelCost('prebuilt-read', 10)).toBeCloseTo(0.015);
+    expect(() => calculateDocIntelCost('prebuilt-invoice', 1)).toThrow(
+      "No Document Intelligence pricing for model 'prebuilt-invoice'"
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  diffColumnMappings,
+  diffPriceLists,
+  diffProductVersions,
+} from '../../src/utils/productDiff';
+
+describe('Product Diff - Unit Tests', () => {
+  const november = [
+    { name: 'Oak Chair', sku: 'C100', price: 100 },
+    { name: 'Oak Table', sku: 'T200', price: 400 },
+    { name: 'Pine Shelf', sku: 'S300', price: 50 },
+    { name: 'Lamp', sku: 'L400', price: 20 },
+  ];
+
+  it('should report added, removed, re-priced and renamed SKUs', () => {
+    const december = [
+      { name: 'Oak Chair', sku: 'C100', price: 110 },
+      { name: 'Oak Dining Table', sku: 'T200', price: 380 },
+      { name: 'pine  shelf', sku: 'S300', price: 50 },
+      { name: 'Floor Lamp', sku: 'L500', price: 45 },
+    ];
+
+    const diff = diffPriceLists(november, december);
+
+    expect(diff.added).toEqual([{ sku: 'L500', name: 'Floor Lamp', price: 45 }]);
+    expect(diff.removed).toEqual([{ sku: 'L400', name: 'Lamp', price: 20 }]);
+    expect(diff.priceIncreases).toEqual([
+      {
+        sku: 'C100',
+        name: 'Oak Chair',
+        oldPrice: 100,
+        newPrice: 110,
+        change: 10,
+        percentChange: 10,
+      },
+    ]);
+    expect(diff.priceDecreases[0]).toMatchObject({ sku: 'T200', change: -20, percentChange: -5 });
+    expect(diff.renamed).toEqual([
+      { sku: 'T200', oldName: 'Oak Table', newName: 'Oak Dining Table' },
+    ]);
+    expect(diff.summary).toEqual({
+      fromProductCount: 4,
+      toProductCount: 4,
+      added: 1,
+      removed: 1,
+      priceIncreases: 1,
+      priceDecreases: 1,
+      renamed: 1,
+      unchanged: 1,
+    });
+  });
+
+  it('should ignore sub-cent float noise and sort by largest percent change', () => {
+    const diff = diffPriceLists(november, [
+      { name: 'Oak Chair', sku: 'C100', price: 100.001 },
+      { name: 'Oak Table', sku: 'T200', price: 440 },
+      { name: 'Pine Shelf', sku: 'S300', price: 75 },
+      { name: 'Lamp', sku: 'L400', price: 20 },
+    ]);
+
+    expect(diff.priceIncreases.map((change) => change.sku)).toEqual(['S300', 'T200']);
+    expect(diff.summary.unchanged).toBe(2);
+  });
+
+  it('should return a null percent change when the old price was zero', () => {
+    const diff = diffPriceLists(
+      [{ name: 'Sample', sku: 'X1', price: 0 }],
+      [{ name: 'Sample', sku: 'X1', price: 5 }]
+    );
+
+    expect(diff.priceIncreases[0].percentChange).toBeNull();
+  });
+
+  it('should report field-level changes between two versions', () => {
+    const diff = diffProductVersions(
+      [
+        { name: 'Oak Chair', sku: 'C100', price: 100, category: '' },
+        { name: 'Oak Table', sku: 'T200', price: 400 },
+      ],
+      [
+        { name: 'Oak Chair', sku: 'C100', price: 100, category: undefined },
+        { name: 'Oak Table', sku: 'T200', price: 410, msrp: 599 },
+      ]
+    );
+
+    expect(diff.changed).toEqual([
+      {
+        sku: 'T200',
+        name: 'Oak Table',
+        changes: [
+          { field: 'price', oldValue: 400, newValue: 410 },
+          { field: 'msrp', oldValue: null, newValue: 599 },
+        ],
+      },
+    ]);
+    expect(diff.summary.unchanged).toBe(1);
+    expect(diff.summary.fieldChangeCounts).toEqual({ price: 1, msrp: 1 });
+  });
+
+  it('should diff column mappings per layout, falling back to the document mapping', () => {
+    expect(
+      diffColumnMappings(
+        { layouts: [{ layoutId: 0, columnMapping: { sku: 0, price: 2 } }] },
+        {
+          layouts: [
+            { layoutId: 0, columnMapping: { sku: 0, price: 3 } },
+            { layoutId: 1, columnMapping: { sku: 1 } },
+          ],
+        }
+      )
+    ).toEqual([
+      { layoutId: 0, field: 'price', oldColumn: 2, newColumn: 3 },
+      { layoutId: 1, field: 'sku', oldColumn: null, newColumn: 1 },
+    ]);
+
+    expect(
+      diffColumnMappings({ columnMapping: { sku: 0, name: 1 } }, { columnMapping: { sku: 0 } })
+    ).toEqual([{ layoutId: null, field: 'name', oldColumn: 1, newColumn: null }]);
+  });
+});
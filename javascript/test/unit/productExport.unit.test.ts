@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('mssql');
+
+import sql from 'mssql';
+import {
+  dedupeBySku,
+  exportProducts,
+  flattenVariants,
+  getEffectiveMonth,
+} from '../../src/utils/productExport';
+import { mockSqlTable, mockSqlTransaction } from './setup/mocks';
+
+describe('Product Export - Unit Tests', () => {
+  it('should keep the first occurrence of a repeated SKU', () => {
+    const products = dedupeBySku([
+      { name: 'Widget A', sku: 'W001', price: 10 },
+      { name: 'Widget B', sku: 'W002', price: 20 },
+      { name: 'Widget A (dup)', sku: 'W001', price: 11 },
+    ]);
+
+    expect(products.map((p) => p.name)).toEqual(['Widget A', 'Widget B']);
+  });
+
+  it('should treat SKUs differing only in case or padding as the same SKU', () => {
+    const products = dedupeBySku([
+      { name: 'Widget A', sku: 'w001', price: 10 },
+      { name: 'Widget A (caps)', sku: 'W001', price: 10 },
+      { name: 'Widget A (padded)', sku: ' W001 ', price: 10 },
+      { name: 'Widget B', sku: 'W002', price: 20 },
+    ]);
+
+    expect(products.map((p) => p.name)).toEqual(['Widget A', 'Widget B']);
+  });
+
+  it('should export variants as rows pointing at their parent', () => {
+    const rows = flattenVariants([
+      {
+        name: 'Bud vase',
+        sku: 'BV-100',
+        price: 18,
+        msrp: 40,
+        category: 'Vases',
+        variants: [
+          { sku: 'BV-100-6IN', attributes: { size: '6"' }, price: 18 },
+          { sku: 'BV-108', attributes: { size: '8"' }, price: 24 },
+        ],
+      },
+      { name: 'Bowl', sku: 'BW-1', price: 30 },
+    ]);
+
+    expect(rows).toEqual([
+      { name: 'Bud vase', sku: 'BV-100', price: 18, msrp: 40, category: 'Vases' },
+      {
+        name: 'Bud vase',
+        sku: 'BV-100-6IN',
+        price: 18,
+        category: 'Vases',
+        parentSku: 'BV-100',
+        variantAttributes: { size: '6"' },
+      },
+      {
+        name: 'Bud vase',
+        sku: 'BV-108',
+        price: 24,
+        category: 'Vases',
+        parentSku: 'BV-100',
+        variantAttributes: { size: '8"' },
+      },
+      { name: 'Bowl', sku: 'BW-1', price: 30 },
+    ]);
+  });
+
+  it('should derive the effective month from the vendor name', () => {
+    expect(getEffectiveMonth('BETTER_LIVING_11_25')).toEqual(new Date(Date.UTC(2025, 10, 1)));
+    expect(getEffectiveMonth('ACME')).toBeNull();
+  });
+
+  it('should summarize new, re-priced and discontinued SKUs', async () => {
+    vi.mocked(sql.Table).mockImplementation(() => mockSqlTable() as any);
+    const transaction = mockSqlTransaction();
+    const txRequest = transaction.request();
+    txRequest.query.mockImplementation(async (query: string) => {
+      if (query.includes('GROUP BY change_type')) {
+        return {
+          recordset: [
+            { change_type: 'new', change_count: 1 },
+            { change_type: 'price_change', change_count: 1 },
+          ],
+          rowsAffected: [2, 2],
+        };
+      }
+      if (query.includes("'discontinued'")) {
+        return { recordset: [], rowsAffected: [3, 3] };
+      }
+      return { recordset: [], rowsAffected: [1] };
+    });
+
+    const summary = await exportProducts(
+      transaction as any,
+      [
+        { name: 'Widget A', sku: 'W001', price: 10 },
+        { name: 'Widget B', sku: 'W002', price: 20 },
+        { name: 'Widget C', sku: 'W003', price: 30 },
+        { name: 'Widget A (dup)', sku: 'W001', price: 11 },
+      ],
+      {
+        documentId: 'test-uuid-1234',
+        vendorName: 'BETTER_LIVING_12_25',
+        documentName: 'BETTER_LIVING_12_25.pdf',
+      }
+    );
+
+    expect(summary).toEqual({
+      productsExported: 3,
+      newProducts: 1,
+      updatedProducts: 2,
+      priceChanges: 1,
+      discontinued: 3,
+      duplicateSkusSkipped: 1,
+    });
+    expect(txRequest.input).toHaveBeenCalledWith('vendorBaseName', sql.NVarChar, 'BETTER_LIVING');
+
+    const merge = txRequest.query.mock.calls
+      .map((call: any) => call[0])
+      .find((query: string) => query.includes('MERGE vvocr.vendor_products'));
+    expect(merge).toContain('target.vendor_base_name = @vendorBaseName');
+  });
+
+  it('should stage trimmed SKUs', async () => {
+    vi.mocked(sql.Table).mockImplementation(() => mockSqlTable() as any);
+    const transaction = mockSqlTransaction();
+    const txRequest = transaction.request();
+    txRequest.query.mockResolvedValue({ recordset: [], rowsAffected: [0] });
+
+    const summary = await exportProducts(
+      transaction as any,
+      [
+        { name: 'Widget A', sku: ' W001 ', price: 10 },
+        { name: 'Widget A (dup)', sku: 'W001', price: 11 },
+        { name: 'Widget B', sku: 'W002\t', price: 20 },
+      ],
+      {
+        documentId: 'test-uuid-1234',
+        vendorName: 'BETTER_LIVING_12_25',
+        documentName: 'BETTER_LIVING_12_25.pdf',
+      }
+    );
+
+    expect(summary.duplicateSkusSkipped).toBe(1);
+    const table = txRequest.bulk.mock.calls[0][0];
+    expect(table.rows.map((row: unknown[]) => row[1])).toEqual(['W001', 'W002']);
+  });
+});
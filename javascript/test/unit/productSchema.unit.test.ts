@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyPriceColumns,
+  detectPriceColumns,
+  isValidGtin,
+  normalizeUpc,
+  parsePrice,
+} from '../../src/utils/productSchema';
+
+describe('Product Schema - Unit Tests', () => {
+  it('should validate UPC/EAN/GTIN check digits', () => {
+    expect(isValidGtin('012345678905')).toBe(true); // UPC-A
+    expect(isValidGtin('4006381333931')).toBe(true); // EAN-13
+    expect(isValidGtin('10012345678902')).toBe(true); // GTIN-14
+    expect(isValidGtin('012345678906')).toBe(false);
+    expect(isValidGtin('12345')).toBe(false);
+    expect(normalizeUpc('0 12345-67890 5')).toBe('012345678905');
+  });
+
+  it('should parse prices with currency symbols and commas', () => {
+    expect(parsePrice('$1,299.50')).toBe(1299.5);
+    expect(parsePrice('N/A')).toBeUndefined();
+    expect(parsePrice(undefined)).toBeUndefined();
+  });
+
+  it('should classify cost, MAP and MSRP columns by header', () => {
+    expect(
+      detectPriceColumns([
+        { columnIndex: 0, header: 'Item #' },
+        { columnIndex: 3, header: 'Dealer Cost' },
+        { columnIndex: 4, header: 'M.A.P.' },
+        { columnIndex: 5, header: 'Retail' },
+      ])
+    ).toEqual({ cost: 3, map: 4, msrp: 5 });
+  });
+
+  it('should fill unmapped price columns and default price to cost', () => {
+    const headers = [
+      { columnIndex: 0, header: 'SKU' },
+      { columnIndex: 1, header: 'Name' },
+      { columnIndex: 2, header: 'Wholesale' },
+      { columnIndex: 3, header: 'MSRP' },
+    ];
+
+    expect(applyPriceColumns({ sku: 0, name: 1, price: null }, headers)).toEqual({
+      sku: 0,
+      name: 1,
+      price: 2,
+      cost: 2,
+      msrp: 3,
+    });
+    // LLM mapped price to the MSRP column - it is still recorded as msrp
+    expect(applyPriceColumns({ sku: 0, name: 1, price: 3 }, headers)).toMatchObject({
+      price: 3,
+      cost: 2,
+      msrp: 3,
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { buildRowSource, mergeRegions } from '../../src/utils/provenance';
+
+describe('Provenance - Unit Tests', () => {
+  const region = (pageNumber: number, x0: number, y0: number, x1: number, y1: number) => ({
+    pageNumber,
+    polygon: [
+      { x: x0, y: y0 },
+      { x: x1, y: y0 },
+      { x: x1, y: y1 },
+      { x: x0, y: y1 },
+    ],
+  });
+
+  const table = {
+    boundingRegions: [{ pageNumber: 3, polygon: [] }],
+    cells: [
+      { rowIndex: 0, columnIndex: 0, content: 'SKU', boundingRegions: [region(3, 1, 1, 2, 1.2)] },
+      {
+        rowIndex: 1,
+        columnIndex: 2,
+        content: ' $19.20 ',
+        boundingRegions: [region(3, 5, 2, 6, 2.2)],
+      },
+      { rowIndex: 1, columnIndex: 0, content: 'ABC-1', boundingRegions: [region(3, 1, 2, 2, 2.2)] },
+      { rowIndex: 1, columnIndex: 1, content: 'Caddy', boundingRegions: [region(3, 2, 2, 5, 2.3)] },
+    ],
+  };
+
+  it('should merge SDK points and flat REST polygons into one rectangle per page', () => {
+    expect(
+      mergeRegions([
+        region(2, 1, 1, 2, 2),
+        { pageNumber: 1, polygon: [0, 0, 1, 0, 1, 1, 0, 1] },
+        { pageNumber: 2, polygon: [3, 0.5, 4, 0.5, 4, 1.5, 3, 1.5] },
+        { pageNumber: 4, polygon: [] },
+      ])
+    ).toEqual([
+      { pageNumber: 1, polygon: [0, 0, 1, 0, 1, 1, 0, 1] },
+      { pageNumber: 2, polygon: [1, 0.5, 4, 0.5, 4, 2, 1, 2] },
+    ]);
+  });
+
+  it('should record the mapped raw cells, page and row outline', () => {
+    const source = buildRowSource(table, 4, 1, { sku: 0, price: 2, msrp: 2, name: null });
+
+    expect(source).toEqual({
+      tableIndex: 4,
+      rowIndex: 1,
+      pageNumber: 3,
+      boundingRegions: [{ pageNumber: 3, polygon: [1, 2, 6, 2, 6, 2.3, 1, 2.3] }],
+      cells: [
+        { columnIndex: 0, content: 'ABC-1', fields: ['sku'] },
+        { columnIndex: 2, content: ' $19.20 ', fields: ['price', 'msrp'] },
+      ],
+    });
+  });
+
+  it('should keep every non-empty cell without a mapping and fall back to the table page', () => {
+    const sheet = {
+      boundingRegions: [{ pageNumber: 2, polygon: [] }],
+      cells: [
+        { rowIndex: 5, columnIndex: 0, content: 'L-4' },
+        { rowIndex: 5, columnIndex: 1, content: '' },
+        { rowIndex: 5, columnIndex: 2, content: 'Lamp' },
+      ],
+    };
+
+    expect(buildRowSource(sheet, 1, 5)).toEqual({
+      tableIndex: 1,
+      rowIndex: 5,
+      pageNumber: 2,
+      boundingRegions: [],
+      cells: [
+        { columnIndex: 0, content: 'L-4', fields: [] },
+        { columnIndex: 2, content: 'Lamp', fields: [] },
+      ],
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSectionTracker,
+  extractSectionHeadings,
+  headingBeforeTable,
+  sectionRowText,
+} from '../../src/utils/sectionHeaders';
+
+describe('Section Headers - Unit Tests', () => {
+  it('should keep only section heading paragraphs', () => {
+    const headings = extractSectionHeadings([
+      { role: 'title', content: 'ACME Price List', spans: [{ offset: 0 }] },
+      {
+        role: 'sectionHeading',
+        content: ' Hammocks ',
+        spans: [{ offset: 20 }],
+        boundingRegions: [{ pageNumber: 2 }],
+      },
+      { role: 'pageFooter', content: 'Page 2', spans: [{ offset: 90 }] },
+      { content: 'Prices valid through June', spans: [{ offset: 40 }] },
+    ]);
+
+    expect(headings).toEqual([{ content: 'Hammocks', offset: 20, pageNumber: 2 }]);
+    expect(extractSectionHeadings(undefined)).toEqual([]);
+  });
+
+  it('should pick the last heading before the table', () => {
+    const headings = [
+      { content: 'Hammocks', offset: 20, pageNumber: 1 },
+      { content: 'Stands', offset: 300, pageNumber: 2 },
+      { content: 'Pads', offset: 900, pageNumber: 3 },
+    ];
+
+    expect(headingBeforeTable(headings, { spans: [{ offset: 500 }] })).toBe('Stands');
+    expect(headingBeforeTable(headings, { spans: [{ offset: 10 }] })).toBeUndefined();
+    expect(headingBeforeTable(headings, {})).toBeUndefined(); // Spreadsheet tables
+  });
+
+  it('should recognize single-text rows that are not codes or prices', () => {
+    const cells = (...contents: string[]) => contents.map((content) => ({ content }));
+
+    expect(sectionRowText(cells('QUILTED HAMMOCKS', ''), 3)).toBe('QUILTED HAMMOCKS');
+    expect(sectionRowText(cells('Stands', 'Stands', 'Stands'), 3)).toBe('Stands');
+    expect(sectionRowText(cells('Stands'), 1)).toBeNull(); // Single-column table
+    expect(sectionRowText(cells('Chair', '$10'), 3)).toBeNull();
+    expect(sectionRowText(cells('HM-100'), 3)).toBeNull();
+    expect(sectionRowText(cells('$12.00'), 3)).toBeNull();
+    expect(sectionRowText(cells('', ''), 3)).toBeNull();
+  });
+
+  it('should nest consecutive section rows and reset on a new category', () => {
+    const sections = createSectionTracker();
+    sections.enterTable();
+    sections.sectionRow('HAMMOCKS');
+    sections.sectionRow('Quilted');
+    expect(sections.current()).toEqual({ category: 'HAMMOCKS', subCategory: 'Quilted' });
+
+    sections.productRow();
+    sections.sectionRow('STANDS');
+    expect(sections.current()).toEqual({ category: 'STANDS' });
+
+    // Carries over to the next table
+    sections.enterTable();
+    expect(sections.current()).toEqual({ category: 'STANDS' });
+  });
+
+  it('should make section rows sub-categories of a page heading', () => {
+    const sections = createSectionTracker();
+    sections.enterTable('Accessories');
+    expect(sections.current()).toEqual({ category: 'Accessories' });
+
+    sections.sectionRow('Pillows');
+    sections.productRow();
+    sections.sectionRow('Pads');
+    expect(sections.current()).toEqual({ category: 'Accessories', subCategory: 'Pads' });
+
+    // Same heading on the next table keeps the sub-category, a new heading resets it
+    sections.enterTable('Accessories');
+    expect(sections.current()).toEqual({ category: 'Accessories', subCategory: 'Pads' });
+    sections.enterTable('Hammocks');
+    expect(sections.current()).toEqual({ category: 'Hammocks' });
+  });
+});
@@ -87,6 +87,39 @@ export const mockSqlConnection = () => {
   return mockPool;
 };
 
+// Transaction used by confirmMapping's atomic export
+export const mockSqlTransaction = (exportStatus = 'not_exported') => {
+  const mockRequest = {
+    input: vi.fn().mockReturnThis(),
+    bulk: vi.fn().mockResolvedValue({ rowsAffected: 0 }),
+    query: vi
+      .fn()
+      .mockImplementation(async (sql?: string) =>
+        sql && sql.includes('UPDLOCK')
+          ? { recordset: [{ export_status: exportStatus }] }
+          : { recordset: [], rowsAffected: [1] }
+      ),
+  };
+
+  return {
+    begin: vi.fn().mockResolvedValue(undefined),
+    commit: vi.fn().mockResolvedValue(undefined),
+    rollback: vi.fn().mockResolvedValue(undefined),
+    request: vi.fn().mockReturnValue(mockRequest),
+  };
+};
+
+// Bulk-load table (sql.Table) capturing added rows
+export const mockSqlTable = () => ({
+  create: false,
+  columns: { add: vi.fn() },
+  rows: Object.assign([] as unknown[][], {
+    add(...values: unknown[]) {
+      this.push(values);
+    },
+  }),
+});
+
 export const mockTableClient = () => {
   const entities = new Map<string, any>();
 
@@ -271,3 +304,8 @@ export const mockHttpRequest = (overrides: Partial<any> = {}) => {
     ...overrides,
   };
 };
+
+// GET request carrying only query parameters
+export const mockQueryParams = (params: Record<string, string>) => ({
+  query: { get: vi.fn((key: string) => params[key] ?? null) },
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import * as xlsx from 'xlsx';
+import { isSpreadsheetFile, parseSpreadsheet } from '../../src/utils/spreadsheetParser';
+
+function buildWorkbook(sheets: Array<{ name: string; rows: unknown[][]; hidden?: boolean }>) {
+  const workbook = xlsx.utils.book_new();
+  for (const sheet of sheets) {
+    xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet(sheet.rows), sheet.name);
+  }
+  workbook.Workbook = {
+    Sheets: sheets.map((sheet) => ({ name: sheet.name, Hidden: sheet.hidden ? 1 : 0 })),
+  };
+  return xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+describe('Spreadsheet Parser - Unit Tests', () => {
+  it('should detect spreadsheet files by extension', () => {
+    expect(isSpreadsheetFile('BLENKO_01_25/BLENKO_01_25.xlsx')).toBe(true);
+    expect(isSpreadsheetFile('legacy.XLS')).toBe(true);
+    expect(isSpreadsheetFile('BETTER_LIVING_11_25.pdf')).toBe(false);
+  });
+
+  it('should skip title rows and use the first full row as the header', () => {
+    const buffer = buildWorkbook([
+      {
+        name: 'Prices',
+        rows: [
+          ['2025 Gold Crest Distributing Wholesale Price List'],
+          ['Last Updated: Jan'],
+          ['SKU', 'Description', 'Price', 'UPC'],
+          ['2186', 'Bride Wine Glass', '12.50', '645194021860'],
+        ],
+      },
+    ]);
+
+    const result = parseSpreadsheet(buffer);
+
+    expect(result.tables).toHaveLength(1);
+    const table = result.tables[0];
+    expect(table.rowCount).toBe(2);
+    expect(table.columnCount).toBe(4);
+    expect(table.cells.filter((c) => c.kind === 'columnHeader').map((c) => c.content)).toEqual([
+      'SKU',
+      'Description',
+      'Price',
+      'UPC',
+    ]);
+    expect(table.cells.find((c) => c.rowIndex === 1 && c.columnIndex === 1)?.content).toBe(
+      'Bride Wine Glass'
+    );
+    expect(result.content).toContain('Last Updated: Jan');
+  });
+
+  it('should drop empty columns and compact column indexes', () => {
+    const buffer = buildWorkbook([
+      {
+        name: 'Table 1',
+        rows: [
+          ['', 'SKU', '', 'Price'],
+          ['', '14021', '', '6.00'],
+        ],
+      },
+    ]);
+
+    const table = parseSpreadsheet(buffer).tables[0];
+
+    expect(table.columnCount).toBe(2);
+    expect(table.cells.map((c) => [c.rowIndex, c.columnIndex, c.content])).toEqual([
+      [0, 0, 'SKU'],
+      [0, 1, 'Price'],
+      [1, 0, '14021'],
+      [1, 1, '6.00'],
+    ]);
+  });
+
+  it('should ignore hidden and empty sheets', () => {
+    const buffer = buildWorkbook([
+      {
+        name: 'Master',
+        rows: [
+          ['Item', 'SKU', 'Wholesale'],
+          ['Vase', '1223000301', '$39.00'],
+        ],
+      },
+      {
+        name: 'OLD',
+        rows: [
+          ['Item', 'SKU'],
+          ['Old Vase', '999'],
+        ],
+        hidden: true,
+      },
+      { name: 'Empty', rows: [] },
+    ]);
+
+    const result = parseSpreadsheet(buffer);
+
+    expect(result.tableCount).toBe(1);
+    expect(result.pageCount).toBe(1);
+    expect(result.tables[0].sheetName).toBe('Master');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  composeHeaders,
+  expandSpans,
+  joinWrappedRows,
+  reconstructGrid,
+} from '../../src/utils/tableGrid';
+
+const cell = (rowIndex: number, columnIndex: number, content: string, extra: object = {}) => ({
+  kind: 'content',
+  rowIndex,
+  columnIndex,
+  content,
+  ...extra,
+});
+const header = (rowIndex: number, columnIndex: number, content: string, extra: object = {}) =>
+  cell(rowIndex, columnIndex, content, { kind: 'columnHeader', ...extra });
+const contentAt = (cells: any[], rowIndex: number, columnIndex: number) =>
+  cells.find((c) => c.rowIndex === rowIndex && c.columnIndex === columnIndex)?.content;
+
+describe('Table Grid - Unit Tests', () => {
+  it('should repeat merged cells at every position they cover', () => {
+    const { cells } = expandSpans({
+      cells: [
+        cell(1, 0, 'HM-1', { rowSpan: 2 }),
+        cell(1, 1, 'Hammock Blue'),
+        cell(2, 1, 'Hammock Red'),
+        cell(3, 0, 'STANDS', { columnSpan: 2 }),
+      ],
+    });
+
+    expect(contentAt(cells, 2, 0)).toBe('HM-1');
+    expect(contentAt(cells, 3, 1)).toBe('STANDS');
+    expect(cells).toHaveLength(6);
+    expect(cells.every((c: any) => c.rowSpan === undefined && c.columnSpan === undefined)).toBe(
+      true
+    );
+  });
+
+  it('should compose stacked headers into one label per column', () => {
+    const table = expandSpans({
+      cells: [
+        header(0, 0, 'SKU', { rowSpan: 2 }),
+        header(0, 1, 'Price', { columnSpan: 2 }),
+        header(1, 1, 'Each'),
+        header(1, 2, 'Case'),
+        cell(2, 0, 'HM-1'),
+      ],
+    });
+
+    const { cells } = composeHeaders(table);
+    const headers = cells.filter((c) => c.kind === 'columnHeader');
+
+    expect(headers.map((c) => [c.rowIndex, c.columnIndex, c.content])).toEqual([
+      [1, 0, 'SKU'],
+      [1, 1, 'Price Each'],
+      [1, 2, 'Price Case'],
+    ]);
+    expect(composeHeaders({ cells: [header(0, 0, 'SKU')] }).cells).toHaveLength(1);
+  });
+
+  it('should join wrapped text into the product row above', () => {
+    const region = (y: number) => [{ pageNumber: 1, polygon: [0, y, 2, y, 2, y + 1, 0, y + 1] }];
+    const { table, joinedRows } = joinWrappedRows({
+      cells: [
+        cell(1, 0, 'HM-1'),
+        cell(1, 1, 'Quilted hammock with', { boundingRegions: region(1) }),
+        cell(1, 2, '$99.00'),
+        cell(2, 1, 'spreader bars', { boundingRegions: region(2) }),
+        cell(3, 1, 'and pillow'),
+        cell(4, 0, 'HM-2'),
+        cell(4, 1, 'Rope hammock'),
+        cell(5, 1, 'CLEARANCE'), // Heading, not wrapped text
+        cell(6, 1, 'Replacement rope'),
+      ],
+    });
+
+    expect(joinedRows).toEqual([
+      { rowIndex: 2, intoRowIndex: 1 },
+      { rowIndex: 3, intoRowIndex: 1 },
+    ]);
+    expect(contentAt(table.cells, 1, 1)).toBe('Quilted hammock with spreader bars and pillow');
+    expect(
+      table.cells.find((c) => c.rowIndex === 1 && c.columnIndex === 1)?.boundingRegions
+    ).toEqual([...region(1), ...region(2)]);
+    expect(contentAt(table.cells, 2, 1)).toBeUndefined();
+    // Not directly below a product row
+    expect(contentAt(table.cells, 6, 1)).toBe('Replacement rope');
+  });
+
+  it('should not join a Title Case category row into the product above', () => {
+    const { table, joinedRows } = joinWrappedRows({
+      cells: [
+        cell(1, 0, 'A1'),
+        cell(1, 1, 'Hammock'),
+        cell(1, 2, '$5.00'),
+        cell(2, 0, ''),
+        cell(2, 1, 'Rope Hammocks'),
+        cell(2, 2, ''),
+        cell(3, 0, 'B2'),
+        cell(3, 1, 'Rope'),
+        cell(3, 2, '$6.00'),
+        cell(4, 1, 'with spreader bars'),
+      ],
+    });
+
+    expect(joinedRows).toEqual([{ rowIndex: 4, intoRowIndex: 3 }]);
+    expect(contentAt(table.cells, 1, 1)).toBe('Hammock');
+    expect(contentAt(table.cells, 2, 1)).toBe('Rope Hammocks');
+    expect(contentAt(table.cells, 3, 1)).toBe('Rope with spreader bars');
+  });
+
+  it('should not join rows that carry a price or new columns', () => {
+    const { joinedRows } = joinWrappedRows({
+      cells: [
+        cell(1, 0, 'HM-1'),
+        cell(1, 1, 'Hammock'),
+        cell(2, 1, 'Hammock kit'),
+        cell(2, 2, '$12.00'),
+        cell(3, 0, 'HM-2'),
+        cell(3, 1, 'Stand'),
+        cell(4, 2, 'see note'),
+      ],
+    });
+
+    expect(joinedRows).toEqual([]);
+  });
+
+  it('should report what was reconstructed', () => {
+    const { report } = reconstructGrid({
+      cells: [
+        header(0, 0, 'SKU', { rowSpan: 2 }),
+        header(0, 1, 'Name', { rowSpan: 2 }),
+        cell(2, 0, 'HM-1'),
+        cell(2, 1, 'Hammock'),
+        cell(3, 1, 'with stand'),
+      ],
+    });
+
+    expect(report).toEqual({
+      expandedCells: 2,
+      headerRows: 2,
+      joinedRows: [{ rowIndex: 3, intoRowIndex: 2 }],
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clusterTableLayouts,
+  headerSignature,
+  resolveLayoutMappings,
+} from '../../src/utils/tableLayouts';
+
+const headerTable = (headers: string[], rows: string[][] = []) => ({
+  cells: [
+    ...headers.map((content, columnIndex) => ({
+      kind: 'columnHeader',
+      rowIndex: 0,
+      columnIndex,
+      content,
+    })),
+    ...rows.flatMap((row, rowIdx) =>
+      row.map((content, columnIndex) => ({
+        kind: 'content',
+        rowIndex: rowIdx + 1,
+        columnIndex,
+        content,
+      }))
+    ),
+  ],
+});
+
+describe('Table Layouts - Unit Tests', () => {
+  it('should build the same signature for headers differing only in case/spacing', () => {
+    expect(headerSignature(headerTable(['Item #', 'Price']))).toBe(
+      headerSignature(headerTable(['ITEM  #', ' price ']))
+    );
+    expect(headerSignature({ columnCount: 3, cells: [] })).toBe('no-header:3');
+  });
+
+  it('should group tables with identical headers and split divergent ones', () => {
+    const layouts = clusterTableLayouts([
+      headerTable(['SKU', 'Name', 'Price'], [['A-1', 'Chair', '$10']]),
+      headerTable(['Item', 'Description', 'Dims', 'MSRP'], [['B-1', 'Lamp', '12"', '$5']]),
+      headerTable(['sku', 'name', 'price'], [['A-2', 'Table', '$20']]),
+    ]);
+
+    expect(layouts.map((l) => l.tableIndexes)).toEqual([[0, 2], [1]]);
+    expect(layouts[0].sampleRows).toEqual([
+      ['A-1', 'Chair', '$10'],
+      ['A-2', 'Table', '$20'],
+    ]);
+    expect(layouts[1].headers.map((h) => h.header)).toEqual([
+      'Item',
+      'Description',
+      'Dims',
+      'MSRP',
+    ]);
+  });
+
+  it('should read per-layout mappings and fall back to a single columnMapping', () => {
+    expect(
+      resolveLayoutMappings(
+        { layouts: [{ layoutId: 1, columnMapping: { sku: 0, name: 1, price: 3 } }] },
+        2
+      )
+    ).toEqual([{}, { sku: 0, name: 1, price: 3 }]);
+
+    expect(resolveLayoutMappings({ columnMapping: { sku: 0, name: 1 } }, 2)).toEqual([
+      { sku: 0, name: 1 },
+      { sku: 0, name: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { firstDataRow, normalizeTables } from '../../src/utils/tableNormalizer';
+
+// Row of single-column cells on a page, columns 2 inches wide starting at `left`
+const row = (rowIndex: number, values: string[], pageNumber: number, left = 1, kind = 'content') =>
+  values.map((content, columnIndex) => {
+    const x = left + columnIndex * 2;
+    const y = 1 + rowIndex * 0.3;
+    return {
+      kind,
+      rowIndex,
+      columnIndex,
+      content,
+      boundingRegions: [{ pageNumber, polygon: [x, y, x + 2, y, x + 2, y + 0.3, x, y + 0.3] }],
+    };
+  });
+
+const table = (pageNumber: number, cells: any[]) => ({
+  columnCount: 3,
+  cells,
+  boundingRegions: [{ pageNumber, polygon: [1, 1, 7, 1, 7, 9, 1, 9] }],
+  spans: [{ offset: pageNumber * 100, length: 50 }],
+});
+
+describe('Table Normalizer - Unit Tests', () => {
+  const header = table(1, [
+    ...row(0, ['SKU', 'Name', 'Price'], 1, 1, 'columnHeader'),
+    ...row(1, ['HM-1', 'Hammock', '$99'], 1),
+  ]);
+
+  it('should stitch a header-less continuation on the next page', () => {
+    const continuation = table(2, [
+      ...row(0, ['HM-2', 'Hammock XL', '$129'], 2),
+      ...row(1, ['HM-3', 'Hammock XXL', '$149'], 2),
+    ]);
+
+    const { tables, stitching } = normalizeTables([header, continuation]);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].rowCount).toBe(4);
+    expect(tables[0].cells.filter((c) => c.content === 'HM-2')[0].rowIndex).toBe(2);
+    expect(tables[0].boundingRegions.map((r) => r.pageNumber)).toEqual([1, 2]);
+    expect(tables[0].spans).toHaveLength(2);
+    expect(stitching).toEqual({
+      originalTableCount: 2,
+      tableCount: 1,
+      sourceTables: [[0, 1]],
+      decisions: [
+        {
+          tableIndex: 1,
+          stitched: true,
+          intoTableIndex: 0,
+          rowOffset: 2,
+          reason: 'continues on the following page with matching columns',
+        },
+      ],
+    });
+    // Input untouched
+    expect(header.cells).toHaveLength(6);
+  });
+
+  it('should chain continuations over several pages', () => {
+    const { tables, stitching } = normalizeTables([
+      header,
+      table(2, row(0, ['HM-2', 'Hammock XL', '$129'], 2)),
+      table(3, row(0, ['HM-3', 'Hammock XXL', '$149'], 3)),
+    ]);
+
+    expect(tables).toHaveLength(1);
+    expect(stitching.sourceTables).toEqual([[0, 1, 2]]);
+    expect(stitching.decisions.map((d) => d.rowOffset)).toEqual([2, 3]);
+  });
+
+  it('should keep header-less tables that do not continue the previous one', () => {
+    const twoColumns = { ...table(2, row(0, ['Note', 'Text'], 2)), columnCount: 2 };
+    const samePage = table(1, row(0, ['HM-2', 'Hammock XL', '$129'], 1));
+    const shifted = table(2, row(0, ['HM-2', 'Hammock XL', '$129'], 2, 3));
+    const noGeometry = {
+      columnCount: 3,
+      cells: [{ kind: 'content', rowIndex: 0, columnIndex: 0 }],
+    };
+
+    const reasons = [twoColumns, samePage, shifted, noGeometry].map(
+      (candidate) => normalizeTables([header, candidate]).stitching.decisions[0].reason
+    );
+
+    expect(reasons).toEqual([
+      'column count differs (2 vs 3)',
+      'not on the following page',
+      'column positions differ',
+      'page unknown',
+    ]);
+    expect(normalizeTables([samePage]).stitching.decisions[0]).toMatchObject({
+      stitched: false,
+      reason: 'first table',
+    });
+  });
+
+  it('should start data rows after the header rows', () => {
+    expect(firstDataRow(header)).toBe(1);
+    expect(firstDataRow(table(2, row(0, ['HM-2', 'Hammock XL', '$129'], 2)))).toBe(0);
+  });
+});
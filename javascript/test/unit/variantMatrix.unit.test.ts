@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildVariants,
+  detectVariantColumns,
+  lowestVariantPrice,
+  variantSku,
+} from '../../src/utils/variantMatrix';
+
+const headers = (...texts: string[]) =>
+  texts.map((header, columnIndex) => ({ columnIndex, header }));
+
+const cells = (...values: string[]) =>
+  values.map((content, columnIndex) => ({ columnIndex, content }));
+
+describe('Variant Matrix - Unit Tests', () => {
+  it('should detect size, SKU-suffix and labelled option columns', () => {
+    const sizes = detectVariantColumns(headers('Item #', 'Description', '6"', '8 in', 'XL'), {
+      sku: 0,
+      name: 1,
+      price: 2,
+    });
+    expect(sizes.map((c) => [c.columnIndex, c.attribute, c.value])).toEqual([
+      [2, 'size', '6"'],
+      [3, 'size', '8 in'],
+      [4, 'size', 'XL'],
+    ]);
+
+    const suffixes = detectVariantColumns(headers('Item #', 'Description', '-S', '-M'), {
+      sku: 0,
+      name: 1,
+    });
+    expect(suffixes.map((c) => [c.attribute, c.value, c.skuSuffix])).toEqual([
+      ['option', 'S', '-S'],
+      ['option', 'M', '-M'],
+    ]);
+
+    const colours = detectVariantColumns(headers('SKU', 'Name', 'Colour Cobalt', 'Colour Amber'), {
+      sku: 0,
+      name: 1,
+    });
+    expect(colours.map((c) => c.attribute)).toEqual(['color', 'color']);
+    expect(colours.map((c) => c.value)).toEqual(['Cobalt', 'Amber']);
+  });
+
+  it('should not treat ordinary or mapped columns as a matrix', () => {
+    expect(
+      detectVariantColumns(headers('SKU', 'Name', 'Price Each', 'Price Case'), {
+        sku: 0,
+        name: 1,
+        price: 2,
+      })
+    ).toEqual([]);
+    // One size column is not a matrix, and a column mapped to another field is not a variant
+    expect(detectVariantColumns(headers('SKU', 'Name', '6"'), { sku: 0, name: 1 })).toEqual([]);
+    expect(
+      detectVariantColumns(headers('SKU', 'Name', 'M', 'L'), { sku: 0, name: 1, unit: 2 })
+    ).toEqual([]);
+  });
+
+  it('should build variants from prices, cell SKUs and derived SKUs', () => {
+    const sizeHeaders = headers('Item #', 'Description', '6"', '8"', '10"', '12"');
+    const columns = detectVariantColumns(sizeHeaders, { sku: 0, name: 1 });
+
+    const variants = buildVariants(
+      'BV-100',
+      cells('BV-100', 'Bud vase', '$18.00', 'BV-108 $24.00', '-', 'BV-112'),
+      columns
+    );
+
+    expect(variants.map(({ priceDetails: _details, ...variant }) => variant)).toEqual([
+      { sku: 'BV-100-6IN', attributes: { size: '6"' }, price: 18 },
+      { sku: 'BV-108', attributes: { size: '8"' }, price: 24 },
+      { sku: 'BV-112', attributes: { size: '12"' }, price: null },
+    ]);
+    expect(variants[0].priceDetails?.currency).toBe('USD');
+    expect(variants[2].priceDetails).toBeUndefined();
+    expect(lowestVariantPrice(variants)).toBe(18);
+    expect(lowestVariantPrice([])).toBeNull();
+  });
+
+  it('should append SKU suffixes as written', () => {
+    const [small] = detectVariantColumns(headers('SKU', 'Name', '-S', '/M'), { sku: 0, name: 1 });
+    expect(variantSku('TS-1', small)).toBe('TS-1-S');
+    expect(
+      buildVariants('TS-1', cells('TS-1', 'Tee', 'N/A', '$14'), [
+        small,
+        { columnIndex: 3, header: '/M', attribute: 'option', value: 'M', skuSuffix: '/M' },
+      ]).map((variant) => variant.sku)
+    ).toEqual(['TS-1/M']);
+  });
+});